@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ApiResponse, ToolCall, ToolDefinition } from '../providers/base-provider';
+import { SecurityService } from '../../security';
+import { CodeSecurityScanner } from '../../security/code-security-scanner';
+import { SemanticContextManager } from '../../core/context/semantic-manager';
+import { TestingService } from '../../integrations/testing';
+
+// Types
+export interface AgentTool {
+  definition: ToolDefinition;
+  execute: (args: { [key: string]: any }) => Promise<string>;
+}
+
+export interface AgentOptions {
+  maxSteps?: number;
+  tools?: AgentTool[];
+  onStep?: (step: AgentStep) => void;
+  cancellationToken?: vscode.CancellationToken;
+}
+
+export interface AgentStep {
+  index: number;
+  type: 'model' | 'tool';
+  timestamp: Date;
+  content?: string;
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+  toolName?: string;
+  arguments?: { [key: string]: any };
+  result?: string;
+  error?: string;
+  usage?: ApiResponse['usage'];
+}
+
+export interface AgentResult {
+  taskId: string;
+  model?: string;
+  content: string;
+  stopReason: 'completed' | 'max_steps' | 'cancelled' | 'error';
+  steps: AgentStep[];
+  usage: ApiResponse['usage'];
+  error?: string;
+}
+
+export interface AgentToolDependencies {
+  securityService: SecurityService;
+  contextManager?: SemanticContextManager;
+  securityScanner?: CodeSecurityScanner;
+  testingService?: TestingService;
+}
+
+// Upper bound on what a single tool result may feed back into the conversation
+const MAX_TOOL_OUTPUT_LENGTH = 20000;
+
+/**
+ * Creates the built-in tools the agent loop can call
+ * @param deps The services backing the tools; tools whose service is missing are left out
+ * @returns The agent tools
+ */
+export function createDefaultAgentTools(deps: AgentToolDependencies): AgentTool[] {
+  const tools: AgentTool[] = [
+    {
+      definition: {
+        name: 'read_file',
+        description: 'Read a file from the workspace. Paths are relative to the workspace root. Optionally restrict to a 1-based line range.',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'File path relative to the workspace root' },
+            startLine: { type: 'number', description: 'First line to return (1-based)' },
+            endLine: { type: 'number', description: 'Last line to return (1-based, inclusive)' }
+          },
+          required: ['path']
+        }
+      },
+      execute: async (args) => {
+        const filePath = resolveWorkspacePath(args.path);
+        
+        if (!await deps.securityService.checkFilePermission(filePath, 'read')) {
+          throw new Error(`Reading ${args.path} is not permitted`);
+        }
+        
+        const content = await fs.readFile(filePath, 'utf-8');
+        
+        if (args.startLine || args.endLine) {
+          const lines = content.split('\n');
+          const start = Math.max(1, args.startLine || 1);
+          const end = Math.min(lines.length, args.endLine || lines.length);
+          return truncate(lines.slice(start - 1, end).join('\n'));
+        }
+        
+        return truncate(content);
+      }
+    }
+  ];
+  
+  if (deps.contextManager) {
+    const contextManager = deps.contextManager;
+    
+    tools.push({
+      definition: {
+        name: 'search_codebase',
+        description: 'Search the workspace for code semantically related to a query.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'What to search for' },
+            maxTokens: { type: 'number', description: 'Token budget for the returned snippets (default 2000)' }
+          },
+          required: ['query']
+        }
+      },
+      execute: async (args) => {
+        const context = await contextManager.getRelevantContext(args.query, args.maxTokens || 2000);
+        
+        if (context.chunks.length === 0) {
+          return 'No matching code found.';
+        }
+        
+        return truncate(context.chunks
+          .map(chunk => `File: ${vscode.workspace.asRelativePath(chunk.filePath)}\n\`\`\`\n${chunk.content}\n\`\`\``)
+          .join('\n\n'));
+      }
+    });
+  }
+  
+  if (deps.securityScanner) {
+    const securityScanner = deps.securityScanner;
+    
+    tools.push({
+      definition: {
+        name: 'scan_security',
+        description: 'Run the security scanner on a workspace file and list the vulnerabilities it finds.',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'File path relative to the workspace root' }
+          },
+          required: ['path']
+        }
+      },
+      execute: async (args) => {
+        const filePath = resolveWorkspacePath(args.path);
+        
+        if (!await deps.securityService.checkFilePermission(filePath, 'read')) {
+          throw new Error(`Reading ${args.path} is not permitted`);
+        }
+        
+        const document = await vscode.workspace.openTextDocument(filePath);
+        const vulnerabilities = await securityScanner.scanDocument(document);
+        
+        if (vulnerabilities.length === 0) {
+          return 'No security issues found.';
+        }
+        
+        return truncate(JSON.stringify(vulnerabilities.map(vuln => ({
+          title: vuln.title,
+          severity: vuln.severity,
+          line: vuln.line,
+          code: vuln.code,
+          suggestion: vuln.suggestion,
+          cweId: vuln.cweId
+        })), null, 2));
+      }
+    });
+  }
+  
+  if (deps.testingService) {
+    const testingService = deps.testingService;
+    
+    tools.push({
+      definition: {
+        name: 'run_tests',
+        description: 'Run the workspace test suite, or a single test file, and report the results. The user is asked to confirm each run.',
+        parameters: {
+          type: 'object',
+          properties: {
+            testFile: { type: 'string', description: 'Optional test file path relative to the workspace root' }
+          }
+        }
+      },
+      execute: async (args) => {
+        // Running tests executes workspace code, so the user has to agree to each run
+        const testTarget = args.testFile ? `the tests in ${args.testFile}` : 'the workspace test suite';
+        const choice = await vscode.window.showWarningMessage(
+          `The Asura AI agent wants to run ${testTarget}. Tests run code from your workspace.`,
+          { modal: true },
+          'Run Tests'
+        );
+        
+        if (choice !== 'Run Tests') {
+          throw new Error('The user declined to run the tests');
+        }
+        
+        const result = await testingService.runTestSuite(args.testFile ? resolveWorkspacePath(args.testFile) : undefined);
+        
+        return truncate(JSON.stringify({
+          status: result.status,
+          duration: result.duration,
+          passed: result.tests.filter(test => test.status === 'passed').length,
+          failed: result.tests
+            .filter(test => test.status === 'failed')
+            .map(test => ({ name: test.name, message: test.message }))
+        }, null, 2));
+      }
+    });
+  }
+  
+  return tools;
+}
+
+// Tools may only reach files inside the workspace folder
+function resolveWorkspacePath(filePath: string): string {
+  if (typeof filePath !== 'string' || path.isAbsolute(filePath)) {
+    throw new Error(`Paths must be relative to the workspace root: ${filePath}`);
+  }
+  
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    throw new Error('No workspace folder is open');
+  }
+  
+  const root = workspaceFolders[0].uri.fsPath;
+  const resolvedPath = path.resolve(root, filePath);
+  const relativePath = path.relative(root, resolvedPath);
+  
+  if (relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+    throw new Error(`${filePath} is outside the workspace`);
+  }
+  
+  return resolvedPath;
+}
+
+function truncate(text: string): string {
+  if (text.length <= MAX_TOOL_OUTPUT_LENGTH) {
+    return text;
+  }
+  
+  return `${text.substring(0, MAX_TOOL_OUTPUT_LENGTH)}\n... [truncated ${text.length - MAX_TOOL_OUTPUT_LENGTH} characters]`;
+}
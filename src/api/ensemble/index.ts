@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { ApiResponse, ChatMessage, JsonSchema } from '../providers/base-provider';
+
+// Types
+export interface EnsembleOptions {
+  // Number of models to run, each from a different provider; at least 2
+  size?: number;
+  // 'best' returns the answer the judge scores highest, 'merge' has the judge combine the answers
+  strategy?: 'best' | 'merge';
+  // Model that scores and merges the answers; defaults to the highest-priority ensemble member
+  judgeModel?: string;
+  cancellationToken?: vscode.CancellationToken;
+}
+
+export interface EnsembleMemberResult {
+  model: string;
+  provider: string;
+  modelId: string;
+  content?: string;
+  error?: string;
+  // Judge's score from 0 to 10, with its reasoning
+  score?: number;
+  reason?: string;
+  usage: ApiResponse['usage'];
+  cost: number;
+  durationMs: number;
+}
+
+export interface EnsembleResult {
+  taskId: string;
+  content: string;
+  strategy: 'best' | 'merge';
+  // The member whose answer was returned; unset when the answers were merged
+  selectedModel?: string;
+  members: EnsembleMemberResult[];
+  // Points on which the answers contradict each other
+  disagreements: string[];
+  judge?: {
+    model: string;
+    usage: ApiResponse['usage'];
+    cost: number;
+  };
+  // Totals across the members and the judge
+  usage: ApiResponse['usage'];
+  cost: number;
+}
+
+export interface EnsembleVerdict {
+  scores: {
+    answer: string;
+    score: number;
+    reason: string;
+  }[];
+  disagreements: string[];
+  merged?: string;
+}
+
+/**
+ * Labels the answers for the judge. Model names are left out so the judge can't favor a vendor.
+ * @param count The number of answers
+ */
+export function getAnswerLabels(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => String.fromCharCode(65 + index));
+}
+
+/**
+ * Creates the schema of the judge's verdict
+ * @param labels The answer labels
+ * @param strategy The ensemble strategy; 'merge' also asks for a merged answer
+ */
+export function createVerdictSchema(labels: string[], strategy: 'best' | 'merge'): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      scores: {
+        type: 'array',
+        description: 'One entry per answer',
+        items: {
+          type: 'object',
+          properties: {
+            answer: { type: 'string', enum: labels },
+            score: { type: 'number', minimum: 0, maximum: 10, description: 'Correctness, completeness and safety, from 0 to 10' },
+            reason: { type: 'string', description: 'One or two sentences justifying the score' }
+          },
+          required: ['answer', 'score', 'reason']
+        }
+      },
+      disagreements: {
+        type: 'array',
+        description: 'Each point on which the answers contradict each other, naming the answers on each side',
+        items: { type: 'string' }
+      },
+      ...(strategy === 'merge' ? {
+        merged: { type: 'string', description: 'A single answer combining the correct parts of all answers' }
+      } : {})
+    },
+    required: strategy === 'merge' ? ['scores', 'disagreements', 'merged'] : ['scores', 'disagreements']
+  };
+}
+
+/**
+ * Creates the conversation that asks the judge to compare the answers
+ * @param query The original task query
+ * @param answers The labelled answers
+ * @param schema The verdict schema
+ * @param strategy The ensemble strategy
+ */
+export function createJudgeMessages(
+  query: string,
+  answers: { label: string; content: string }[],
+  schema: JsonSchema,
+  strategy: 'best' | 'merge'
+): ChatMessage[] {
+  const instructions = strategy === 'merge'
+    ? 'Score each answer, list the points on which they disagree, and write a merged answer that keeps the correct parts of each. Where the answers disagree, go with the one you judge correct.'
+    : 'Score each answer and list the points on which they disagree.';
+  
+  return [
+    {
+      role: 'system',
+      content: 'You are reviewing answers that different AI models gave to the same coding task. ' +
+        'Judge them on correctness first, then completeness, security and clarity. ' +
+        `${instructions}\n\nRespond only with JSON that matches this JSON schema, without any other text:\n${JSON.stringify(schema, null, 2)}`
+    },
+    {
+      role: 'user',
+      content: `Task:\n${query}\n\n` + answers.map(answer => `=== Answer ${answer.label} ===\n${answer.content}`).join('\n\n')
+    }
+  ];
+}
@@ -0,0 +1,209 @@
+// Types
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerPolicy {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit skips the provider before a probe request is let through
+  cooldownMs: number;
+  // Number of recent requests the success rate and latency are computed over
+  windowSize: number;
+}
+
+export interface ProviderHealth {
+  state: CircuitState;
+  // Share of recent requests that didn't fail with a server error, timeout or connection error; 1 if there were none
+  successRate: number;
+  averageLatencyMs?: number;
+  consecutiveFailures: number;
+  totalRequests: number;
+  lastError?: string;
+  lastFailureAt?: Date;
+  // When an open circuit lets the next probe through
+  retryAt?: Date;
+}
+
+interface ProviderRecord {
+  state: CircuitState;
+  outcomes: { success: boolean; latencyMs: number }[];
+  consecutiveFailures: number;
+  totalRequests: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  openedAt?: number;
+  probeStartedAt?: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: 3,
+  cooldownMs: 60000,
+  windowSize: 20
+};
+
+/**
+ * Tracks the success rate and latency of each provider, with a circuit breaker per provider.
+ * After failureThreshold consecutive failures the circuit opens and the provider is skipped for cooldownMs.
+ * Then the circuit goes half-open and a single probe request is let through: success closes the circuit,
+ * failure opens it for another cooldown.
+ */
+export class ProviderHealthTracker {
+  private records: Map<string, ProviderRecord> = new Map();
+  
+  constructor(private policy: CircuitBreakerPolicy) {}
+  
+  /**
+   * Replaces the circuit breaker policy. The recorded outcomes and circuit states are kept.
+   * @param policy The new policy
+   */
+  public setPolicy(policy: CircuitBreakerPolicy): void {
+    this.policy = policy;
+  }
+  
+  /**
+   * Checks whether a request to a provider would be let through, without claiming the half-open probe
+   * @param provider The provider name
+   */
+  public isAvailable(provider: string): boolean {
+    const record = this.records.get(provider);
+    
+    if (!record || record.state === 'closed') {
+      return true;
+    }
+    
+    const now = Date.now();
+    
+    if (record.state === 'open') {
+      return now - (record.openedAt || 0) >= this.policy.cooldownMs;
+    }
+    
+    // A probe that never reported back must not keep the provider blocked forever
+    return record.probeStartedAt === undefined || now - record.probeStartedAt >= this.policy.cooldownMs;
+  }
+  
+  /**
+   * Checks whether a request may be sent to a provider. When the cooldown of an open circuit is over,
+   * the circuit goes half-open and this call claims the single probe request.
+   * Call it right before sending, and report the outcome with recordSuccess, recordFailure or releaseProbe.
+   * @param provider The provider name
+   */
+  public tryAcquire(provider: string): boolean {
+    if (!this.isAvailable(provider)) {
+      return false;
+    }
+    
+    const record = this.records.get(provider);
+    
+    if (record && record.state !== 'closed') {
+      if (record.state === 'open') {
+        console.log(`Circuit for provider ${provider} is half-open, sending a probe request`);
+      }
+      
+      record.state = 'half-open';
+      record.probeStartedAt = Date.now();
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Records a request the provider answered
+   * @param provider The provider name
+   * @param latencyMs How long the request took
+   */
+  public recordSuccess(provider: string, latencyMs: number): void {
+    const record = this.getRecord(provider);
+    
+    if (record.state !== 'closed') {
+      console.log(`Circuit for provider ${provider} closed`);
+    }
+    
+    this.addOutcome(record, true, latencyMs);
+    record.consecutiveFailures = 0;
+    record.state = 'closed';
+    record.openedAt = undefined;
+    record.probeStartedAt = undefined;
+  }
+  
+  /**
+   * Records a request that failed because of the provider: a server error, timeout or connection error
+   * @param provider The provider name
+   * @param latencyMs How long the request took
+   * @param error The error message
+   */
+  public recordFailure(provider: string, latencyMs: number, error: string): void {
+    const record = this.getRecord(provider);
+    
+    this.addOutcome(record, false, latencyMs);
+    record.consecutiveFailures++;
+    record.lastError = error;
+    record.lastFailureAt = Date.now();
+    
+    if (record.state === 'half-open' || record.consecutiveFailures >= this.policy.failureThreshold) {
+      if (record.state !== 'open') {
+        console.warn(`Circuit for provider ${provider} opened after ${record.consecutiveFailures} consecutive failures; skipping it for ${this.policy.cooldownMs}ms`);
+      }
+      
+      record.state = 'open';
+      record.openedAt = Date.now();
+      record.probeStartedAt = undefined;
+    }
+  }
+  
+  /**
+   * Releases a half-open probe whose request ended without telling anything about the provider's health, e.g. when it was cancelled
+   * @param provider The provider name
+   */
+  public releaseProbe(provider: string): void {
+    const record = this.records.get(provider);
+    
+    if (record) {
+      record.probeStartedAt = undefined;
+    }
+  }
+  
+  /**
+   * Gets the health of a provider
+   * @param provider The provider name
+   */
+  public getHealth(provider: string): ProviderHealth {
+    const record = this.records.get(provider);
+    
+    if (!record) {
+      return { state: 'closed', successRate: 1, consecutiveFailures: 0, totalRequests: 0 };
+    }
+    
+    const successes = record.outcomes.filter(outcome => outcome.success).length;
+    const latencies = record.outcomes.map(outcome => outcome.latencyMs);
+    
+    return {
+      state: record.state,
+      successRate: record.outcomes.length > 0 ? successes / record.outcomes.length : 1,
+      averageLatencyMs: latencies.length > 0 ? Math.round(latencies.reduce((total, latency) => total + latency, 0) / latencies.length) : undefined,
+      consecutiveFailures: record.consecutiveFailures,
+      totalRequests: record.totalRequests,
+      lastError: record.lastError,
+      lastFailureAt: record.lastFailureAt !== undefined ? new Date(record.lastFailureAt) : undefined,
+      retryAt: record.state === 'open' ? new Date((record.openedAt || 0) + this.policy.cooldownMs) : undefined
+    };
+  }
+  
+  private getRecord(provider: string): ProviderRecord {
+    let record = this.records.get(provider);
+    
+    if (!record) {
+      record = { state: 'closed', outcomes: [], consecutiveFailures: 0, totalRequests: 0 };
+      this.records.set(provider, record);
+    }
+    
+    return record;
+  }
+  
+  private addOutcome(record: ProviderRecord, success: boolean, latencyMs: number): void {
+    record.outcomes.push({ success, latencyMs });
+    record.totalRequests++;
+    
+    if (record.outcomes.length > this.policy.windowSize) {
+      record.outcomes.shift();
+    }
+  }
+}
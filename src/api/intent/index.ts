@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import { JsonSchema } from '../providers/base-provider';
+import { isProviderError } from '../providers/errors';
+import { ModelOrchestrator } from '../orchestrator';
+
+// Types
+export type TaskType = 'explain' | 'generate' | 'complete' | 'refactor' | 'fix' | 'security-fix' | 'test' | 'review' | 'document' | 'general';
+
+export interface IntentClassification {
+  type: TaskType;
+  // From 0 to 1
+  confidence: number;
+  // Other plausible task types, most likely first
+  alternatives: { type: TaskType; confidence: number }[];
+  source: 'model' | 'keywords';
+}
+
+export interface IntentClassifierConfig {
+  // Ask a model to classify queries; when off, or when no model answers, the keyword heuristic is used
+  useModel: boolean;
+  // Classifications below this confidence are ambiguous and should be confirmed by the user
+  confidenceThreshold: number;
+}
+
+// The task types a query can be classified as, with the descriptions given to the classifier model
+export const TASK_TYPES: { [type in TaskType]: string } = {
+  'explain': 'Explain what code does or how something works',
+  'generate': 'Write new code, a new file or a new feature',
+  'complete': 'Finish partially written code',
+  'refactor': 'Restructure or improve existing code without changing its behavior',
+  'fix': 'Find and fix a bug, error or failing behavior',
+  'security-fix': 'Find and fix a security vulnerability',
+  'test': 'Write or update tests',
+  'review': 'Review code and point out problems, without rewriting it',
+  'document': 'Write documentation, comments or docstrings',
+  'general': 'Anything else'
+};
+
+// Keyword heuristic, checked in order; the first matching rule wins.
+// Weak rules match common words that say little on their own, so they only apply when no other rule matches.
+const KEYWORD_RULES: { type: TaskType; pattern: RegExp; weak?: boolean }[] = [
+  { type: 'security-fix', pattern: /\b(security|vulnerab\w*|injection|xss|csrf|exploit\w*|sanitiz\w*|cve)\b/ },
+  { type: 'fix', pattern: /\b(fix\w*|bug\w*|debug\w*|crash\w*|broken|exception\w*)\b/ },
+  { type: 'test', pattern: /\b(tests?|unit[- ]tests?|test cases?|coverage)\b/ },
+  { type: 'review', pattern: /\b(review\w*|critique|audit)\b/ },
+  { type: 'document', pattern: /\b(document\w*|docstrings?|jsdoc|readme|comments?)\b/ },
+  { type: 'refactor', pattern: /\b(refactor\w*|improve\w*|clean ?up|simplif\w*|restructure\w*|rename\w*)\b/ },
+  { type: 'complete', pattern: /\b(complete|finish)\b/ },
+  { type: 'generate', pattern: /\b(generate\w*|create\w*|implement\w*)\b/ },
+  { type: 'explain', pattern: /\b(explain\w*|describe)\b/ },
+  { type: 'fix', pattern: /\b(errors?|fail\w*|wrong)\b/, weak: true },
+  { type: 'generate', pattern: /\b(write|add|build|make)\b/, weak: true },
+  { type: 'explain', pattern: /\b(what|how|why|understand)\b/, weak: true }
+];
+
+/**
+ * Classifies a query with the keyword heuristic. A query matching several rules is ambiguous,
+ * so its confidence stays below the usual threshold.
+ * @param query The user's query
+ */
+export function classifyByKeywords(query: string): IntentClassification {
+  const lowerQuery = query.toLowerCase();
+  const matchingRules = KEYWORD_RULES.filter(rule => rule.pattern.test(lowerQuery));
+  const strongMatches = matchingRules.filter(rule => !rule.weak).map(rule => rule.type);
+  
+  if (strongMatches.length === 0) {
+    // Without a clear keyword the guess is weak, but asking the user wouldn't narrow it down either
+    const weakMatch = matchingRules.find(rule => rule.weak);
+    return { type: weakMatch ? weakMatch.type : 'general', confidence: 0.6, alternatives: [], source: 'keywords' };
+  }
+  
+  // A security fix is also a fix, so that pair isn't ambiguous
+  const types = strongMatches.filter((type, index) => strongMatches.indexOf(type) === index && !(type === 'fix' && strongMatches[0] === 'security-fix'));
+  
+  return {
+    type: types[0],
+    confidence: types.length === 1 ? 0.8 : 0.4,
+    alternatives: types.slice(1).map(type => ({ type, confidence: 0.4 })),
+    source: 'keywords'
+  };
+}
+
+// Classifies free-form queries into the orchestrator's task types with a cheap model
+export class IntentClassifier {
+  constructor(
+    private readonly orchestrator: ModelOrchestrator,
+    private readonly config: IntentClassifierConfig
+  ) {}
+  
+  /**
+   * Classifies a query. Falls back to the keyword heuristic when the model is disabled or unavailable.
+   * @param query The user's query
+   * @param cancellationToken Optional token that cancels the classification
+   */
+  public async classify(query: string, cancellationToken?: vscode.CancellationToken): Promise<IntentClassification> {
+    if (!this.config.useModel) {
+      return classifyByKeywords(query);
+    }
+    
+    try {
+      const response = await this.orchestrator.executeTask({
+        type: 'classify',
+        query: this.createPrompt(query),
+        options: {
+          temperature: 0,
+          maxTokens: 200,
+          responseSchema: this.createSchema()
+        }
+      }, undefined, cancellationToken);
+      
+      const result = response.json as { type: TaskType; confidence: number; alternatives: { type: TaskType; confidence: number }[] };
+      
+      return {
+        type: result.type,
+        confidence: result.confidence,
+        alternatives: result.alternatives
+          .filter(alternative => alternative.type !== result.type)
+          .sort((a, b) => b.confidence - a.confidence),
+        source: 'model'
+      };
+    } catch (error) {
+      if (isProviderError(error, 'cancelled')) {
+        throw error;
+      }
+      
+      console.warn('Intent classification failed, using the keyword heuristic:', error);
+      return classifyByKeywords(query);
+    }
+  }
+  
+  /**
+   * Checks whether a classification should be confirmed by the user
+   * @param classification The classification
+   */
+  public isAmbiguous(classification: IntentClassification): boolean {
+    return classification.confidence < this.config.confidenceThreshold;
+  }
+  
+  // Helper methods
+  private createPrompt(query: string): string {
+    const types = (Object.keys(TASK_TYPES) as TaskType[]).map(type => `- ${type}: ${TASK_TYPES[type]}`).join('\n');
+    
+    return 'Classify the coding assistant request below into one of these task types:\n' +
+      `${types}\n\n` +
+      'Give your confidence from 0 to 1, and list up to two other task types that could also fit. ' +
+      'Use a low confidence when the request could reasonably mean more than one task type.\n\n' +
+      `Request:\n${query}`;
+  }
+  
+  private createSchema(): JsonSchema {
+    const types = Object.keys(TASK_TYPES);
+    
+    return {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: types },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        alternatives: {
+          type: 'array',
+          maxItems: 2,
+          items: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: types },
+              confidence: { type: 'number', minimum: 0, maximum: 1 }
+            },
+            required: ['type', 'confidence']
+          }
+        }
+      },
+      required: ['type', 'confidence', 'alternatives']
+    };
+  }
+}
@@ -1,8 +1,19 @@
 import * as vscode from 'vscode';
-import { BaseApiProvider, ApiProviderConfig, ApiRequestOptions, ApiResponse, ModelCapability } from './providers/base-provider';
+import minimatch from 'minimatch';
+import { BaseApiProvider, ApiProviderConfig, ApiRequestOptions, ApiResponse, ChatMessage, ImageAttachment, JsonSchema, ModelCapability, ToolChoice, ToolDefinition } from './providers/base-provider';
 import { OpenAIProvider } from './providers/openai-provider';
 import { AnthropicProvider } from './providers/anthropic-provider';
+import { LocalProvider } from './providers/local-provider';
+import { CancelledError, InvalidRequestError, ProviderError, ServerError, StructuredOutputError, TimeoutError, isProviderError } from './providers/errors';
+import { Tokenizer, countMessageTokens, getTokenizer } from '../core/tokenizer';
+import { parseJsonContent, validateJsonSchema } from '../core/validation';
+import { PromptTemplateRegistry, PromptVariables } from '../core/prompts';
 import { SecurityService } from '../security';
+import { BudgetExceededError, UsageService } from '../services/usage';
+import { ResponseCacheService } from '../services/cache';
+import { AgentOptions, AgentResult, AgentStep, AgentTool } from './agent';
+import { CircuitBreakerPolicy, DEFAULT_CIRCUIT_BREAKER_POLICY, ProviderHealth, ProviderHealthTracker } from './health';
+import { EnsembleMemberResult, EnsembleOptions, EnsembleResult, EnsembleVerdict, createJudgeMessages, createVerdictSchema, getAnswerLabels } from './ensemble';
 
 // Types
 export interface OrchestratorConfig {
@@ -11,11 +22,23 @@ export interface OrchestratorConfig {
   };
   timeoutMs: number;
   fallbackBehavior: 'error' | 'retry' | 'alternative';
+  retry?: Partial<RetryPolicy>;
+  circuitBreaker?: Partial<CircuitBreakerPolicy>;
+  // Selectors from the asura-ai.taskSelectors setting; they take precedence over the built-in selectors
+  taskSelectors?: TaskSelectorConfig[];
   providers: {
     [provider: string]: ApiProviderConfig;
   };
 }
 
+export interface RetryPolicy {
+  // Attempts per model, including the first one
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+}
+
 export interface ModelConfig {
   provider: string;
   modelId: string;
@@ -26,19 +49,30 @@ export interface ModelConfig {
 }
 
 export interface AITask {
+  id?: string;
   type: string;
   query: string;
   context?: any;
   filePath?: string;
+  // VS Code language ID of the file, e.g. 'python'
+  language?: string;
   selection?: {
     start: any;
     end: any;
     text: string;
   };
+  // Screenshots, diagrams and other images the query refers to; only sent to models with IMAGE_UNDERSTANDING
+  images?: ImageAttachment[];
+  // Earlier turns of a conversation, oldest first; the oldest are dropped when the prompt doesn't fit a model
+  history?: ChatMessage[];
   options?: {
     temperature?: number;
     maxTokens?: number;
     stream?: boolean;
+    tools?: ToolDefinition[];
+    toolChoice?: ToolChoice;
+    // Asks for a JSON answer matching this schema; the parsed answer is returned in ApiResponse.json
+    responseSchema?: JsonSchema;
   };
 }
 
@@ -48,30 +82,87 @@ export interface TaskSelector {
   modelPriority: string[];
 }
 
+// A task selector defined in settings. A task matches when it meets every condition that is set.
+export interface TaskSelectorConfig {
+  name: string;
+  taskTypes?: string[];
+  // VS Code language IDs
+  languages?: string[];
+  // Glob matched against the workspace-relative file path; a pattern without a slash matches the file name
+  filePattern?: string;
+  minSelectionLines?: number;
+  maxSelectionLines?: number;
+  // Estimated prompt tokens, including the context
+  minTokens?: number;
+  maxTokens?: number;
+  modelPriority: string[];
+}
+
 export interface ProviderRegistry {
   [provider: string]: BaseApiProvider;
 }
 
+// Used when fallbackBehavior is 'retry' and the config leaves a setting out
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2
+};
+
+// Error types that may succeed when the same request is sent again
+const RETRYABLE_ERROR_TYPES = ['rate_limit', 'server_error', 'timeout'];
+
+// Error types that mean the provider itself is failing; they count against its circuit breaker
+const PROVIDER_FAILURE_ERROR_TYPES = ['server_error', 'timeout'];
+
+// Times a model is shown its schema violations and asked to correct its answer before the next model is tried
+const MAX_STRUCTURED_OUTPUT_REPAIRS = 2;
+
+// A context chunk cut shorter than this is more noise than help, so it is dropped instead
+const MIN_TRUNCATED_CHUNK_TOKENS = 64;
+
+// Default number of models, from different providers, an ensemble task runs
+const DEFAULT_ENSEMBLE_SIZE = 2;
+
+// Default number of model turns an agent task may take
+const DEFAULT_AGENT_MAX_STEPS = 10;
+
+// Replaces old tool results once an agent conversation outgrows the context window
+const REMOVED_TOOL_OUTPUT = '[Output removed to fit the context window. Call the tool again if you still need it.]';
+
+const AGENT_SYSTEM_PROMPT = 'You can call tools to read files, search the codebase, scan for security issues and run tests. ' +
+  'Use them to gather the information you need, one step at a time. When you have enough information, reply with your final answer without calling any tools.';
+
 // Main orchestrator class
 export class ModelOrchestrator {
   private providers: ProviderRegistry = {};
   private modelSelectors: TaskSelector[] = [];
-  private activeRequests: Map<string, { provider: BaseApiProvider; taskId: string }> = new Map();
+  private configuredSelectors: TaskSelector[] = [];
+  // One cancellation source per running task, so tasks can be cancelled independently
+  private activeTasks: Map<string, vscode.CancellationTokenSource> = new Map();
+  private agentTools: Map<string, AgentTool> = new Map();
+  private readonly health: ProviderHealthTracker;
   
   constructor(
-    private readonly config: OrchestratorConfig,
-    private readonly securityService: SecurityService
+    private config: OrchestratorConfig,
+    private readonly securityService: SecurityService,
+    private readonly usageService?: UsageService,
+    private readonly responseCache?: ResponseCacheService,
+    private readonly promptTemplates: PromptTemplateRegistry = new PromptTemplateRegistry()
   ) {
+    this.health = new ProviderHealthTracker({ ...DEFAULT_CIRCUIT_BREAKER_POLICY, ...config.circuitBreaker });
+    this.registerDefaultSelectors();
     this.initialize();
   }
   
   private async initialize(): Promise<void> {
     try {
       // Initialize providers
-      await this.initializeProviders();
+      this.providers = this.createProviders(this.config.providers);
       
-      // Register task selectors
-      this.registerDefaultSelectors();
+      // Register the task selectors from settings
+      this.setTaskSelectors(this.config.taskSelectors || []);
       
       console.log('Model orchestrator initialized');
     } catch (error) {
@@ -80,9 +171,16 @@ export class ModelOrchestrator {
     }
   }
   
-  private async initializeProviders(): Promise<void> {
+  /**
+   * Creates a provider for each enabled provider config
+   * @param providerConfigs The provider configs, keyed by provider name
+   * @returns The providers, keyed by provider name
+   */
+  protected createProviders(providerConfigs: OrchestratorConfig['providers']): ProviderRegistry {
+    const providers: ProviderRegistry = {};
+    
     // Initialize each provider
-    for (const [providerName, providerConfig] of Object.entries(this.config.providers)) {
+    for (const [providerName, providerConfig] of Object.entries(providerConfigs)) {
       try {
         if (!providerConfig.enabled) {
           console.log(`Provider ${providerName} is disabled, skipping initialization`);
@@ -99,13 +197,16 @@ export class ModelOrchestrator {
           case 'anthropic':
             provider = new AnthropicProvider(providerConfig, this.securityService);
             break;
+          case 'local':
+            provider = new LocalProvider(providerConfig, this.securityService);
+            break;
           default:
             console.warn(`Unknown provider type: ${providerName}, skipping`);
             continue;
         }
         
         // Add to registry
-        this.providers[providerName] = provider;
+        providers[providerName] = provider;
         
         console.log(`Provider ${providerName} initialized`);
       } catch (error) {
@@ -114,9 +215,11 @@ export class ModelOrchestrator {
     }
     
     // Check if we have at least one provider
-    if (Object.keys(this.providers).length === 0) {
+    if (Object.keys(providers).length === 0) {
       throw new Error('No API providers were successfully initialized');
     }
+    
+    return providers;
   }
   
   private registerDefaultSelectors() {
@@ -127,10 +230,10 @@ export class ModelOrchestrator {
       modelPriority: ['code-specialist', 'general-purpose', 'fallback']
     });
     
-    // Explanation tasks -> explanation-specialized model
+    // Explanation and review tasks -> explanation-specialized model
     this.modelSelectors.push({
       name: 'explanation',
-      predicate: (task) => task.type === 'explain' || task.type === 'document',
+      predicate: (task) => task.type === 'explain' || task.type === 'document' || task.type === 'review',
       modelPriority: ['explanation-specialist', 'general-purpose', 'fallback']
     });
     
@@ -148,6 +251,27 @@ export class ModelOrchestrator {
       modelPriority: ['code-specialist', 'general-purpose', 'fallback']
     });
     
+    // Bug and security fixes -> code-specialized model
+    this.modelSelectors.push({
+      name: 'fixing',
+      predicate: (task) => task.type === 'fix' || task.type === 'security-fix',
+      modelPriority: ['code-specialist', 'general-purpose', 'fallback']
+    });
+    
+    // Chat conversations -> long-context model
+    this.modelSelectors.push({
+      name: 'chat',
+      predicate: (task) => task.type === 'chat',
+      modelPriority: ['explanation-specialist', 'code-specialist', 'general-purpose', 'fallback']
+    });
+    
+    // Intent classification -> cheap model
+    this.modelSelectors.push({
+      name: 'intent-classification',
+      predicate: (task) => task.type === 'classify',
+      modelPriority: ['general-purpose', 'fallback']
+    });
+    
     // Default selector for any task
     this.modelSelectors.push({
       name: 'default',
@@ -156,6 +280,30 @@ export class ModelOrchestrator {
     });
   }
   
+  /**
+   * Applies a new configuration: providers are recreated with the new settings, and models, timeouts,
+   * fallback behavior, retry and circuit breaker policies and task selectors are replaced.
+   * Tasks already running finish with the models and providers they started with.
+   * @param config The new configuration
+   */
+  public async reconfigure(config: OrchestratorConfig): Promise<void> {
+    let providers: ProviderRegistry = {};
+    
+    try {
+      providers = this.createProviders(config.providers);
+      console.log('Model orchestrator reconfigured');
+    } catch (error) {
+      console.error('Failed to reconfigure model orchestrator:', error);
+      vscode.window.showErrorMessage(`Failed to reconfigure model orchestrator: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    // Swapped together, so no task sees the new models without their providers
+    this.config = config;
+    this.providers = providers;
+    this.health.setPolicy({ ...DEFAULT_CIRCUIT_BREAKER_POLICY, ...config.circuitBreaker });
+    this.setTaskSelectors(config.taskSelectors || []);
+  }
+  
   /**
    * Adds a custom task selector
    * @param selector The task selector to add
@@ -165,35 +313,84 @@ export class ModelOrchestrator {
     this.modelSelectors.unshift(selector);
   }
   
+  /**
+   * Replaces the selectors defined in settings. They are checked in order, before the selectors added in code.
+   * Selectors without a model priority list are ignored.
+   * @param configs The selector definitions
+   */
+  public setTaskSelectors(configs: TaskSelectorConfig[]): void {
+    this.configuredSelectors = [];
+    
+    for (const selectorConfig of configs) {
+      if (!selectorConfig.modelPriority || selectorConfig.modelPriority.length === 0) {
+        console.warn(`Ignoring task selector ${selectorConfig.name}: it has no model priority list`);
+        continue;
+      }
+      
+      const unknownModels = selectorConfig.modelPriority.filter(name => !this.config.models[name]);
+      
+      if (unknownModels.length > 0) {
+        console.warn(`Task selector ${selectorConfig.name} refers to unknown models: ${unknownModels.join(', ')}`);
+      }
+      
+      this.configuredSelectors.push({
+        name: selectorConfig.name,
+        predicate: (task) => this.matchesSelectorConfig(task, selectorConfig),
+        modelPriority: [...selectorConfig.modelPriority]
+      });
+    }
+  }
+  
+  /**
+   * Registers a tool that agent tasks may call
+   * @param tool The tool to register; replaces any tool with the same name
+   */
+  public registerAgentTool(tool: AgentTool): void {
+    this.agentTools.set(tool.definition.name, tool);
+  }
+  
   /**
    * Executes an AI task using the appropriate model
    * @param task The task to execute
    * @param streamCallback Optional callback for streaming responses
+   * @param cancellationToken Optional token that cancels the task, e.g. from a progress notification
    */
   public async executeTask(
     task: AITask,
-    streamCallback?: (chunk: string, done: boolean) => void
+    streamCallback?: (chunk: string, done: boolean) => void,
+    cancellationToken?: vscode.CancellationToken
   ): Promise<ApiResponse> {
-    // Generate a unique task ID
-    const taskId = `task_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    // Use the caller's task ID so the task can be cancelled, or generate a unique one
+    const taskId = task.id || this.generateTaskId();
+    const { token, dispose } = this.startTask(taskId, cancellationToken);
     
     try {
       // Find appropriate selector for this task
-      const selector = this.modelSelectors.find(s => s.predicate(task));
+      const selector = this.findSelector(task);
       
       if (!selector) {
         throw new Error(`No model selector available for task: ${task.type}`);
       }
       
+      // Settings may change while the task runs; it keeps the models and providers it started with
+      const config = this.config;
+      const providers = this.providers;
+      const modelPriority = this.applyBudget(selector.modelPriority);
+      const retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+      
+      // Providers that rejected our credentials; their other models would fail the same way
+      const rejectedProviders = new Set<string>();
+      let lastError: unknown;
+      
       // Try models in priority order
-      for (const modelName of selector.modelPriority) {
-        const modelConfig = this.config.models[modelName];
+      for (const modelName of modelPriority) {
+        const modelConfig = config.models[modelName];
         
-        if (!modelConfig || !modelConfig.enabled) {
+        if (!modelConfig || !modelConfig.enabled || rejectedProviders.has(modelConfig.provider)) {
           continue;
         }
         
-        const provider = this.providers[modelConfig.provider];
+        const provider = providers[modelConfig.provider];
         
         if (!provider) {
           console.warn(`Provider ${modelConfig.provider} not found for model ${modelName}`);
@@ -205,57 +402,362 @@ export class ModelOrchestrator {
           continue;
         }
         
-        try {
-          // Track active request
-          this.activeRequests.set(taskId, { provider, taskId });
-          
-          // Execute with model
-          const result = await this.executeWithModel(
-            provider,
-            modelConfig.modelId,
-            task,
-            streamCallback
-          );
-          
-          // Remove from active requests
-          this.activeRequests.delete(taskId);
+        if (!this.canReadTaskImages(task, provider, modelConfig.modelId)) {
+          lastError = new InvalidRequestError(`Model ${modelName} does not support image inputs`, 'unsupported_capability');
+          continue;
+        }
+        
+        // Fit the prompt into this model's context window, or move on to a model with a larger one
+        const messages = this.fitMessagesToContextWindow(task, modelConfig, task.options?.maxTokens || this.getMaxTokensForTask(task));
+        
+        if (!messages) {
+          console.warn(`Prompt for task ${task.type} does not fit in the context window of model ${modelName}`);
+          lastError = new InvalidRequestError(`Prompt does not fit in the ${modelConfig.contextWindow} token context window of ${modelName}`, 'context_length_exceeded');
+          continue;
+        }
+        
+        // Answer repeated deterministic requests from the cache
+        const cacheKey = this.getCacheKey(task, modelConfig, messages, !!streamCallback);
+        const cachedResponse = cacheKey ? this.responseCache?.get(cacheKey) : undefined;
+        
+        if (cachedResponse) {
+          console.log(`Answered task ${task.type} from the response cache (model ${modelName})`);
+          return cachedResponse;
+        }
+        
+        const maxAttempts = config.fallbackBehavior === 'retry' ? Math.max(1, retryPolicy.maxAttempts) : 1;
+        
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+          if (token.isCancellationRequested) {
+            throw new CancelledError();
+          }
           
-          return result;
-        } catch (error) {
-          console.warn(`Model ${modelName} failed for task ${task.type}:`, error);
+          // Skip a provider whose circuit is open instead of waiting for it to time out again
+          if (!this.health.tryAcquire(modelConfig.provider)) {
+            console.warn(`Skipping model ${modelName}: provider ${modelConfig.provider} is failing`);
+            lastError = lastError || new ServerError(`Provider ${modelConfig.provider} is temporarily skipped after repeated failures`, 'circuit_open');
+            break;
+          }
           
-          // Remove from active requests
-          this.activeRequests.delete(taskId);
+          // Chunks already shown to the user can't be taken back, so a partial stream is neither retried
+          // nor followed by another model's answer
+          let streamed = false;
+          const attemptCallback = streamCallback && ((chunk: string, done: boolean) => {
+            streamed = true;
+            streamCallback(chunk, done);
+          });
           
-          // Continue to next model in priority list
-          if (this.config.fallbackBehavior === 'alternative') {
-            continue;
-          } else if (this.config.fallbackBehavior === 'error') {
-            throw error;
+          try {
+            // Execute with model
+            const result = await this.runModel(taskId, modelName, modelConfig, provider, messages, task, attemptCallback, token);
+            
+            if (cacheKey) {
+              this.responseCache?.set(cacheKey, result);
+            }
+            
+            return result;
+          } catch (error) {
+            console.warn(`Model ${modelName} failed for task ${task.type} (attempt ${attempt}/${maxAttempts}):`, error);
+            
+            // A cancelled task must not fall through to the next model
+            if (isProviderError(error, 'cancelled')) {
+              throw error;
+            } else if (token.isCancellationRequested) {
+              throw new CancelledError();
+            }
+            
+            if (isProviderError(error, 'authentication')) {
+              rejectedProviders.add(modelConfig.provider);
+            }
+            
+            lastError = error;
+            
+            if (config.fallbackBehavior === 'error' || streamed) {
+              throw error;
+            }
+            
+            const delayMs = attempt < maxAttempts ? this.getRetryDelay(error, attempt, retryPolicy) : undefined;
+            
+            if (delayMs === undefined) {
+              // Continue to next model in priority list
+              break;
+            }
+            
+            console.log(`Retrying model ${modelName} for task ${task.type} in ${delayMs}ms`);
+            
+            await this.delay(delayMs, token);
           }
-          // For 'retry', we'll just continue to the next model
         }
       }
       
+      if (lastError instanceof ProviderError) {
+        throw new ProviderError(`All models failed for task: ${task.type}. Last error: ${lastError.message}`, lastError.code, lastError.type, { retryAfter: lastError.retryAfter, status: lastError.status });
+      }
+      
       throw new Error(`All models failed for task: ${task.type}`);
+    } finally {
+      dispose();
+    }
+  }
+  
+  /**
+   * Executes an AI task on several models from different providers in parallel, then has a judge model
+   * score the answers and either return the best one or merge them, listing where they disagree.
+   * Models come from the task selector's priority list first, topped up with other enabled models by priority.
+   * @param task The task to execute; set task.id to be able to cancel it with cancelRequest
+   * @param options Ensemble size, strategy and judge model
+   */
+  public async executeEnsembleTask(task: AITask, options: EnsembleOptions = {}): Promise<EnsembleResult> {
+    const taskId = task.id || this.generateTaskId();
+    const strategy = options.strategy || 'best';
+    const { token, dispose } = this.startTask(taskId, options.cancellationToken);
+    
+    try {
+      const selector = this.findSelector(task);
+      
+      if (!selector) {
+        throw new Error(`No model selector available for task: ${task.type}`);
+      }
+      
+      const candidates = this.applyBudget(selector.modelPriority);
+      const members = this.selectEnsembleModels(task, candidates, Math.max(2, options.size || DEFAULT_ENSEMBLE_SIZE));
+      
+      if (members.length < 2) {
+        // Give back the half-open probes claimed for the members that won't run
+        for (const member of members) {
+          this.health.releaseProbe(this.config.models[member.modelName].provider);
+        }
+        
+        throw new InvalidRequestError(`Ensemble mode needs configured models from at least two providers, found ${members.length}`, 'ensemble_unavailable');
+      }
+      
+      console.log(`Running task ${task.type} on ensemble: ${members.map(member => member.modelName).join(', ')}`);
+      
+      const results = await Promise.all(members.map(member => this.runEnsembleMember(taskId, task, member.modelName, member.provider, member.messages, token)));
+      
+      if (token.isCancellationRequested) {
+        throw new CancelledError();
+      }
+      
+      const answered = results.filter(result => result.content !== undefined);
+      
+      if (answered.length === 0) {
+        throw new ProviderError(`All ensemble models failed for task: ${task.type}. ${results.map(result => `${result.model}: ${result.error}`).join('; ')}`, 'ensemble_failed', 'unknown');
+      }
+      
+      const judgeModel = options.judgeModel || members[0].modelName;
+      const judgement = answered.length > 1 ? await this.judgeEnsemble(taskId, task, answered, strategy, judgeModel, selector.modelPriority, token) : undefined;
+      
+      // Apply the judge's scores; without a verdict the highest-priority answer wins
+      if (judgement) {
+        const labels = getAnswerLabels(answered.length);
+        
+        for (const entry of judgement.verdict.scores) {
+          const member = answered[labels.indexOf(entry.answer)];
+          
+          if (member) {
+            member.score = entry.score;
+            member.reason = entry.reason;
+          }
+        }
+      }
+      
+      const best = answered.reduce((top, member) => (member.score ?? -1) > (top.score ?? -1) ? member : top);
+      const disagreements = judgement?.verdict.disagreements || [];
+      const merged = strategy === 'merge' ? judgement?.verdict.merged : undefined;
+      
+      const content = merged
+        ? merged + (disagreements.length > 0 ? `\n\n## Disagreements\n\n${disagreements.map(point => `- ${point}`).join('\n')}` : '')
+        : best.content || '';
+      
+      const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      
+      for (const part of [...results.map(result => result.usage), ...(judgement ? [judgement.usage] : [])]) {
+        usage.promptTokens += part.promptTokens;
+        usage.completionTokens += part.completionTokens;
+        usage.totalTokens += part.totalTokens;
+      }
+      
+      return {
+        taskId,
+        content,
+        strategy,
+        selectedModel: merged ? undefined : best.model,
+        members: results,
+        disagreements,
+        judge: judgement ? { model: judgeModel, usage: judgement.usage, cost: judgement.cost } : undefined,
+        usage,
+        cost: results.reduce((total, result) => total + result.cost, judgement?.cost || 0)
+      };
+    } finally {
+      dispose();
+    }
+  }
+  
+  /**
+   * Executes an AI task as an agent: the model works in a loop of turns, calling the registered
+   * tools and reading their results, until it answers or the step budget runs out.
+   * Every model turn and tool invocation is recorded in the returned transcript.
+   * @param task The task to execute; set task.id to be able to cancel it with cancelRequest
+   * @param options Step budget, tool set and an optional listener for each step
+   */
+  public async executeAgentTask(task: AITask, options: AgentOptions = {}): Promise<AgentResult> {
+    const taskId = task.id || this.generateTaskId();
+    const maxSteps = options.maxSteps || DEFAULT_AGENT_MAX_STEPS;
+    const tools = options.tools || Array.from(this.agentTools.values());
+    const toolsByName = new Map(tools.map(tool => [tool.definition.name, tool]));
+    const steps: AgentStep[] = [];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    
+    const recordStep = (step: Omit<AgentStep, 'index' | 'timestamp'>) => {
+      const fullStep: AgentStep = { ...step, index: steps.length, timestamp: new Date() };
+      steps.push(fullStep);
+      options.onStep?.(fullStep);
+    };
+    
+    const selector = this.findSelector(task);
+    const modelPriority = selector ? selector.modelPriority : [];
+    const target = this.resolveAgentModel(task, this.applyBudget(modelPriority));
+    
+    if (!target) {
+      throw new Error(`No model with function calling${task.images && task.images.length > 0 ? ' and image support' : ''} is available for task: ${task.type}`);
+    }
+    
+    // Build the conversation, extending the task's system prompt with the agent instructions
+    const modelConfig = this.config.models[target.modelName];
+    const maxTokens = task.options?.maxTokens || this.getMaxTokensForTask(task);
+    const reservedTokens = maxTokens + getTokenizer(modelConfig.modelId).countTokens(AGENT_SYSTEM_PROMPT);
+    const messages = this.fitMessagesToContextWindow(task, modelConfig, reservedTokens);
+    
+    if (!messages) {
+      this.health.releaseProbe(modelConfig.provider);
+      throw new InvalidRequestError(`Prompt does not fit in the ${modelConfig.contextWindow} token context window of ${target.modelName}`, 'context_length_exceeded');
+    }
+    
+    messages[0].content += ' ' + AGENT_SYSTEM_PROMPT;
+    
+    // Choosing the model claimed its provider's half-open probe, if it had one; the first turn sends it
+    let holdsProbe = true;
+    let content = '';
+    let stopReason: AgentResult['stopReason'] = 'max_steps';
+    let errorMessage: string | undefined;
+    
+    const { token, dispose } = this.startTask(taskId, options.cancellationToken);
+    
+    try {
+      for (let turn = 0; turn < maxSteps; turn++) {
+        if (token.isCancellationRequested) {
+          stopReason = 'cancelled';
+          break;
+        }
+        
+        // A long run can use up the budget; stop once it no longer allows the model in use
+        const budgetStatus = this.usageService?.getBudgetStatus();
+        
+        if (turn > 0 && budgetStatus?.exceeded && !this.applyBudget(modelPriority).includes(target.modelName)) {
+          throw new BudgetExceededError(budgetStatus);
+        }
+        
+        // Tool results pile up over the turns, so the conversation is measured again before each one
+        if (!this.fitAgentMessages(messages, modelConfig, maxTokens)) {
+          throw new InvalidRequestError(`Agent conversation does not fit in the ${modelConfig.contextWindow} token context window of ${target.modelName}`, 'context_length_exceeded');
+        }
+        
+        // Later turns are let through like any other request, so a provider that started failing is left alone
+        if (!holdsProbe && !this.health.tryAcquire(modelConfig.provider)) {
+          throw new ServerError(`Provider ${modelConfig.provider} is temporarily skipped after repeated failures`, 'circuit_open');
+        }
+        
+        holdsProbe = false;
+        
+        // Model turn
+        const response = await this.trackHealth(modelConfig.provider, () => this.withTimeout(token, requestToken =>
+          target.provider.chat(messages, {
+            model: target.modelId,
+            maxTokens,
+            temperature: task.options?.temperature ?? this.getTemperatureForTask(task),
+            tools: tools.map(tool => tool.definition),
+            toolChoice: 'auto',
+            cancellationToken: requestToken
+          })
+        ));
+        
+        this.recordUsage(taskId, task, target.modelName, modelConfig, target.provider, response);
+        
+        usage.promptTokens += response.usage.promptTokens;
+        usage.completionTokens += response.usage.completionTokens;
+        usage.totalTokens += response.usage.totalTokens;
+        content = response.content;
+        
+        recordStep({ type: 'model', content: response.content, toolCalls: response.toolCalls, usage: response.usage });
+        
+        if (!response.toolCalls || response.toolCalls.length === 0) {
+          stopReason = 'completed';
+          break;
+        }
+        
+        messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+        
+        // Tool invocations; failures are reported back to the model so it can recover
+        for (const call of response.toolCalls) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          
+          const tool = toolsByName.get(call.name);
+          let result: string;
+          let toolError: string | undefined;
+          
+          try {
+            if (!tool) {
+              throw new Error(`Unknown tool: ${call.name}`);
+            }
+            
+            result = await tool.execute(call.arguments);
+          } catch (error) {
+            toolError = error instanceof Error ? error.message : String(error);
+            result = `Error: ${toolError}`;
+          }
+          
+          recordStep({ type: 'tool', toolCallId: call.id, toolName: call.name, arguments: call.arguments, result, error: toolError });
+          messages.push({ role: 'tool', toolCallId: call.id, name: call.name, content: result });
+        }
+      }
     } catch (error) {
-      // Clean up any active request
-      this.activeRequests.delete(taskId);
+      if (token.isCancellationRequested) {
+        stopReason = 'cancelled';
+      } else {
+        stopReason = 'error';
+        errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`Agent task ${taskId} failed:`, error);
+      }
+    } finally {
+      // A run that ended before its first request gives the probe back
+      if (holdsProbe) {
+        this.health.releaseProbe(modelConfig.provider);
+      }
       
-      // Re-throw the error
-      throw error;
+      dispose();
     }
+    
+    return {
+      taskId,
+      model: target.modelName,
+      content,
+      stopReason,
+      steps,
+      usage,
+      error: errorMessage
+    };
   }
   
   /**
    * Cancels all active requests
    */
   public cancelAllRequests(): void {
-    for (const { provider } of this.activeRequests.values()) {
-      provider.cancelRequest();
+    for (const source of this.activeTasks.values()) {
+      source.cancel();
     }
-    
-    this.activeRequests.clear();
   }
   
   /**
@@ -263,48 +765,618 @@ export class ModelOrchestrator {
    * @param taskId The ID of the task to cancel
    */
   public cancelRequest(taskId: string): void {
-    const request = this.activeRequests.get(taskId);
+    this.activeTasks.get(taskId)?.cancel();
+  }
+  
+  private generateTaskId(): string {
+    return `task_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+  
+  /**
+   * Applies the usage budget to a model priority list.
+   * Once a budget is used up the task is refused, or limited to models cheaper than the preferred one, cheapest first.
+   * @param modelPriority The selector's model priority list
+   */
+  private applyBudget(modelPriority: string[]): string[] {
+    const status = this.usageService?.getBudgetStatus();
+    
+    if (!this.usageService || !status || !status.exceeded) {
+      return modelPriority;
+    }
     
-    if (request) {
-      request.provider.cancelRequest();
-      this.activeRequests.delete(taskId);
+    if (this.usageService.getBudgetAction() === 'refuse') {
+      throw new BudgetExceededError(status);
     }
+    
+    const preferredModel = modelPriority.find(name => this.config.models[name]?.enabled && this.providers[this.config.models[name].provider]);
+    const preferredCost = preferredModel ? this.getModelCost(preferredModel) : undefined;
+    
+    const cheaperModels = modelPriority
+      .filter(name => {
+        const cost = this.getModelCost(name);
+        return cost !== undefined && (preferredCost === undefined || cost < preferredCost);
+      })
+      .sort((a, b) => (this.getModelCost(a) || 0) - (this.getModelCost(b) || 0));
+    
+    if (cheaperModels.length === 0) {
+      throw new BudgetExceededError(status);
+    }
+    
+    console.log(`Budget exceeded, downgrading to: ${cheaperModels.join(', ')}`);
+    
+    return cheaperModels;
+  }
+  
+  /**
+   * Checks a model that isn't picked from the priority list, such as an ensemble judge, against the usage budget.
+   * Once the budget is used up it may cost no more than the models the downgrade allows.
+   * @param modelName The model
+   * @param modelPriority The selector's model priority list
+   */
+  private isWithinBudget(modelName: string, modelPriority: string[]): boolean {
+    if (!this.usageService?.getBudgetStatus().exceeded) {
+      return true;
+    }
+    
+    let allowedModels: string[];
+    
+    try {
+      allowedModels = this.applyBudget(modelPriority);
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        return false;
+      }
+      
+      throw error;
+    }
+    
+    const cost = this.getModelCost(modelName);
+    
+    return cost !== undefined && cost <= Math.max(...allowedModels.map(name => this.getModelCost(name) || 0));
+  }
+  
+  // Combined input and output price per 1K tokens, or undefined if the provider doesn't know the model
+  private getModelCost(modelName: string): number | undefined {
+    const modelConfig = this.config.models[modelName];
+    const providerModel = modelConfig ? this.providers[modelConfig.provider]?.getModel(modelConfig.modelId) : undefined;
+    
+    return providerModel ? providerModel.costPer1KTokens.input + providerModel.costPer1KTokens.output : undefined;
+  }
+  
+  private recordUsage(taskId: string, task: AITask, modelName: string, modelConfig: ModelConfig, provider: BaseApiProvider, response: ApiResponse): void {
+    this.usageService?.record({
+      taskId,
+      taskType: task.type,
+      model: modelName,
+      provider: modelConfig.provider,
+      modelId: modelConfig.modelId,
+      promptTokens: response.usage.promptTokens,
+      completionTokens: response.usage.completionTokens,
+      totalTokens: response.usage.totalTokens,
+      cost: provider.calculateCost(modelConfig.modelId, response.usage.promptTokens, response.usage.completionTokens)
+    });
+  }
+  
+  /**
+   * Gets the response cache key of a task's request to a model
+   * @returns The key, or undefined if the request must not be cached
+   */
+  private getCacheKey(task: AITask, modelConfig: ModelConfig, messages: ChatMessage[], streaming: boolean): string | undefined {
+    const temperature = task.options?.temperature ?? this.getTemperatureForTask(task);
+    
+    if (!this.responseCache || !this.responseCache.isCacheable(temperature, streaming || !!task.options?.stream)) {
+      return undefined;
+    }
+    
+    return this.responseCache.getKey({
+      provider: modelConfig.provider,
+      modelId: modelConfig.modelId,
+      temperature,
+      maxTokens: task.options?.maxTokens || this.getMaxTokensForTask(task),
+      messages,
+      tools: task.options?.tools,
+      toolChoice: task.options?.toolChoice,
+      responseSchema: task.options?.responseSchema
+    });
+  }
+  
+  /**
+   * Registers a running task under its own cancellation source, linked to the caller's token if given
+   * @returns The task's cancellation token, and a function that unregisters the task when it finishes
+   */
+  private startTask(taskId: string, cancellationToken?: vscode.CancellationToken): { token: vscode.CancellationToken; dispose: () => void } {
+    const source = new vscode.CancellationTokenSource();
+    const listener = cancellationToken?.onCancellationRequested(() => source.cancel());
+    
+    if (cancellationToken?.isCancellationRequested) {
+      source.cancel();
+    }
+    
+    this.activeTasks.set(taskId, source);
+    
+    return {
+      token: source.token,
+      dispose: () => {
+        listener?.dispose();
+        
+        if (this.activeTasks.get(taskId) === source) {
+          this.activeTasks.delete(taskId);
+        }
+        
+        source.dispose();
+      }
+    };
+  }
+  
+  /**
+   * Runs one provider request under its own cancellation source, linked to the caller's token.
+   * If the request takes longer than timeoutMs it is cancelled, so it stops and gives back its
+   * rate limit capacity before a retry or the next model starts, and a TimeoutError is thrown.
+   * Streaming requests call resetTimeout for each chunk, which makes timeoutMs an idle timeout:
+   * a long answer may keep streaming as long as it doesn't stall.
+   * @param cancellationToken The caller's token
+   * @param request Sends the request with the given token
+   */
+  private async withTimeout<T>(
+    cancellationToken: vscode.CancellationToken | undefined,
+    request: (token: vscode.CancellationToken, resetTimeout: () => void) => Promise<T>
+  ): Promise<T> {
+    const source = new vscode.CancellationTokenSource();
+    const listener = cancellationToken?.onCancellationRequested(() => source.cancel());
+    
+    if (cancellationToken?.isCancellationRequested) {
+      source.cancel();
+    }
+    
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+    let rejectTimeout: (error: Error) => void = () => undefined;
+    
+    const timeout = new Promise<never>((_, reject) => {
+      rejectTimeout = reject;
+    });
+    
+    const resetTimeout = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        source.cancel();
+        rejectTimeout(new TimeoutError('Model timeout'));
+      }, this.config.timeoutMs);
+    };
+    
+    resetTimeout();
+    const pending = request(source.token, resetTimeout);
+    // The cancelled request still rejects after the timeout has won the race
+    pending.catch(() => undefined);
+    
+    try {
+      return await Promise.race([pending, timeout]);
+    } catch (error) {
+      throw timedOut ? new TimeoutError('Model timeout') : error;
+    } finally {
+      clearTimeout(timer);
+      listener?.dispose();
+      source.dispose();
+    }
+  }
+  
+  /**
+   * Waits for the given time, returning early if the token is cancelled
+   */
+  private delay(ms: number, token: vscode.CancellationToken): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        listener.dispose();
+        resolve();
+      }, ms);
+      const listener = token.onCancellationRequested(() => {
+        clearTimeout(timer);
+        listener.dispose();
+        resolve();
+      });
+    });
+  }
+  
+  /**
+   * Works out how long to wait before sending a failed request to the same model again
+   * @returns The delay in milliseconds, or undefined if the error should not be retried on this model
+   */
+  private getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number | undefined {
+    if (!(error instanceof ProviderError) || !RETRYABLE_ERROR_TYPES.includes(error.type)) {
+      return undefined;
+    }
+    
+    // Honor the provider's own wait time; if it is longer than we are willing to wait, try another model instead
+    if (error.retryAfter !== undefined) {
+      const retryAfterMs = error.retryAfter * 1000;
+      return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : undefined;
+    }
+    
+    return Math.min(policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1), policy.maxDelayMs);
+  }
+  
+  private findSelector(task: AITask): TaskSelector | undefined {
+    return [...this.configuredSelectors, ...this.modelSelectors].find(s => s.predicate(task));
+  }
+  
+  private matchesSelectorConfig(task: AITask, selectorConfig: TaskSelectorConfig): boolean {
+    if (selectorConfig.taskTypes && !selectorConfig.taskTypes.includes(task.type)) {
+      return false;
+    }
+    
+    if (selectorConfig.languages && !(task.language && selectorConfig.languages.includes(task.language))) {
+      return false;
+    }
+    
+    if (selectorConfig.filePattern) {
+      const relativePath = task.filePath ? vscode.workspace.asRelativePath(task.filePath, false).replace(/\\/g, '/') : undefined;
+      
+      if (!relativePath || !minimatch(relativePath, selectorConfig.filePattern, { dot: true, matchBase: true, nocase: true })) {
+        return false;
+      }
+    }
+    
+    if (selectorConfig.minSelectionLines !== undefined || selectorConfig.maxSelectionLines !== undefined) {
+      const selectionLines = task.selection?.text ? task.selection.text.split('\n').length : 0;
+      
+      if (selectionLines < (selectorConfig.minSelectionLines ?? 0) || selectionLines > (selectorConfig.maxSelectionLines ?? Infinity)) {
+        return false;
+      }
+    }
+    
+    if (selectorConfig.minTokens !== undefined || selectorConfig.maxTokens !== undefined) {
+      // Counted with the default tokenizer, since the model isn't chosen yet
+      const tokens = countMessageTokens(this.formatMessagesForTask(task), getTokenizer());
+      
+      if (tokens < (selectorConfig.minTokens ?? 0) || tokens > (selectorConfig.maxTokens ?? Infinity)) {
+        return false;
+      }
+    }
+    
+    return true;
+  }
+  
+  private resolveAgentModel(task: AITask, modelPriority: string[]): { modelName: string; modelId: string; provider: BaseApiProvider } | undefined {
+    // Agent tasks need a model that can call tools
+    for (const modelName of modelPriority) {
+      const modelConfig = this.config.models[modelName];
+      const provider = modelConfig && modelConfig.enabled ? this.providers[modelConfig.provider] : undefined;
+      
+      if (!provider || !provider.isConfigured()) {
+        continue;
+      }
+      
+      const providerModel = provider.getModel(modelConfig.modelId);
+      
+      // Checked last, since it claims the probe request of a half-open circuit
+      if (providerModel && providerModel.capabilities.includes(ModelCapability.FUNCTION_CALLING) && this.canReadTaskImages(task, provider, modelConfig.modelId) &&
+        this.health.tryAcquire(modelConfig.provider)) {
+        return { modelName, modelId: modelConfig.modelId, provider };
+      }
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * Runs a task's request on one model and records its usage
+   */
+  private async runModel(
+    taskId: string,
+    modelName: string,
+    modelConfig: ModelConfig,
+    provider: BaseApiProvider,
+    messages: ChatMessage[],
+    task: AITask,
+    streamCallback?: (chunk: string, done: boolean) => void,
+    cancellationToken?: vscode.CancellationToken
+  ): Promise<ApiResponse> {
+    return this.trackHealth(modelConfig.provider, async () => {
+      // Structured output tasks record the usage of each repair round themselves
+      if (task.options?.responseSchema) {
+        return this.executeStructured(taskId, modelName, modelConfig, provider, messages, task, streamCallback, cancellationToken);
+      }
+      
+      const result = await this.executeWithModel(provider, modelConfig.modelId, messages, task, streamCallback, cancellationToken);
+      
+      this.recordUsage(taskId, task, modelName, modelConfig, provider, result);
+      
+      return result;
+    });
+  }
+  
+  /**
+   * Runs a request to a provider and records its outcome and latency in the provider's health
+   * @param providerName The provider name
+   * @param request The request
+   */
+  private async trackHealth<T>(providerName: string, request: () => Promise<T>): Promise<T> {
+    const startTime = Date.now();
+    
+    try {
+      const result = await request();
+      this.health.recordSuccess(providerName, Date.now() - startTime);
+      return result;
+    } catch (error) {
+      if (isProviderError(error) && PROVIDER_FAILURE_ERROR_TYPES.includes(error.type)) {
+        this.health.recordFailure(providerName, Date.now() - startTime, error.message);
+      } else if (isProviderError(error, 'cancelled')) {
+        this.health.releaseProbe(providerName);
+      } else {
+        // The provider answered, even if it rejected the request
+        this.health.recordSuccess(providerName, Date.now() - startTime);
+      }
+      
+      throw error;
+    }
+  }
+  
+  /**
+   * Picks the models of an ensemble: one per provider, from the priority list first and then from the other enabled models
+   * @param task The task
+   * @param modelPriority The selector's model priority list, after the budget is applied
+   * @param size The number of models wanted
+   */
+  private selectEnsembleModels(task: AITask, modelPriority: string[], size: number): { modelName: string; provider: BaseApiProvider; messages: ChatMessage[] }[] {
+    // Once the budget is used up, other models may not cost more than the downgraded priority list
+    const costLimit = this.usageService?.getBudgetStatus().exceeded ? Math.max(...modelPriority.map(name => this.getModelCost(name) || 0)) : undefined;
+    const otherModels = Object.keys(this.config.models)
+      .filter(name => !modelPriority.includes(name) && (costLimit === undefined || (this.getModelCost(name) ?? Infinity) <= costLimit))
+      .sort((a, b) => this.config.models[b].priority - this.config.models[a].priority);
+    const usedProviders = new Set<string>();
+    const members: { modelName: string; provider: BaseApiProvider; messages: ChatMessage[] }[] = [];
+    
+    for (const modelName of [...modelPriority, ...otherModels]) {
+      const modelConfig = this.config.models[modelName];
+      
+      if (members.length >= size) {
+        break;
+      }
+      
+      if (!modelConfig || !modelConfig.enabled || usedProviders.has(modelConfig.provider)) {
+        continue;
+      }
+      
+      const provider = this.providers[modelConfig.provider];
+      
+      if (!provider || !provider.isConfigured() || !this.canReadTaskImages(task, provider, modelConfig.modelId)) {
+        continue;
+      }
+      
+      const messages = this.fitMessagesToContextWindow(task, modelConfig, task.options?.maxTokens || this.getMaxTokensForTask(task));
+      
+      // Checked last, since it claims the probe request of a half-open circuit
+      if (messages && this.health.tryAcquire(modelConfig.provider)) {
+        usedProviders.add(modelConfig.provider);
+        members.push({ modelName, provider, messages });
+      }
+    }
+    
+    return members;
+  }
+  
+  // Runs one ensemble member; failures are reported in the result so the other members' answers still count
+  private async runEnsembleMember(
+    taskId: string,
+    task: AITask,
+    modelName: string,
+    provider: BaseApiProvider,
+    messages: ChatMessage[],
+    token: vscode.CancellationToken
+  ): Promise<EnsembleMemberResult> {
+    const modelConfig = this.config.models[modelName];
+    const startTime = Date.now();
+    const member: EnsembleMemberResult = {
+      model: modelName,
+      provider: modelConfig.provider,
+      modelId: modelConfig.modelId,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      cost: 0,
+      durationMs: 0
+    };
+    
+    try {
+      const result = await this.runModel(taskId, modelName, modelConfig, provider, messages, task, undefined, token);
+      
+      member.content = result.content;
+      member.usage = result.usage;
+      member.cost = provider.calculateCost(modelConfig.modelId, result.usage.promptTokens, result.usage.completionTokens);
+    } catch (error) {
+      console.warn(`Ensemble model ${modelName} failed for task ${task.type}:`, error);
+      member.error = error instanceof Error ? error.message : String(error);
+    }
+    
+    member.durationMs = Date.now() - startTime;
+    
+    return member;
+  }
+  
+  /**
+   * Has the judge model score the ensemble's answers, and merge them if asked to
+   * @returns The verdict, or undefined if the judge is unavailable or fails; the ensemble then falls back to priority order
+   */
+  private async judgeEnsemble(
+    taskId: string,
+    task: AITask,
+    answers: EnsembleMemberResult[],
+    strategy: 'best' | 'merge',
+    judgeModel: string,
+    modelPriority: string[],
+    token: vscode.CancellationToken
+  ): Promise<{ verdict: EnsembleVerdict; usage: ApiResponse['usage']; cost: number } | undefined> {
+    const modelConfig = this.config.models[judgeModel];
+    const provider = modelConfig && modelConfig.enabled ? this.providers[modelConfig.provider] : undefined;
+    
+    if (!provider || !provider.isConfigured()) {
+      console.warn(`Ensemble judge ${judgeModel} is not available`);
+      return undefined;
+    }
+    
+    // The members' answers may have used up the budget
+    if (!this.isWithinBudget(judgeModel, modelPriority)) {
+      console.warn(`Budget exceeded, skipping ensemble judge ${judgeModel}`);
+      return undefined;
+    }
+    
+    const labels = getAnswerLabels(answers.length);
+    const schema = createVerdictSchema(labels, strategy);
+    const messages = createJudgeMessages(task.query, answers.map((answer, index) => ({ label: labels[index], content: answer.content || '' })), schema, strategy);
+    const judgeTask: AITask = {
+      type: 'ensemble-judge',
+      query: task.query,
+      options: {
+        temperature: 0,
+        maxTokens: task.options?.maxTokens || this.getMaxTokensForTask(task),
+        responseSchema: schema
+      }
+    };
+    
+    if (countMessageTokens(messages, getTokenizer(modelConfig.modelId)) + (judgeTask.options?.maxTokens || 0) > modelConfig.contextWindow) {
+      console.warn(`Ensemble answers do not fit in the context window of judge ${judgeModel}`);
+      return undefined;
+    }
+    
+    // Checked last, since it claims the probe request of a half-open circuit
+    if (!this.health.tryAcquire(modelConfig.provider)) {
+      console.warn(`Ensemble judge ${judgeModel} is not available: its provider is failing`);
+      return undefined;
+    }
+    
+    try {
+      const response = await this.runModel(taskId, judgeModel, modelConfig, provider, messages, judgeTask, undefined, token);
+      
+      return {
+        verdict: response.json as EnsembleVerdict,
+        usage: response.usage,
+        cost: provider.calculateCost(modelConfig.modelId, response.usage.promptTokens, response.usage.completionTokens)
+      };
+    } catch (error) {
+      if (isProviderError(error, 'cancelled') || token.isCancellationRequested) {
+        throw new CancelledError();
+      }
+      
+      console.warn(`Ensemble judge ${judgeModel} failed:`, error);
+      return undefined;
+    }
+  }
+  
+  // Tasks with images can only go to models that can read them
+  private canReadTaskImages(task: AITask, provider: BaseApiProvider, modelId: string): boolean {
+    if (!task.images || task.images.length === 0) {
+      return true;
+    }
+    
+    return !!provider.getModel(modelId)?.capabilities.includes(ModelCapability.IMAGE_UNDERSTANDING);
   }
   
   private async executeWithModel(
     provider: BaseApiProvider,
     modelId: string,
+    messages: ChatMessage[],
     task: AITask,
-    streamCallback?: (chunk: string, done: boolean) => void
+    streamCallback?: (chunk: string, done: boolean) => void,
+    cancellationToken?: vscode.CancellationToken
   ): Promise<ApiResponse> {
     // Prepare request options
     const options: ApiRequestOptions = {
       model: modelId,
       maxTokens: task.options?.maxTokens || this.getMaxTokensForTask(task),
-      temperature: task.options?.temperature || this.getTemperatureForTask(task),
-      stream: !!streamCallback
+      temperature: task.options?.temperature ?? this.getTemperatureForTask(task),
+      stream: false,
+      tools: task.options?.tools,
+      toolChoice: task.options?.toolChoice,
+      responseSchema: task.options?.responseSchema
     };
     
-    // Format messages based on task
-    const messages = this.formatMessagesForTask(task);
-    
-    // Execute request with timeout
-    if (streamCallback) {
+    // Execute request with timeout.
+    // Tool calls and native JSON modes are only available in non-streaming chat, so those tasks never stream.
+    if (streamCallback && !(options.tools && options.tools.length > 0) && !options.responseSchema) {
       // Streaming request
-      return await Promise.race([
-        provider.streamingChat(messages, options, streamCallback),
-        new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error('Model timeout')), this.config.timeoutMs)
-        )
-      ]);
+      return await this.withTimeout(cancellationToken, (requestToken, resetTimeout) =>
+        provider.streamingChat(messages, { ...options, stream: true, cancellationToken: requestToken }, (chunk, done) => {
+          // A stream that timed out or was cancelled may still deliver chunks; they must not reach the caller
+          if (requestToken.isCancellationRequested) {
+            return;
+          }
+          
+          resetTimeout();
+          streamCallback(chunk, done);
+        })
+      );
     } else {
       // Non-streaming request
-      return await Promise.race([
-        provider.chat(messages, options),
-        new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error('Model timeout')), this.config.timeoutMs)
-        )
-      ]);
+      const response = await this.withTimeout(cancellationToken, requestToken =>
+        provider.chat(messages, { ...options, cancellationToken: requestToken })
+      );
+      
+      // Deliver the full answer to a stream callback that couldn't be streamed to
+      if (streamCallback) {
+        streamCallback(response.content, false);
+        streamCallback('', true);
+      }
+      
+      return response;
+    }
+  }
+  
+  /**
+   * Executes a structured output task with one model. Answers that aren't valid JSON for the task's schema
+   * are sent back to the model with the validation errors, up to MAX_STRUCTURED_OUTPUT_REPAIRS times.
+   * @returns The last response, with the parsed answer in json and the usage of every round added up
+   */
+  private async executeStructured(
+    taskId: string,
+    modelName: string,
+    modelConfig: ModelConfig,
+    provider: BaseApiProvider,
+    messages: ChatMessage[],
+    task: AITask,
+    streamCallback?: (chunk: string, done: boolean) => void,
+    cancellationToken?: vscode.CancellationToken
+  ): Promise<ApiResponse> {
+    const schema = task.options?.responseSchema || {};
+    const modelId = modelConfig.modelId;
+    const conversation = [...messages];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    
+    for (let round = 0; ; round++) {
+      const response = await this.executeWithModel(provider, modelId, conversation, task, undefined, cancellationToken);
+      
+      this.recordUsage(taskId, task, modelName, modelConfig, provider, response);
+      
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+      
+      const parsed = parseJsonContent(response.content);
+      const errors = parsed.error ? [parsed.error] : validateJsonSchema(parsed.value, schema);
+      
+      if (errors.length === 0) {
+        const content = JSON.stringify(parsed.value, null, 2);
+        
+        // Only the valid answer reaches the caller's stream
+        if (streamCallback) {
+          streamCallback(content, false);
+          streamCallback('', true);
+        }
+        
+        return { ...response, content, json: parsed.value, usage };
+      }
+      
+      if (round >= MAX_STRUCTURED_OUTPUT_REPAIRS) {
+        throw new StructuredOutputError(`Model ${modelName} did not return JSON matching the response schema: ${errors.join('; ')}`, errors, response.content);
+      }
+      
+      console.warn(`Model ${modelName} returned invalid structured output for task ${task.type}, asking for a correction:`, errors);
+      
+      conversation.push(
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `Your answer does not match the required JSON schema:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReply again with only the corrected JSON.`
+        }
+      );
     }
   }
   
@@ -319,6 +1391,9 @@ export class ModelOrchestrator {
         return 0.3; // More factual
       case 'refactor':
       case 'test':
+      case 'fix':
+      case 'security-fix':
+      case 'review':
         return 0.2; // More precise
       default:
         return 0.5; // Balanced
@@ -330,18 +1405,124 @@ export class ModelOrchestrator {
     switch (task.type) {
       case 'explain':
       case 'document':
+      case 'review':
         return 2000; // Longer explanations
       case 'generate':
       case 'complete':
         return 1500; // Code generation
       case 'refactor':
         return 1000; // Code refactoring
+      case 'fix':
+      case 'security-fix':
+        return 1500; // Fixed code with an explanation of the cause
       default:
         return 1000; // Default
     }
   }
   
-  private formatMessagesForTask(task: AITask): any[] {
+  /**
+   * Builds the messages for a task so that they fit in a model's context window, leaving room for the response.
+   * When the full prompt is too large, the oldest conversation turns are dropped until the prompt without context fits,
+   * then context chunks are kept in order of relevance and the rest are dropped.
+   * @param task The task
+   * @param modelConfig The model the messages are for
+   * @param reservedTokens Tokens to keep free for the response
+   * @returns The messages, or undefined if even the prompt without context doesn't fit
+   */
+  private fitMessagesToContextWindow(originalTask: AITask, modelConfig: ModelConfig, reservedTokens: number): ChatMessage[] | undefined {
+    const tokenizer = getTokenizer(modelConfig.modelId);
+    const budget = modelConfig.contextWindow - reservedTokens;
+    const messages = this.formatMessagesForTask(originalTask);
+    const chunks: any[] = originalTask.context?.chunks || [];
+    
+    if (countMessageTokens(messages, tokenizer) <= budget) {
+      return messages;
+    }
+    
+    // Drop the oldest conversation turns until the prompt without context fits.
+    // A whole exchange goes at a time, so the conversation still starts with a user message.
+    let task = originalTask;
+    
+    while (task.history && task.history.length > 0 && countMessageTokens(this.formatMessagesForTask(task, []), tokenizer) > budget) {
+      const nextTurn = task.history.findIndex((message, index) => index > 0 && message.role === 'user');
+      task = { ...task, history: nextTurn > 0 ? task.history.slice(nextTurn) : [] };
+    }
+    
+    if (countMessageTokens(this.formatMessagesForTask(task, []), tokenizer) > budget) {
+      return undefined;
+    }
+    
+    if (task.history !== originalTask.history) {
+      console.log(`Dropped ${(originalTask.history?.length || 0) - (task.history?.length || 0)} conversation messages to fit model ${modelConfig.modelId}`);
+    }
+    
+    const keptChunks = this.selectContextChunks(task, chunks, tokenizer, budget);
+    let trimmedMessages = this.formatMessagesForTask(task, keptChunks);
+    
+    // Chunk counts are measured separately, so make sure the assembled prompt really fits
+    while (keptChunks.length > 0 && countMessageTokens(trimmedMessages, tokenizer) > budget) {
+      keptChunks.pop();
+      trimmedMessages = this.formatMessagesForTask(task, keptChunks);
+    }
+    
+    console.log(`Trimmed context for model ${modelConfig.modelId} from ${chunks.length} to ${keptChunks.length} chunks`);
+    
+    return trimmedMessages;
+  }
+  
+  /**
+   * Keeps an agent conversation within the model's context window by replacing tool results, oldest first,
+   * with a note; the model can call the tool again if it still needs the output
+   * @returns false if the conversation doesn't fit even without its tool results
+   */
+  private fitAgentMessages(messages: ChatMessage[], modelConfig: ModelConfig, reservedTokens: number): boolean {
+    const tokenizer = getTokenizer(modelConfig.modelId);
+    const budget = modelConfig.contextWindow - reservedTokens;
+    
+    for (const message of messages) {
+      if (countMessageTokens(messages, tokenizer) <= budget) {
+        return true;
+      }
+      
+      if (message.role === 'tool') {
+        message.content = REMOVED_TOOL_OUTPUT;
+      }
+    }
+    
+    return countMessageTokens(messages, tokenizer) <= budget;
+  }
+  
+  private selectContextChunks(task: AITask, chunks: any[], tokenizer: Tokenizer, budget: number): any[] {
+    const keptChunks: any[] = [];
+    let usedTokens = countMessageTokens(this.formatMessagesForTask(task, []), tokenizer) +
+      countMessageTokens([{ content: this.formatContextMessage(task, []) }], tokenizer) - countMessageTokens([], tokenizer);
+    
+    // Most relevant first
+    const rankedChunks = [...chunks].sort((a, b) => (b.similarity || 0) - (a.similarity || 0));
+    
+    for (const chunk of rankedChunks) {
+      const chunkTokens = tokenizer.countTokens(this.formatContextChunk(chunk));
+      
+      if (usedTokens + chunkTokens <= budget) {
+        keptChunks.push(chunk);
+        usedTokens += chunkTokens;
+        continue;
+      }
+      
+      // Fill the remaining room with the start of the chunk that didn't fit
+      const remainingTokens = budget - usedTokens - tokenizer.countTokens(this.formatContextChunk({ ...chunk, content: '' }));
+      
+      if (remainingTokens >= MIN_TRUNCATED_CHUNK_TOKENS) {
+        keptChunks.push({ ...chunk, content: tokenizer.truncate(chunk.content, remainingTokens) });
+      }
+      
+      break;
+    }
+    
+    return keptChunks;
+  }
+  
+  private formatMessagesForTask(task: AITask, contextChunks: any[] = task.context?.chunks || []): any[] {
     // Format messages based on task type
     const messages: any[] = [];
     
@@ -352,63 +1533,64 @@ export class ModelOrchestrator {
     });
     
     // Add context if available
-    if (task.context && task.context.chunks && task.context.chunks.length > 0) {
-      const contextMessage = this.formatContextMessage(task.context);
+    if (contextChunks.length > 0) {
+      const contextMessage = this.formatContextMessage(task, contextChunks);
       messages.push({
         role: 'system',
         content: contextMessage
       });
     }
     
-    // User query
+    // Earlier turns of the conversation
+    if (task.history) {
+      messages.push(...task.history);
+    }
+    
+    // User query, with any attached images
     messages.push({
       role: 'user',
-      content: task.query
+      content: task.query,
+      images: task.images && task.images.length > 0 ? task.images : undefined
     });
     
     return messages;
   }
   
   private getSystemPromptForTask(task: AITask): string {
-    // Base system prompt
-    let prompt = 'You are Asura AI, an advanced coding assistant. ';
+    let prompt = this.promptTemplates.renderSystemPrompt(task.type, this.getPromptVariables(task));
     
-    // Add task-specific instructions
-    switch (task.type) {
-      case 'explain':
-        prompt += 'Provide clear, concise explanations of code. Break down complex concepts into understandable parts. Include examples where helpful.';
-        break;
-      case 'generate':
-        prompt += 'Generate high-quality, well-documented code based on the user\'s requirements. Follow best practices and include comments.';
-        break;
-      case 'refactor':
-        prompt += 'Improve existing code by refactoring it. Focus on readability, performance, and adherence to best practices. Explain your changes.';
-        break;
-      case 'test':
-        prompt += 'Create comprehensive tests for the given code. Cover edge cases and ensure good test coverage. Follow testing best practices.';
-        break;
-      case 'complete':
-        prompt += 'Complete the code based on the context and user\'s requirements. Ensure the completed code is consistent with the existing style.';
-        break;
-      default:
-        prompt += 'Provide helpful assistance with coding tasks. Be clear, concise, and follow best practices.';
+    // Spell out the schema even for models with a native JSON mode; it carries the field descriptions
+    if (task.options?.responseSchema) {
+      prompt += `\n\nRespond only with JSON that matches this JSON schema, without any other text:\n${JSON.stringify(task.options.responseSchema, null, 2)}`;
     }
     
     return prompt;
   }
   
-  private formatContextMessage(context: any): string {
+  private formatContextMessage(task: AITask, chunks: any[]): string {
     // Format context chunks into a single message
-    let message = 'Here is some relevant context from the codebase:\n\n';
-    
-    for (const chunk of context.chunks) {
-      message += `File: ${chunk.filePath}\n`;
-      message += '```\n';
-      message += chunk.content;
-      message += '\n```\n\n';
-    }
-    
-    return message;
+    return this.promptTemplates.renderContext(task.type, chunks, this.getPromptVariables(task));
+  }
+  
+  private formatContextChunk(chunk: any): string {
+    return this.promptTemplates.renderContextChunk(chunk);
+  }
+  
+  // Variables available to prompt templates
+  private getPromptVariables(task: AITask): PromptVariables {
+    return {
+      language: task.language,
+      filePath: task.filePath ? vscode.workspace.asRelativePath(task.filePath, false) : undefined,
+      selection: task.selection?.text
+    };
+  }
+  
+  /**
+   * Renders the messages a task would be sent with, before they are fitted to a model's context window
+   * @param task The task
+   */
+  public renderPrompt(task: AITask): ChatMessage[] {
+    return this.formatMessagesForTask(task);
   }
   
   /**
@@ -419,10 +1601,10 @@ export class ModelOrchestrator {
   }
   
   /**
-   * Gets all available models
+   * Gets all available models, with the health of their provider
    */
-  public getModels(): { [name: string]: ModelConfig & { available: boolean } } {
-    const result: { [name: string]: ModelConfig & { available: boolean } } = {};
+  public getModels(): { [name: string]: ModelConfig & { available: boolean; health: ProviderHealth } } {
+    const result: { [name: string]: ModelConfig & { available: boolean; health: ProviderHealth } } = {};
     
     for (const [name, modelConfig] of Object.entries(this.config.models)) {
       const provider = this.providers[modelConfig.provider];
@@ -430,7 +1612,8 @@ export class ModelOrchestrator {
       
       result[name] = {
         ...modelConfig,
-        available
+        available,
+        health: this.health.getHealth(modelConfig.provider)
       };
     }
     
@@ -441,7 +1624,7 @@ export class ModelOrchestrator {
    * Gets models that support a specific capability
    * @param capability The capability to filter by
    */
-  public getModelsByCapability(capability: string): (ModelConfig & { available: boolean })[] {
+  public getModelsByCapability(capability: string): (ModelConfig & { available: boolean; health: ProviderHealth })[] {
     const models = this.getModels();
     
     return Object.entries(models)
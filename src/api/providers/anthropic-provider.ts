@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, CancelTokenSource } from 'axios';
-import { BaseApiProvider, ApiProviderConfig, ApiRequestOptions, ApiResponse, ModelCapability } from './base-provider';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { BaseApiProvider, ApiProviderConfig, ApiRequestOptions, ApiResponse, ImageAttachment, JsonSchema, ModelCapability, ModelConfig, ToolCall } from './base-provider';
+import { ProviderError, ServerError, isProviderError } from './errors';
+import { RateLimitReservation } from './rate-limiter';
 import { SecurityService } from '../../security';
 
 // Anthropic specific types
@@ -13,23 +15,45 @@ interface AnthropicChatRequest {
   stop_sequences?: string[];
   stream?: boolean;
   system?: string;
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
 }
 
+// Name of the tool that structured output requests force the model to call
+const STRUCTURED_OUTPUT_TOOL = 'structured_response';
+
 interface AnthropicChatMessage {
   role: 'user' | 'assistant';
   content: string | AnthropicMessageContent[];
 }
 
 interface AnthropicMessageContent {
-  type: 'text' | 'image';
+  type: 'text' | 'image' | 'tool_use' | 'tool_result';
   text?: string;
   source?: {
     type: 'base64';
     media_type: string;
     data: string;
   };
+  id?: string;
+  name?: string;
+  input?: {
+    [key: string]: any;
+  };
+  tool_use_id?: string;
+  content?: string;
 }
 
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: {
+    [key: string]: any;
+  };
+}
+
+type AnthropicToolChoice = { type: 'auto' } | { type: 'any' } | { type: 'tool'; name: string };
+
 interface AnthropicChatResponse {
   id: string;
   type: string;
@@ -60,16 +84,24 @@ interface AnthropicStreamChunk {
     };
   };
   delta?: {
-    type: string;
+    type?: string;
     text?: string;
+    stop_reason?: string | null;
   };
-  index: number;
+  // Cumulative output tokens, on message_delta events
+  usage?: {
+    output_tokens: number;
+  };
+  error?: {
+    type: string;
+    message: string;
+  };
+  index?: number;
 }
 
 // Anthropic API provider implementation
 export class AnthropicProvider extends BaseApiProvider {
   private client: AxiosInstance;
-  private cancelTokenSource?: CancelTokenSource;
   
   constructor(
     config: ApiProviderConfig,
@@ -94,6 +126,9 @@ export class AnthropicProvider extends BaseApiProvider {
       }
       return config;
     });
+    
+    // Learn the real rate limits from the response headers
+    this.trackRateLimitHeaders(this.client);
   }
   
   /**
@@ -117,47 +152,29 @@ export class AnthropicProvider extends BaseApiProvider {
    * @param options The request options
    */
   public async chat(messages: any[], options: ApiRequestOptions): Promise<ApiResponse> {
+    const cancelTokenSource = this.createCancelTokenSource(options.cancellationToken);
+    let reservation: RateLimitReservation | undefined;
+    
     try {
       // Validate model
-      const modelConfig = this.getModel(options.model);
+      const modelConfig = this.requireModel(options.model, ModelCapability.CHAT);
       
-      if (!modelConfig) {
-        throw new Error(`Model ${options.model} not found or not enabled`);
-      }
-      
-      if (!modelConfig.capabilities.includes(ModelCapability.CHAT)) {
-        throw new Error(`Model ${options.model} does not support chat`);
-      }
+      this.validateToolSupport(modelConfig, options);
+      this.validateImageSupport(modelConfig, messages);
       
       // Extract system message if present
-      let systemMessage: string | undefined;
-      const chatMessages: AnthropicChatMessage[] = [];
-      
-      for (const message of messages) {
-        if (message.role === 'system') {
-          systemMessage = message.content;
-        } else if (message.role === 'user' || message.role === 'assistant') {
-          chatMessages.push(message as AnthropicChatMessage);
-        }
-      }
+      const { systemMessage, chatMessages } = this.toAnthropicMessages(messages);
+      const structuredOutput = this.getStructuredOutputSchema(modelConfig, options);
       
       // Estimate token usage
-      const estimatedPromptTokens = Math.ceil(
-        messages.reduce((acc, msg) => acc + (typeof msg.content === 'string' ? msg.content.length : 0), 0) / 4
-      );
+      const estimatedPromptTokens = this.countPromptTokens(messages, options.model);
       const estimatedMaxTokens = options.maxTokens || modelConfig.maxTokens;
       const estimatedTotalTokens = estimatedPromptTokens + estimatedMaxTokens;
       
-      // Check rate limits
-      const rateLimitCheck = this.checkRateLimit(estimatedTotalTokens);
+      this.checkContextWindow(modelConfig, estimatedPromptTokens, estimatedMaxTokens);
       
-      if (!rateLimitCheck.allowed) {
-        const error = new Error(`Rate limit exceeded. Try again in ${rateLimitCheck.retryAfter} seconds.`);
-        error['code'] = 'rate_limit_exceeded';
-        error['type'] = 'rate_limit';
-        error['retryAfter'] = rateLimitCheck.retryAfter;
-        throw error;
-      }
+      // Wait for rate limit capacity
+      reservation = await this.rateLimiter.acquire(estimatedTotalTokens, options.cancellationToken);
       
       // Prepare request
       const request: AnthropicChatRequest = {
@@ -167,33 +184,43 @@ export class AnthropicProvider extends BaseApiProvider {
         temperature: options.temperature,
         top_p: options.topP,
         stop_sequences: options.stop,
-        system: systemMessage
+        system: systemMessage,
+        ...(structuredOutput ? this.toStructuredOutputTool(structuredOutput.schema) : this.toAnthropicTools(options))
       };
       
-      // Create cancel token
-      this.cancelTokenSource = axios.CancelToken.source();
-      
       // Send request
       const response = await this.client.post<AnthropicChatResponse>(
         '/v1/messages',
         request,
         {
-          cancelToken: this.cancelTokenSource.token,
+          cancelToken: cancelTokenSource.token,
           timeout: options.timeout || this.config.timeout
         }
       );
       
-      // Extract text content
+      // Extract text content and tool calls
       let content = '';
+      const toolCalls: ToolCall[] = [];
       for (const contentItem of response.data.content) {
         if (contentItem.type === 'text') {
           content += contentItem.text || '';
+        } else if (structuredOutput && contentItem.type === 'tool_use' && contentItem.name === STRUCTURED_OUTPUT_TOOL) {
+          // The tool input is the structured response
+          const input = contentItem.input || {};
+          content = JSON.stringify(structuredOutput.wrapped ? input.value : input);
+          break;
+        } else if (contentItem.type === 'tool_use') {
+          toolCalls.push({
+            id: contentItem.id || '',
+            name: contentItem.name || '',
+            arguments: this.parseToolArguments(contentItem.input)
+          });
         }
       }
       
-      // Update rate limit counters
+      // Settle the rate limit reservation with the real usage
       const totalTokens = response.data.usage.input_tokens + response.data.usage.output_tokens;
-      this.updateRateLimitCounters(totalTokens);
+      reservation.release(totalTokens);
       
       // Transform response
       return {
@@ -206,57 +233,15 @@ export class AnthropicProvider extends BaseApiProvider {
           totalTokens: totalTokens
         },
         finishReason: response.data.stop_reason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         created: Date.now() / 1000 // Anthropic doesn't provide a creation timestamp
       };
     } catch (error) {
       console.error('Anthropic chat error:', error);
-      
-      if (axios.isCancel(error)) {
-        const cancelError = new Error('Request was cancelled');
-        cancelError['code'] = 'request_cancelled';
-        cancelError['type'] = 'unknown';
-        throw cancelError;
-      }
-      
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const data = error.response?.data;
-        
-        if (status === 429) {
-          const rateLimitError = new Error(data?.error?.message || 'Rate limit exceeded');
-          rateLimitError['code'] = 'rate_limit_exceeded';
-          rateLimitError['type'] = 'rate_limit';
-          rateLimitError['retryAfter'] = parseInt(error.response?.headers['retry-after'] || '60');
-          throw rateLimitError;
-        } else if (status === 401) {
-          const authError = new Error(data?.error?.message || 'Invalid API key');
-          authError['code'] = 'invalid_api_key';
-          authError['type'] = 'authentication';
-          throw authError;
-        } else if (status === 400) {
-          const requestError = new Error(data?.error?.message || 'Invalid request');
-          requestError['code'] = 'invalid_request';
-          requestError['type'] = 'invalid_request';
-          throw requestError;
-        } else if (status && status >= 500) {
-          const serverError = new Error(data?.error?.message || 'Anthropic server error');
-          serverError['code'] = 'server_error';
-          serverError['type'] = 'server_error';
-          throw serverError;
-        } else if (error.code === 'ECONNABORTED') {
-          const timeoutError = new Error('Request timed out');
-          timeoutError['code'] = 'timeout';
-          timeoutError['type'] = 'timeout';
-          throw timeoutError;
-        }
-      }
-      
-      const unknownError = new Error(error instanceof Error ? error.message : String(error));
-      unknownError['code'] = 'unknown_error';
-      unknownError['type'] = 'unknown';
-      throw unknownError;
+      throw this.toProviderError(error);
     } finally {
-      this.cancelTokenSource = undefined;
+      this.releaseCancelTokenSource(cancelTokenSource);
+      reservation?.release();
     }
   }
   
@@ -271,47 +256,27 @@ export class AnthropicProvider extends BaseApiProvider {
     options: ApiRequestOptions,
     callback: (chunk: string, done: boolean) => void
   ): Promise<ApiResponse> {
+    const cancelTokenSource = this.createCancelTokenSource(options.cancellationToken);
+    let reservation: RateLimitReservation | undefined;
+    
     try {
       // Validate model
-      const modelConfig = this.getModel(options.model);
+      const modelConfig = this.requireModel(options.model, ModelCapability.CHAT);
       
-      if (!modelConfig) {
-        throw new Error(`Model ${options.model} not found or not enabled`);
-      }
-      
-      if (!modelConfig.capabilities.includes(ModelCapability.CHAT)) {
-        throw new Error(`Model ${options.model} does not support chat`);
-      }
+      this.validateImageSupport(modelConfig, messages);
       
       // Extract system message if present
-      let systemMessage: string | undefined;
-      const chatMessages: AnthropicChatMessage[] = [];
-      
-      for (const message of messages) {
-        if (message.role === 'system') {
-          systemMessage = message.content;
-        } else if (message.role === 'user' || message.role === 'assistant') {
-          chatMessages.push(message as AnthropicChatMessage);
-        }
-      }
+      const { systemMessage, chatMessages } = this.toAnthropicMessages(messages);
       
       // Estimate token usage
-      const estimatedPromptTokens = Math.ceil(
-        messages.reduce((acc, msg) => acc + (typeof msg.content === 'string' ? msg.content.length : 0), 0) / 4
-      );
+      const estimatedPromptTokens = this.countPromptTokens(messages, options.model);
       const estimatedMaxTokens = options.maxTokens || modelConfig.maxTokens;
       const estimatedTotalTokens = estimatedPromptTokens + estimatedMaxTokens;
       
-      // Check rate limits
-      const rateLimitCheck = this.checkRateLimit(estimatedTotalTokens);
+      this.checkContextWindow(modelConfig, estimatedPromptTokens, estimatedMaxTokens);
       
-      if (!rateLimitCheck.allowed) {
-        const error = new Error(`Rate limit exceeded. Try again in ${rateLimitCheck.retryAfter} seconds.`);
-        error['code'] = 'rate_limit_exceeded';
-        error['type'] = 'rate_limit';
-        error['retryAfter'] = rateLimitCheck.retryAfter;
-        throw error;
-      }
+      // Wait for rate limit capacity
+      reservation = await this.rateLimiter.acquire(estimatedTotalTokens, options.cancellationToken);
       
       // Prepare request
       const request: AnthropicChatRequest = {
@@ -325,15 +290,12 @@ export class AnthropicProvider extends BaseApiProvider {
         stream: true
       };
       
-      // Create cancel token
-      this.cancelTokenSource = axios.CancelToken.source();
-      
       // Send request
       const response = await this.client.post<NodeJS.ReadableStream>(
         '/v1/messages',
         request,
         {
-          cancelToken: this.cancelTokenSource.token,
+          cancelToken: cancelTokenSource.token,
           timeout: options.timeout || this.config.timeout,
           responseType: 'stream',
           headers: {
@@ -352,86 +314,64 @@ export class AnthropicProvider extends BaseApiProvider {
       
       const stream = response.data;
       
-      return new Promise<ApiResponse>((resolve, reject) => {
+      // Server-sent events: message_start carries the input tokens, content_block_delta the text,
+      // and message_delta the stop reason and the cumulative output tokens
+      const processLine = (line: string) => {
+        const trimmed = line.trim();
+        
+        if (!trimmed.startsWith('data: ') || trimmed === 'data: [DONE]') {
+          return;
+        }
+        
+        const data = JSON.parse(trimmed.slice(6)) as AnthropicStreamChunk;
+        
+        if (data.type === 'message_start' && data.message) {
+          responseId = data.message.id;
+          responseModel = data.message.model;
+          inputTokens = data.message.usage?.input_tokens || inputTokens;
+          outputTokens = data.message.usage?.output_tokens || outputTokens;
+        } else if (data.type === 'content_block_delta') {
+          if (data.delta?.type === 'text_delta' && data.delta.text) {
+            fullContent += data.delta.text;
+            callback(data.delta.text, false);
+          }
+        } else if (data.type === 'message_delta') {
+          if (data.delta?.stop_reason) {
+            finishReason = data.delta.stop_reason;
+          }
+          
+          outputTokens = data.usage?.output_tokens || outputTokens;
+        } else if (data.type === 'error') {
+          throw new ServerError(data.error?.message || 'Anthropic stream error', data.error?.type || 'stream_error');
+        }
+      };
+      
+      return this.trackStream(cancelTokenSource, new Promise<ApiResponse>((resolve, reject) => {
         let buffer = '';
         
         stream.on('data', (chunk: Buffer) => {
           try {
-            const chunkStr = chunk.toString();
-            buffer += chunkStr;
+            buffer += chunk.toString();
             
             // Process complete lines
             const lines = buffer.split('\n');
             buffer = lines.pop() || '';
             
             for (const line of lines) {
-              if (line.trim() === '' || line.trim() === 'data: ') {
-                continue;
-              }
-              if (line.trim() === 'data: [DONE]') {
-                callback('', true);
-                continue;
-              }
-              
-              if (line.startsWith('data: ')) {
-                const jsonStr = line.slice(6);
-                const data = JSON.parse(jsonStr) as AnthropicStreamChunk;
-                
-                if (data.type === 'message_start') {
-                  if (data.message) {
-                    responseId = data.message.id;
-                    responseModel = data.message.model;
-                  }
-                } else if (data.type === 'content_block_start') {
-                  // Content block start, nothing to do
-                } else if (data.type === 'content_block_delta') {
-                  if (data.delta && data.delta.type === 'text' && data.delta.text) {
-                    fullContent += data.delta.text;
-                    callback(data.delta.text, false);
-                  }
-                } else if (data.type === 'message_delta') {
-                  // Message delta, check for stop reason
-                  if (data.delta && 'stop_reason' in data.delta) {
-                    finishReason = data.delta.stop_reason as string;
-                  }
-                } else if (data.type === 'message_stop') {
-                  if (data.message && data.message.usage) {
-                    inputTokens = data.message.usage.input_tokens;
-                    outputTokens = data.message.usage.output_tokens;
-                  }
-                }
-              }
+              processLine(line);
             }
           } catch (error) {
             console.error('Error processing stream chunk:', error);
-            const streamError = new Error(error instanceof Error ? error.message : String(error));
-            streamError['code'] = 'stream_processing_error';
-            streamError['type'] = 'unknown';
-            reject(streamError);
+            reject(isProviderError(error) ? error : new ProviderError(error instanceof Error ? error.message : String(error), 'stream_processing_error', 'unknown'));
           }
         });
         
         stream.on('end', () => {
           // Process any remaining data in buffer
-          if (buffer.trim() !== '' && buffer.trim() !== 'data: ' && buffer.trim() !== 'data: [DONE]') {
-            try {
-              if (buffer.startsWith('data: ')) {
-                const jsonStr = buffer.slice(6);
-                const data = JSON.parse(jsonStr) as AnthropicStreamChunk;
-                
-                if (data.type === 'content_block_delta' && data.delta && data.delta.type === 'text' && data.delta.text) {
-                  fullContent += data.delta.text;
-                  callback(data.delta.text, false);
-                } else if (data.type === 'message_delta' && data.delta && 'stop_reason' in data.delta) {
-                  finishReason = data.delta.stop_reason as string;
-                } else if (data.type === 'message_stop' && data.message && data.message.usage) {
-                  inputTokens = data.message.usage.input_tokens;
-                  outputTokens = data.message.usage.output_tokens;
-                }
-              }
-            } catch (error) {
-              console.error('Error processing final stream chunk:', error);
-            }
+          try {
+            processLine(buffer);
+          } catch (error) {
+            console.error('Error processing final stream chunk:', error);
           }
           
           // Signal completion
@@ -443,13 +383,13 @@ export class AnthropicProvider extends BaseApiProvider {
           }
           
           if (outputTokens === 0) {
-            outputTokens = Math.ceil(fullContent.length / 4);
+            outputTokens = this.countTokens(fullContent, options.model);
           }
           
           const totalTokens = inputTokens + outputTokens;
           
-          // Update rate limit counters
-          this.updateRateLimitCounters(totalTokens);
+          // Settle the rate limit reservation with the real usage
+          reservation?.release(totalTokens);
           
           // Resolve with final response
           resolve({
@@ -468,61 +408,15 @@ export class AnthropicProvider extends BaseApiProvider {
         
         stream.on('error', (error) => {
           console.error('Stream error:', error);
-          const streamError = new Error(error instanceof Error ? error.message : String(error));
-          streamError['code'] = 'stream_error';
-          streamError['type'] = 'unknown';
-          reject(streamError);
+          reject(new ProviderError(error instanceof Error ? error.message : String(error), 'stream_error', 'unknown'));
         });
-      });
+      }), reservation);
     } catch (error) {
-      console.error('Anthropic streaming chat error:', error);
+      this.releaseCancelTokenSource(cancelTokenSource);
+      reservation?.release();
       
-      if (axios.isCancel(error)) {
-        const cancelError = new Error('Request was cancelled');
-        cancelError['code'] = 'request_cancelled';
-        cancelError['type'] = 'unknown';
-        throw cancelError;
-      }
-      
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const data = error.response?.data;
-        
-        if (status === 429) {
-          const rateLimitError = new Error(data?.error?.message || 'Rate limit exceeded');
-          rateLimitError['code'] = 'rate_limit_exceeded';
-          rateLimitError['type'] = 'rate_limit';
-          rateLimitError['retryAfter'] = parseInt(error.response?.headers['retry-after'] || '60');
-          throw rateLimitError;
-        } else if (status === 401) {
-          const authError = new Error(data?.error?.message || 'Invalid API key');
-          authError['code'] = 'invalid_api_key';
-          authError['type'] = 'authentication';
-          throw authError;
-        } else if (status === 400) {
-          const requestError = new Error(data?.error?.message || 'Invalid request');
-          requestError['code'] = 'invalid_request';
-          requestError['type'] = 'invalid_request';
-          throw requestError;
-        } else if (status && status >= 500) {
-          const serverError = new Error(data?.error?.message || 'Anthropic server error');
-          serverError['code'] = 'server_error';
-          serverError['type'] = 'server_error';
-          throw serverError;
-        } else if (error.code === 'ECONNABORTED') {
-          const timeoutError = new Error('Request timed out');
-          timeoutError['code'] = 'timeout';
-          timeoutError['type'] = 'timeout';
-          throw timeoutError;
-        }
-      }
-      
-      const unknownError = new Error(error instanceof Error ? error.message : String(error));
-      unknownError['code'] = 'unknown_error';
-      unknownError['type'] = 'unknown';
-      throw unknownError;
-    } finally {
-      this.cancelTokenSource = undefined;
+      console.error('Anthropic streaming chat error:', error);
+      throw this.toProviderError(error);
     }
   }
   
@@ -537,12 +431,123 @@ export class AnthropicProvider extends BaseApiProvider {
   }
   
   /**
-   * Cancels an ongoing request
+   * Converts provider-neutral chat messages to the Anthropic wire format.
+   * System messages are lifted into the top-level system prompt, assistant tool calls become
+   * tool_use blocks, attached images become image blocks and consecutive tool results are grouped into a single user turn.
+   * @param messages The chat messages
+   */
+  private toAnthropicMessages(messages: any[]): { systemMessage?: string; chatMessages: AnthropicChatMessage[] } {
+    const systemParts: string[] = [];
+    const chatMessages: AnthropicChatMessage[] = [];
+    
+    for (const message of messages) {
+      if (message.role === 'system') {
+        systemParts.push(message.content);
+      } else if (message.role === 'tool') {
+        const toolResult: AnthropicMessageContent = {
+          type: 'tool_result',
+          tool_use_id: message.toolCallId,
+          content: message.content
+        };
+        const previous = chatMessages[chatMessages.length - 1];
+        
+        if (previous && previous.role === 'user' && Array.isArray(previous.content) && previous.content.every(block => block.type === 'tool_result')) {
+          previous.content.push(toolResult);
+        } else {
+          chatMessages.push({ role: 'user', content: [toolResult] });
+        }
+      } else if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+        const content: AnthropicMessageContent[] = [];
+        
+        if (message.content) {
+          content.push({ type: 'text', text: message.content });
+        }
+        
+        for (const call of message.toolCalls as ToolCall[]) {
+          content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+        }
+        
+        chatMessages.push({ role: 'assistant', content });
+      } else if (message.role === 'user' && message.images && message.images.length > 0) {
+        // Anthropic recommends placing images before the text that refers to them
+        const content: AnthropicMessageContent[] = (message.images as ImageAttachment[]).map(image => ({
+          type: 'image',
+          source: { type: 'base64', media_type: image.mediaType, data: image.data }
+        }));
+        
+        content.push({ type: 'text', text: message.content });
+        
+        chatMessages.push({ role: 'user', content });
+      } else if (message.role === 'user' || message.role === 'assistant') {
+        chatMessages.push({ role: message.role, content: message.content });
+      }
+    }
+    
+    return {
+      systemMessage: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+      chatMessages
+    };
+  }
+  
+  /**
+   * Gets the schema of the tool that forces a structured response, Anthropic's equivalent of a JSON mode.
+   * Tool inputs must be objects, so other schemas are wrapped in a single 'value' property.
+   * @param modelConfig The model the request targets
+   * @param options The request options
+   * @returns The tool input schema, or undefined if no schema was requested or the request brings its own tools
    */
-  public cancelRequest(): void {
-    if (this.cancelTokenSource) {
-      this.cancelTokenSource.cancel('Request cancelled by user');
-      this.cancelTokenSource = undefined;
+  private getStructuredOutputSchema(modelConfig: ModelConfig, options: ApiRequestOptions): { schema: JsonSchema; wrapped: boolean } | undefined {
+    if (!options.responseSchema || !modelConfig.capabilities.includes(ModelCapability.FUNCTION_CALLING) || (options.tools && options.tools.length > 0)) {
+      return undefined;
     }
+    
+    if (options.responseSchema.type === 'object') {
+      return { schema: options.responseSchema, wrapped: false };
+    }
+    
+    return {
+      schema: { type: 'object', properties: { value: options.responseSchema }, required: ['value'] },
+      wrapped: true
+    };
+  }
+  
+  private toStructuredOutputTool(schema: JsonSchema): { tools: AnthropicTool[]; tool_choice: AnthropicToolChoice } {
+    return {
+      tools: [{
+        name: STRUCTURED_OUTPUT_TOOL,
+        description: 'Respond with the requested data',
+        input_schema: schema
+      }],
+      tool_choice: { type: 'tool', name: STRUCTURED_OUTPUT_TOOL }
+    };
+  }
+  
+  /**
+   * Converts provider-neutral tool options to the Anthropic request fields
+   * @param options The request options
+   */
+  private toAnthropicTools(options: ApiRequestOptions): { tools?: AnthropicTool[]; tool_choice?: AnthropicToolChoice } {
+    // Anthropic has no "none" choice, so leaving the tools out is the equivalent
+    if (!options.tools || options.tools.length === 0 || options.toolChoice === 'none') {
+      return {};
+    }
+    
+    const tools = options.tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters
+    }));
+    
+    let toolChoice: AnthropicToolChoice | undefined;
+    
+    if (options.toolChoice === 'required') {
+      toolChoice = { type: 'any' };
+    } else if (options.toolChoice && typeof options.toolChoice === 'object') {
+      toolChoice = { type: 'tool', name: options.toolChoice.name };
+    } else if (options.toolChoice === 'auto') {
+      toolChoice = { type: 'auto' };
+    }
+    
+    return { tools, tool_choice: toolChoice };
   }
 }
@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
+import axios, { AxiosInstance, CancelTokenSource } from 'axios';
 import { SecurityService } from '../../security';
+import { Tokenizer, countMessageTokens, getTokenizer } from '../../core/tokenizer';
+import { AuthenticationError, CancelledError, InvalidRequestError, ProviderError, RateLimitError, ServerError, TimeoutError } from './errors';
+import { RateLimitReservation, RateLimitScheduler } from './rate-limiter';
 
 // Types
 export interface ApiProviderConfig {
@@ -10,10 +14,14 @@ export interface ApiProviderConfig {
   apiKey?: string;
   apiEndpoint?: string;
   apiVersion?: string;
+  apiFormat?: 'openai' | 'ollama';
   maxTokens?: number;
   timeout?: number;
   rateLimitRPM?: number;
   rateLimitTPM?: number;
+  maxConcurrentRequests?: number;
+  // How long a request waits for rate limit capacity before failing; defaults to 30 seconds
+  rateLimitMaxWaitMs?: number;
   models: ModelConfig[];
 }
 
@@ -39,7 +47,51 @@ export enum ModelCapability {
   IMAGE_GENERATION = 'image_generation',
   IMAGE_UNDERSTANDING = 'image_understanding',
   AUDIO_TRANSCRIPTION = 'audio_transcription',
-  AUDIO_GENERATION = 'audio_generation'
+  AUDIO_GENERATION = 'audio_generation',
+  // The model can be constrained to JSON matching a schema (OpenAI response_format json_schema)
+  STRUCTURED_OUTPUT = 'structured_output'
+}
+
+// Provider-neutral tool definition; parameters is a JSON schema describing the tool input
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    [key: string]: any;
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: {
+    [key: string]: any;
+  };
+}
+
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export interface JsonSchema {
+  [key: string]: any;
+}
+
+// Base64-encoded image sent along with a user message
+export interface ImageAttachment {
+  mediaType: 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+  data: string;
+  name?: string;
+}
+
+// Provider-neutral chat message. Assistant messages may carry the tool calls the model made,
+// and 'tool' messages carry the result of one of those calls back to the model.
+// User messages may carry images for models with IMAGE_UNDERSTANDING.
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+  name?: string;
+  images?: ImageAttachment[];
 }
 
 export interface ApiRequestOptions {
@@ -52,6 +104,13 @@ export interface ApiRequestOptions {
   stop?: string[];
   timeout?: number;
   stream?: boolean;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  // JSON schema the response content should match. Non-streaming chat uses the provider's native
+  // JSON mode when the model has one; callers still need to validate the content
+  responseSchema?: JsonSchema;
+  // Cancels this request only; other requests to the same provider keep running
+  cancellationToken?: vscode.CancellationToken;
 }
 
 export interface ApiResponse {
@@ -64,38 +123,42 @@ export interface ApiResponse {
     totalTokens: number;
   };
   finishReason?: string;
+  toolCalls?: ToolCall[];
   created: number;
+  // Set when the response was answered from the response cache instead of the provider
+  cached?: boolean;
+  // The parsed content of a structured output task, validated against its schema
+  json?: any;
 }
 
 export interface ApiError {
   code: string;
   message: string;
-  type: 'rate_limit' | 'invalid_request' | 'authentication' | 'server_error' | 'timeout' | 'unknown';
+  type: 'rate_limit' | 'invalid_request' | 'authentication' | 'server_error' | 'timeout' | 'cancelled' | 'unknown';
   retryAfter?: number;
 }
 
-export interface RateLimitState {
-  requestsThisMinute: number;
-  tokensThisMinute: number;
-  lastRequestTime: number;
-  lastResetTime: number;
-}
-
 // Base API provider class
 export abstract class BaseApiProvider {
-  protected rateLimitState: RateLimitState = {
-    requestsThisMinute: 0,
-    tokensThisMinute: 0,
-    lastRequestTime: 0,
-    lastResetTime: Date.now()
-  };
-  
   protected apiKey?: string;
   
+  // Queues requests until the provider's rate limits have room for them
+  protected readonly rateLimiter: RateLimitScheduler;
+  
+  // Cancel sources of the requests in flight, with the listener linking each to its caller's token
+  private cancelTokenSources: Map<CancelTokenSource, vscode.Disposable | undefined> = new Map();
+  
   constructor(
     protected readonly config: ApiProviderConfig,
     protected readonly securityService: SecurityService
   ) {
+    this.rateLimiter = new RateLimitScheduler({
+      requestsPerMinute: config.rateLimitRPM,
+      tokensPerMinute: config.rateLimitTPM,
+      maxConcurrentRequests: config.maxConcurrentRequests,
+      maxWaitMs: config.rateLimitMaxWaitMs ?? 30000
+    });
+    
     this.initialize();
   }
   
@@ -198,61 +261,210 @@ export abstract class BaseApiProvider {
   }
   
   /**
-   * Checks if a request would exceed rate limits
-   * @param estimatedTokens The estimated number of tokens for the request
+   * Ensures a model can accept tool definitions before they are sent
+   * @param modelConfig The model the request targets
+   * @param options The request options
    */
-  protected checkRateLimit(estimatedTokens: number): { allowed: boolean; retryAfter?: number } {
-    const now = Date.now();
-    const elapsedSinceReset = now - this.rateLimitState.lastResetTime;
+  protected validateToolSupport(modelConfig: ModelConfig, options: ApiRequestOptions): void {
+    if (options.tools && options.tools.length > 0 && !modelConfig.capabilities.includes(ModelCapability.FUNCTION_CALLING)) {
+      throw new InvalidRequestError(`Model ${modelConfig.id} does not support function calling`, 'unsupported_capability');
+    }
+  }
+  
+  /**
+   * Ensures a model can read the images attached to a request before they are sent
+   * @param modelConfig The model the request targets
+   * @param messages The chat messages
+   */
+  protected validateImageSupport(modelConfig: ModelConfig, messages: { images?: ImageAttachment[] }[]): void {
+    if (messages.some(message => message.images && message.images.length > 0) && !modelConfig.capabilities.includes(ModelCapability.IMAGE_UNDERSTANDING)) {
+      throw new InvalidRequestError(`Model ${modelConfig.id} does not support image inputs`, 'unsupported_capability');
+    }
+  }
+  
+  /**
+   * Gets an enabled model that supports a capability, or throws an InvalidRequestError
+   * @param modelId The ID of the model
+   * @param capability The capability the request needs
+   */
+  protected requireModel(modelId: string, capability: ModelCapability): ModelConfig {
+    const modelConfig = this.getModel(modelId);
+    
+    if (!modelConfig) {
+      throw new InvalidRequestError(`Model ${modelId} not found or not enabled`, 'model_not_found');
+    }
+    
+    if (!modelConfig.capabilities.includes(capability)) {
+      throw new InvalidRequestError(`Model ${modelId} does not support ${capability}`, 'unsupported_capability');
+    }
+    
+    return modelConfig;
+  }
+  
+  /**
+   * Parses tool call arguments returned as a JSON string
+   * @param args The raw arguments
+   */
+  protected parseToolArguments(args: string | { [key: string]: any } | undefined): { [key: string]: any } {
+    if (!args) {
+      return {};
+    }
     
-    // Reset counters if a minute has passed
-    if (elapsedSinceReset >= 60000) {
-      this.rateLimitState = {
-        requestsThisMinute: 0,
-        tokensThisMinute: 0,
-        lastRequestTime: now,
-        lastResetTime: now
-      };
-      return { allowed: true };
+    if (typeof args !== 'string') {
+      return args;
     }
     
-    // Check request rate limit
-    if (this.config.rateLimitRPM && this.rateLimitState.requestsThisMinute >= this.config.rateLimitRPM) {
-      const retryAfter = Math.ceil((60000 - elapsedSinceReset) / 1000);
-      return { allowed: false, retryAfter };
+    try {
+      return JSON.parse(args);
+    } catch (error) {
+      // Models occasionally emit malformed JSON; hand the raw text to the tool instead of failing the request
+      return { _raw: args };
     }
+  }
+  
+  /**
+   * Gets the tokenizer used to count tokens for a model
+   * @param modelId The model ID
+   */
+  protected getTokenizer(modelId: string): Tokenizer {
+    return getTokenizer(modelId);
+  }
+  
+  /**
+   * Counts the tokens in a text for a model
+   * @param text The text to count
+   * @param modelId The model ID
+   */
+  protected countTokens(text: string, modelId: string): number {
+    return this.getTokenizer(modelId).countTokens(text);
+  }
+  
+  /**
+   * Counts the prompt tokens of a list of chat messages for a model
+   * @param messages The chat messages
+   * @param modelId The model ID
+   */
+  protected countPromptTokens(messages: { content?: any; images?: unknown[] }[], modelId: string): number {
+    return countMessageTokens(messages, this.getTokenizer(modelId));
+  }
+  
+  /**
+   * Throws an InvalidRequestError if the prompt and the reserved response tokens don't fit in the model's context window
+   * @param modelConfig The model
+   * @param promptTokens The number of prompt tokens
+   * @param maxTokens The number of tokens reserved for the response
+   */
+  protected checkContextWindow(modelConfig: ModelConfig, promptTokens: number, maxTokens: number): void {
+    if (promptTokens + maxTokens > modelConfig.contextWindow) {
+      throw new InvalidRequestError(
+        `Prompt of ${promptTokens} tokens plus ${maxTokens} response tokens exceeds the ${modelConfig.contextWindow} token context window of ${modelConfig.name}`,
+        'context_length_exceeded'
+      );
+    }
+  }
+  
+  /**
+   * Feeds the rate limit headers of every response, including error responses, to the rate limiter
+   * @param client The provider's axios client
+   */
+  protected trackRateLimitHeaders(client: AxiosInstance): void {
+    client.interceptors.response.use(
+      response => {
+        this.rateLimiter.updateFromHeaders(response.headers);
+        return response;
+      },
+      error => {
+        this.rateLimiter.updateFromHeaders(error?.response?.headers);
+        return Promise.reject(error);
+      }
+    );
+  }
+  
+  /**
+   * Creates the axios cancel source for a single request and links it to the caller's cancellation token.
+   * Release it with releaseCancelTokenSource once the request has finished.
+   * @param cancellationToken The caller's cancellation token, if any
+   */
+  protected createCancelTokenSource(cancellationToken?: vscode.CancellationToken): CancelTokenSource {
+    const source = axios.CancelToken.source();
+    let listener: vscode.Disposable | undefined;
     
-    // Check token rate limit
-    if (this.config.rateLimitTPM && this.rateLimitState.tokensThisMinute + estimatedTokens > this.config.rateLimitTPM) {
-      const retryAfter = Math.ceil((60000 - elapsedSinceReset) / 1000);
-      return { allowed: false, retryAfter };
+    if (cancellationToken) {
+      if (cancellationToken.isCancellationRequested) {
+        source.cancel('Request cancelled by user');
+      } else {
+        listener = cancellationToken.onCancellationRequested(() => source.cancel('Request cancelled by user'));
+      }
     }
     
-    return { allowed: true };
+    this.cancelTokenSources.set(source, listener);
+    
+    return source;
+  }
+  
+  /**
+   * Forgets a finished request's cancel source
+   * @param source The cancel source returned by createCancelTokenSource
+   */
+  protected releaseCancelTokenSource(source: CancelTokenSource): void {
+    this.cancelTokenSources.get(source)?.dispose();
+    this.cancelTokenSources.delete(source);
+  }
+  
+  /**
+   * Keeps a streaming response cancellable until it has been fully read.
+   * Cancelling rejects the stream with a CancelledError; the cancel source and rate limit reservation are released either way.
+   * @param source The request's cancel source
+   * @param stream A promise that settles when the stream ends
+   * @param reservation The request's rate limit reservation
+   */
+  protected trackStream<T>(source: CancelTokenSource, stream: Promise<T>, reservation?: RateLimitReservation): Promise<T> {
+    const cancelled = source.token.promise.then((): never => {
+      throw new CancelledError();
+    });
+    
+    return Promise.race([stream, cancelled]).finally(() => {
+      this.releaseCancelTokenSource(source);
+      reservation?.release();
+    });
   }
   
   /**
-   * Updates rate limit counters after a request
-   * @param tokens The number of tokens used in the request
+   * Maps any error raised while talking to the API onto the provider error hierarchy
+   * @param error The error to map
    */
-  protected updateRateLimitCounters(tokens: number): void {
-    const now = Date.now();
-    const elapsedSinceReset = now - this.rateLimitState.lastResetTime;
+  protected toProviderError(error: unknown): ProviderError {
+    if (error instanceof ProviderError) {
+      return error;
+    }
+    
+    if (axios.isCancel(error)) {
+      return new CancelledError();
+    }
     
-    // Reset counters if a minute has passed
-    if (elapsedSinceReset >= 60000) {
-      this.rateLimitState = {
-        requestsThisMinute: 1,
-        tokensThisMinute: tokens,
-        lastRequestTime: now,
-        lastResetTime: now
-      };
-    } else {
-      // Update counters
-      this.rateLimitState.requestsThisMinute++;
-      this.rateLimitState.tokensThisMinute += tokens;
-      this.rateLimitState.lastRequestTime = now;
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      const data = error.response?.data;
+      // OpenAI and Anthropic nest the message under error.message, Ollama returns error as a string
+      const message: string | undefined = data?.error?.message || (typeof data?.error === 'string' ? data.error : undefined);
+      
+      if (status === 429) {
+        const retryAfter = parseInt(error.response?.headers['retry-after'] || '60');
+        return new RateLimitError(message, isNaN(retryAfter) ? 60 : retryAfter);
+      } else if (status === 401 || status === 403) {
+        return new AuthenticationError(message, status);
+      } else if (status === 400 || status === 404 || status === 413 || status === 422) {
+        return new InvalidRequestError(message, 'invalid_request', status);
+      } else if (status && status >= 500) {
+        return new ServerError(message || `${this.config.name} server error`, 'server_error', status);
+      } else if (error.code === 'ECONNABORTED') {
+        return new TimeoutError();
+      } else if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND' || error.code === 'ECONNRESET') {
+        return new ServerError(`Could not connect to ${this.config.name} at ${error.config?.baseURL || 'the configured endpoint'}`, 'connection_error');
+      }
     }
+    
+    return new ProviderError(error instanceof Error ? error.message : String(error), 'unknown_error', 'unknown');
   }
   
   /**
@@ -284,7 +496,8 @@ export abstract class BaseApiProvider {
   public abstract completion(prompt: string, options: ApiRequestOptions): Promise<ApiResponse>;
   
   /**
-   * Sends a chat completion request to the API
+   * Sends a chat completion request to the API.
+   * When options.tools is set, any tool invocations the model makes are returned in ApiResponse.toolCalls
    * @param messages The chat messages
    * @param options The request options
    */
@@ -310,7 +523,13 @@ export abstract class BaseApiProvider {
   public abstract embeddings(text: string, options: ApiRequestOptions): Promise<number[]>;
   
   /**
-   * Cancels an ongoing streaming request
+   * Cancels every request this provider has in flight.
+   * To cancel a single request, pass ApiRequestOptions.cancellationToken instead
    */
-  public abstract cancelRequest(): void;
+  public cancelRequest(): void {
+    for (const source of Array.from(this.cancelTokenSources.keys())) {
+      source.cancel('Request cancelled by user');
+      this.releaseCancelTokenSource(source);
+    }
+  }
 }
@@ -0,0 +1,82 @@
+import { ApiError } from './base-provider';
+
+// Base class for every error surfaced by an API provider
+export class ProviderError extends Error implements ApiError {
+  public readonly code: string;
+  public readonly type: ApiError['type'];
+  public readonly retryAfter?: number;
+  public readonly status?: number;
+  
+  constructor(
+    message: string,
+    code: string,
+    type: ApiError['type'],
+    options: { retryAfter?: number; status?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.code = code;
+    this.type = type;
+    this.retryAfter = options.retryAfter;
+    this.status = options.status;
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  constructor(message: string = 'Rate limit exceeded', retryAfter?: number, code: string = 'rate_limit_exceeded') {
+    super(message, code, 'rate_limit', { retryAfter, status: 429 });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class AuthenticationError extends ProviderError {
+  constructor(message: string = 'Invalid API key', status?: number) {
+    super(message, 'invalid_api_key', 'authentication', { status });
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class InvalidRequestError extends ProviderError {
+  constructor(message: string = 'Invalid request', code: string = 'invalid_request', status?: number) {
+    super(message, code, 'invalid_request', { status });
+    this.name = 'InvalidRequestError';
+  }
+}
+
+// The model kept answering with content that doesn't match the requested response schema
+export class StructuredOutputError extends InvalidRequestError {
+  constructor(message: string, public readonly validationErrors: string[], public readonly content: string) {
+    super(message, 'invalid_structured_output');
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export class ServerError extends ProviderError {
+  constructor(message: string = 'Server error', code: string = 'server_error', status?: number) {
+    super(message, code, 'server_error', { status });
+    this.name = 'ServerError';
+  }
+}
+
+export class TimeoutError extends ProviderError {
+  constructor(message: string = 'Request timed out') {
+    super(message, 'timeout', 'timeout');
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends ProviderError {
+  constructor(message: string = 'Request was cancelled') {
+    super(message, 'request_cancelled', 'cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Checks whether an error is a provider error of the given type
+ * @param error The error to check
+ * @param type The error type to match
+ */
+export function isProviderError(error: unknown, type?: ApiError['type']): error is ProviderError {
+  return error instanceof ProviderError && (!type || error.type === type);
+}
@@ -0,0 +1,632 @@
+import axios, { AxiosInstance } from 'axios';
+import { BaseApiProvider, ApiProviderConfig, ApiRequestOptions, ApiResponse, ImageAttachment, JsonSchema, ModelCapability, ToolCall } from './base-provider';
+import { ProviderError } from './errors';
+import { RateLimitReservation } from './rate-limiter';
+import { OpenAITool, OpenAIToolCall, toOpenAIMessages, toOpenAIResponseFormat, toOpenAITools, toOpenAIToolChoice } from './openai-provider';
+import { SecurityService } from '../../security';
+
+// Local server specific types
+interface OllamaRequestOptions {
+  temperature?: number;
+  top_p?: number;
+  num_predict?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  stop?: string[];
+}
+
+interface OllamaChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Base64-encoded images, for multimodal models such as llava
+  images?: string[];
+  tool_calls?: {
+    function: {
+      name: string;
+      arguments: {
+        [key: string]: any;
+      };
+    };
+  }[];
+}
+
+interface OllamaChatRequest {
+  model: string;
+  messages: OllamaChatMessage[];
+  stream: boolean;
+  options?: OllamaRequestOptions;
+  tools?: OpenAITool[];
+  // Constrains the output to JSON matching the schema, whatever the model
+  format?: JsonSchema;
+}
+
+interface OllamaGenerateRequest {
+  model: string;
+  prompt: string;
+  stream: boolean;
+  options?: OllamaRequestOptions;
+}
+
+interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message?: OllamaChatMessage;
+  response?: string;
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OllamaEmbeddingResponse {
+  embedding: number[];
+}
+
+interface OpenAICompatibleChatResponse {
+  id: string;
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    message?: { role: string; content: string | null; tool_calls?: OpenAIToolCall[] };
+    text?: string;
+    finish_reason: string;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface OpenAICompatibleStreamChunk {
+  id: string;
+  created: number;
+  model: string;
+  choices: {
+    delta: {
+      content?: string;
+    };
+    index: number;
+    finish_reason: string | null;
+  }[];
+}
+
+interface OpenAICompatibleEmbeddingResponse {
+  data: {
+    embedding: number[];
+    index: number;
+  }[];
+}
+
+// Default endpoints used when none is configured
+const DEFAULT_OLLAMA_ENDPOINT = 'http://localhost:11434';
+const DEFAULT_OPENAI_COMPATIBLE_ENDPOINT = 'http://localhost:8080/v1';
+
+// An unreachable server is checked again after this long; a reachable one is trusted until a check fails
+const REACHABILITY_CHECK_INTERVAL_MS = 30000;
+const REACHABILITY_TIMEOUT_MS = 2000;
+
+// Local model server provider implementation.
+// Talks either to an Ollama server (/api/chat, /api/generate, /api/embeddings)
+// or to any server exposing the OpenAI REST surface (llama.cpp, vLLM, LM Studio, LocalAI).
+export class LocalProvider extends BaseApiProvider {
+  private client: AxiosInstance;
+  // Result of the last reachability check; undefined until the first check finishes
+  private reachable?: boolean;
+  private lastReachabilityCheck = 0;
+  
+  constructor(
+    config: ApiProviderConfig,
+    securityService: SecurityService
+  ) {
+    super(config, securityService);
+    
+    // Create Axios client
+    this.client = axios.create({
+      baseURL: this.config.apiEndpoint || (this.isOllama() ? DEFAULT_OLLAMA_ENDPOINT : DEFAULT_OPENAI_COMPATIBLE_ENDPOINT),
+      timeout: this.config.timeout || 120000,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+    
+    // Local servers usually run without authentication, but some sit behind a proxy that expects a key
+    this.client.interceptors.request.use((config) => {
+      if (this.apiKey) {
+        config.headers['Authorization'] = `Bearer ${this.apiKey}`;
+      }
+      return config;
+    });
+    
+    // Learn the real rate limits from the response headers
+    this.trackRateLimitHeaders(this.client);
+    
+    this.checkReachability();
+  }
+  
+  /**
+   * Local servers don't require an API key, so the provider is usable whenever its server answers.
+   * Reachability comes from a background check, so this never blocks; a server that goes away between
+   * checks is caught by the orchestrator's health tracker, which opens the provider's circuit.
+   */
+  public isConfigured(): boolean {
+    if (this.reachable === false && Date.now() - this.lastReachabilityCheck >= REACHABILITY_CHECK_INTERVAL_MS) {
+      this.checkReachability();
+    }
+    
+    return this.reachable !== false;
+  }
+  
+  /**
+   * Checks whether the server answers, by listing its models
+   * @returns Whether the server is reachable
+   */
+  public async checkReachability(): Promise<boolean> {
+    this.lastReachabilityCheck = Date.now();
+    
+    try {
+      await this.client.get(this.isOllama() ? '/api/tags' : '/models', { timeout: REACHABILITY_TIMEOUT_MS });
+      this.reachable = true;
+    } catch (error) {
+      // Any HTTP answer, even an error status, means a server is listening
+      this.reachable = axios.isAxiosError(error) && !!error.response;
+    }
+    
+    return this.reachable;
+  }
+  
+  /**
+   * Sends a completion request to the local server
+   * @param prompt The prompt to complete
+   * @param options The request options
+   */
+  public async completion(prompt: string, options: ApiRequestOptions): Promise<ApiResponse> {
+    const cancelTokenSource = this.createCancelTokenSource(options.cancellationToken);
+    let reservation: RateLimitReservation | undefined;
+    
+    try {
+      // Validate model
+      const modelConfig = this.requireModel(options.model, ModelCapability.COMPLETION);
+      
+      const estimatedPromptTokens = this.countTokens(prompt, options.model);
+      this.checkContextWindow(modelConfig, estimatedPromptTokens, options.maxTokens || modelConfig.maxTokens);
+      reservation = await this.rateLimiter.acquire(estimatedPromptTokens + (options.maxTokens || modelConfig.maxTokens), options.cancellationToken);
+      
+      if (this.isOllama()) {
+        const request: OllamaGenerateRequest = {
+          model: options.model,
+          prompt,
+          stream: false,
+          options: this.toOllamaOptions(options)
+        };
+        
+        const response = await this.client.post<OllamaChatResponse>('/api/generate', request, {
+          cancelToken: cancelTokenSource.token,
+          timeout: options.timeout || this.config.timeout
+        });
+        
+        return this.fromOllamaResponse(response.data, response.data.response || '', reservation);
+      }
+      
+      const response = await this.client.post<OpenAICompatibleChatResponse>('/completions', {
+        model: options.model,
+        prompt,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        top_p: options.topP,
+        stop: options.stop
+      }, {
+        cancelToken: cancelTokenSource.token,
+        timeout: options.timeout || this.config.timeout
+      });
+      
+      return this.fromOpenAICompatibleResponse(response.data, response.data.choices[0].text || '', reservation);
+    } catch (error) {
+      console.error('Local completion error:', error);
+      throw this.toProviderError(error);
+    } finally {
+      this.releaseCancelTokenSource(cancelTokenSource);
+      reservation?.release();
+    }
+  }
+  
+  /**
+   * Sends a chat completion request to the local server
+   * @param messages The chat messages
+   * @param options The request options
+   */
+  public async chat(messages: any[], options: ApiRequestOptions): Promise<ApiResponse> {
+    const cancelTokenSource = this.createCancelTokenSource(options.cancellationToken);
+    let reservation: RateLimitReservation | undefined;
+    
+    try {
+      // Validate model
+      const modelConfig = this.requireModel(options.model, ModelCapability.CHAT);
+      
+      this.validateToolSupport(modelConfig, options);
+      this.validateImageSupport(modelConfig, messages);
+      
+      const estimatedPromptTokens = this.countPromptTokens(messages, options.model);
+      this.checkContextWindow(modelConfig, estimatedPromptTokens, options.maxTokens || modelConfig.maxTokens);
+      reservation = await this.rateLimiter.acquire(estimatedPromptTokens + (options.maxTokens || modelConfig.maxTokens), options.cancellationToken);
+      
+      const tools = options.toolChoice === 'none' ? undefined : toOpenAITools(options.tools);
+      
+      if (this.isOllama()) {
+        const request: OllamaChatRequest = {
+          model: options.model,
+          messages: this.toOllamaMessages(messages),
+          stream: false,
+          options: this.toOllamaOptions(options),
+          tools,
+          format: options.responseSchema
+        };
+        
+        const response = await this.client.post<OllamaChatResponse>('/api/chat', request, {
+          cancelToken: cancelTokenSource.token,
+          timeout: options.timeout || this.config.timeout
+        });
+        
+        // Ollama doesn't assign ids to tool calls, so generate them for the tool result round trip
+        const toolCalls: ToolCall[] | undefined = response.data.message?.tool_calls?.map((call, index) => ({
+          id: `call_${Date.now()}_${index}`,
+          name: call.function.name,
+          arguments: this.parseToolArguments(call.function.arguments)
+        }));
+        
+        return {
+          ...this.fromOllamaResponse(response.data, response.data.message?.content || '', reservation),
+          toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined
+        };
+      }
+      
+      const response = await this.client.post<OpenAICompatibleChatResponse>('/chat/completions', {
+        model: options.model,
+        messages: toOpenAIMessages(messages),
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        top_p: options.topP,
+        frequency_penalty: options.frequencyPenalty,
+        presence_penalty: options.presencePenalty,
+        stop: options.stop,
+        tools,
+        tool_choice: tools ? toOpenAIToolChoice(options.toolChoice) : undefined,
+        response_format: toOpenAIResponseFormat(modelConfig, options)
+      }, {
+        cancelToken: cancelTokenSource.token,
+        timeout: options.timeout || this.config.timeout
+      });
+      
+      const message = response.data.choices[0].message;
+      const toolCalls: ToolCall[] | undefined = message?.tool_calls?.map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: this.parseToolArguments(call.function.arguments)
+      }));
+      
+      return {
+        ...this.fromOpenAICompatibleResponse(response.data, message?.content || '', reservation),
+        toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined
+      };
+    } catch (error) {
+      console.error('Local chat error:', error);
+      throw this.toProviderError(error);
+    } finally {
+      this.releaseCancelTokenSource(cancelTokenSource);
+      reservation?.release();
+    }
+  }
+  
+  /**
+   * Sends a streaming chat completion request to the local server
+   * @param messages The chat messages
+   * @param options The request options
+   * @param callback The callback to receive chunks of the response
+   */
+  public async streamingChat(
+    messages: any[],
+    options: ApiRequestOptions,
+    callback: (chunk: string, done: boolean) => void
+  ): Promise<ApiResponse> {
+    const cancelTokenSource = this.createCancelTokenSource(options.cancellationToken);
+    let reservation: RateLimitReservation | undefined;
+    
+    try {
+      // Validate model
+      const modelConfig = this.requireModel(options.model, ModelCapability.CHAT);
+      
+      this.validateImageSupport(modelConfig, messages);
+      
+      const estimatedPromptTokens = this.countPromptTokens(messages, options.model);
+      this.checkContextWindow(modelConfig, estimatedPromptTokens, options.maxTokens || modelConfig.maxTokens);
+      reservation = await this.rateLimiter.acquire(estimatedPromptTokens + (options.maxTokens || modelConfig.maxTokens), options.cancellationToken);
+      
+      const path = this.isOllama() ? '/api/chat' : '/chat/completions';
+      const request = this.isOllama()
+        ? {
+          model: options.model,
+          messages: this.toOllamaMessages(messages),
+          stream: true,
+          options: this.toOllamaOptions(options)
+        }
+        : {
+          model: options.model,
+          messages: toOpenAIMessages(messages),
+          max_tokens: options.maxTokens,
+          temperature: options.temperature,
+          top_p: options.topP,
+          frequency_penalty: options.frequencyPenalty,
+          presence_penalty: options.presencePenalty,
+          stop: options.stop,
+          stream: true
+        };
+      
+      // Send request
+      const response = await this.client.post<NodeJS.ReadableStream>(path, request, {
+        cancelToken: cancelTokenSource.token,
+        timeout: options.timeout || this.config.timeout,
+        responseType: 'stream'
+      });
+      
+      // Process streaming response
+      let fullContent = '';
+      let responseId = '';
+      let responseModel = options.model;
+      let responseCreated = Math.floor(Date.now() / 1000);
+      let finishReason = '';
+      let promptTokens = 0;
+      let completionTokens = 0;
+      
+      const stream = response.data;
+      
+      // Ollama streams newline-delimited JSON, OpenAI-compatible servers stream SSE "data:" lines
+      const processLine = (line: string) => {
+        const trimmed = line.trim();
+        
+        if (trimmed === '' || trimmed === 'data: [DONE]') {
+          return;
+        }
+        
+        if (this.isOllama()) {
+          const data = JSON.parse(trimmed) as OllamaChatResponse;
+          const content = data.message?.content || '';
+          
+          responseModel = data.model || responseModel;
+          fullContent += content;
+          
+          if (content) {
+            callback(content, false);
+          }
+          
+          if (data.done) {
+            finishReason = data.done_reason || 'stop';
+            promptTokens = data.prompt_eval_count || 0;
+            completionTokens = data.eval_count || 0;
+          }
+        } else if (trimmed.startsWith('data: ')) {
+          const data = JSON.parse(trimmed.slice(6)) as OpenAICompatibleStreamChunk;
+          
+          if (!responseId) {
+            responseId = data.id;
+            responseModel = data.model || responseModel;
+            responseCreated = data.created || responseCreated;
+          }
+          
+          const content = data.choices[0]?.delta.content || '';
+          fullContent += content;
+          
+          if (data.choices[0]?.finish_reason) {
+            finishReason = data.choices[0].finish_reason;
+          }
+          
+          if (content) {
+            callback(content, false);
+          }
+        }
+      };
+      
+      return this.trackStream(cancelTokenSource, new Promise<ApiResponse>((resolve, reject) => {
+        let buffer = '';
+        
+        stream.on('data', (chunk: Buffer) => {
+          try {
+            buffer += chunk.toString();
+            
+            // Process complete lines
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            
+            for (const line of lines) {
+              processLine(line);
+            }
+          } catch (error) {
+            console.error('Error processing stream chunk:', error);
+            reject(new ProviderError(error instanceof Error ? error.message : String(error), 'stream_processing_error', 'unknown'));
+          }
+        });
+        
+        stream.on('end', () => {
+          // Process any remaining data in buffer
+          try {
+            processLine(buffer);
+          } catch (error) {
+            console.error('Error processing final stream chunk:', error);
+          }
+          
+          // Signal completion
+          callback('', true);
+          
+          // Fall back to estimates when the server didn't report token counts
+          if (promptTokens === 0) {
+            promptTokens = estimatedPromptTokens;
+          }
+          
+          if (completionTokens === 0) {
+            completionTokens = this.countTokens(fullContent, options.model);
+          }
+          
+          const totalTokens = promptTokens + completionTokens;
+          
+          // Settle the rate limit reservation with the real usage
+          reservation?.release(totalTokens);
+          
+          resolve({
+            id: responseId || `local_${Date.now()}`,
+            model: responseModel,
+            content: fullContent,
+            usage: {
+              promptTokens,
+              completionTokens,
+              totalTokens
+            },
+            finishReason,
+            created: responseCreated
+          });
+        });
+        
+        stream.on('error', (error) => {
+          console.error('Stream error:', error);
+          reject(new ProviderError(error instanceof Error ? error.message : String(error), 'stream_error', 'unknown'));
+        });
+      }), reservation);
+    } catch (error) {
+      this.releaseCancelTokenSource(cancelTokenSource);
+      reservation?.release();
+      
+      console.error('Local streaming chat error:', error);
+      throw this.toProviderError(error);
+    }
+  }
+  
+  /**
+   * Generates embeddings for a text
+   * @param text The text to generate embeddings for
+   * @param options The request options
+   */
+  public async embeddings(text: string, options: ApiRequestOptions): Promise<number[]> {
+    const cancelTokenSource = this.createCancelTokenSource(options.cancellationToken);
+    let reservation: RateLimitReservation | undefined;
+    
+    try {
+      // Validate model
+      const modelConfig = this.requireModel(options.model, ModelCapability.EMBEDDING);
+      
+      const estimatedTokens = this.countTokens(text, options.model);
+      this.checkContextWindow(modelConfig, estimatedTokens, 0);
+      reservation = await this.rateLimiter.acquire(estimatedTokens, options.cancellationToken);
+      
+      let embedding: number[];
+      
+      if (this.isOllama()) {
+        const response = await this.client.post<OllamaEmbeddingResponse>('/api/embeddings', {
+          model: options.model,
+          prompt: text
+        }, {
+          cancelToken: cancelTokenSource.token,
+          timeout: options.timeout || this.config.timeout
+        });
+        
+        embedding = response.data.embedding;
+      } else {
+        const response = await this.client.post<OpenAICompatibleEmbeddingResponse>('/embeddings', {
+          model: options.model,
+          input: text
+        }, {
+          cancelToken: cancelTokenSource.token,
+          timeout: options.timeout || this.config.timeout
+        });
+        
+        embedding = response.data.data[0].embedding;
+      }
+      
+      return embedding;
+    } catch (error) {
+      console.error('Local embeddings error:', error);
+      throw this.toProviderError(error);
+    } finally {
+      this.releaseCancelTokenSource(cancelTokenSource);
+      reservation?.release();
+    }
+  }
+  
+  private isOllama(): boolean {
+    return this.config.apiFormat === 'ollama';
+  }
+  
+  private toOllamaMessages(messages: any[]): OllamaChatMessage[] {
+    return messages.map(message => {
+      if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+        return {
+          role: 'assistant',
+          content: message.content || '',
+          tool_calls: (message.toolCalls as ToolCall[]).map(call => ({
+            function: {
+              name: call.name,
+              arguments: call.arguments
+            }
+          }))
+        };
+      }
+      
+      return {
+        role: message.role,
+        content: message.content,
+        images: message.images && message.images.length > 0 ? (message.images as ImageAttachment[]).map(image => image.data) : undefined
+      };
+    });
+  }
+  
+  private toOllamaOptions(options: ApiRequestOptions): OllamaRequestOptions {
+    return {
+      temperature: options.temperature,
+      top_p: options.topP,
+      num_predict: options.maxTokens,
+      frequency_penalty: options.frequencyPenalty,
+      presence_penalty: options.presencePenalty,
+      stop: options.stop
+    };
+  }
+  
+  private fromOllamaResponse(data: OllamaChatResponse, content: string, reservation?: RateLimitReservation): ApiResponse {
+    const promptTokens = data.prompt_eval_count || 0;
+    const completionTokens = data.eval_count || 0;
+    
+    reservation?.release(promptTokens + completionTokens);
+    
+    return {
+      id: `local_${Date.now()}`,
+      model: data.model,
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      },
+      finishReason: data.done_reason || (data.done ? 'stop' : undefined),
+      created: data.created_at ? Math.floor(new Date(data.created_at).getTime() / 1000) : Math.floor(Date.now() / 1000)
+    };
+  }
+  
+  private fromOpenAICompatibleResponse(data: OpenAICompatibleChatResponse, content: string, reservation?: RateLimitReservation): ApiResponse {
+    // Several OpenAI-compatible servers omit usage, so fall back to counting the completion ourselves
+    const promptTokens = data.usage?.prompt_tokens || 0;
+    const completionTokens = data.usage?.completion_tokens || this.countTokens(content, data.model);
+    const totalTokens = data.usage?.total_tokens || promptTokens + completionTokens;
+    
+    reservation?.release(totalTokens);
+    
+    return {
+      id: data.id || `local_${Date.now()}`,
+      model: data.model,
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens
+      },
+      finishReason: data.choices[0].finish_reason,
+      created: data.created || Math.floor(Date.now() / 1000)
+    };
+  }
+}
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, CancelTokenSource } from 'axios';
-import { BaseApiProvider, ApiProviderConfig, ApiRequestOptions, ApiResponse, ModelCapability } from './base-provider';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { BaseApiProvider, ApiProviderConfig, ApiRequestOptions, ApiResponse, ImageAttachment, JsonSchema, ModelCapability, ModelConfig, ToolChoice, ToolDefinition } from './base-provider';
+import { ProviderError } from './errors';
+import { RateLimitReservation } from './rate-limiter';
 import { SecurityService } from '../../security';
 
 // OpenAI specific types
@@ -26,16 +28,55 @@ interface OpenAIChatRequest {
   presence_penalty?: number;
   stop?: string[];
   stream?: boolean;
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
+  response_format?: OpenAIResponseFormat;
 }
 
-interface OpenAIChatMessage {
-  role: 'system' | 'user' | 'assistant' | 'function';
-  content: string;
+export interface OpenAIChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
+  content: string | OpenAIContentPart[] | null;
   name?: string;
   function_call?: {
     name: string;
     arguments: string;
   };
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: {
+      [key: string]: any;
+    };
+  };
+}
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export type OpenAIToolChoice = 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+
+export interface OpenAIResponseFormat {
+  type: 'json_schema';
+  json_schema: {
+    name: string;
+    schema: JsonSchema;
+  };
 }
 
 interface OpenAIEmbeddingRequest {
@@ -68,7 +109,8 @@ interface OpenAIChatResponse {
   model: string;
   choices: {
     index: number;
-    message: OpenAIChatMessage;
+    // Responses always carry plain text content
+    message: OpenAIChatMessage & { content: string | null };
     finish_reason: string;
   }[];
   usage: {
@@ -107,10 +149,112 @@ interface OpenAIStreamChunk {
   }[];
 }
 
+/**
+ * Converts provider-neutral chat messages to the OpenAI wire format.
+ * Messages already in OpenAI format pass through unchanged.
+ * @param messages The chat messages
+ */
+export function toOpenAIMessages(messages: any[]): OpenAIChatMessage[] {
+  return messages.map(message => {
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call: { id: string; name: string; arguments: any }) => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments || {})
+          }
+        }))
+      } as OpenAIChatMessage;
+    }
+    
+    if (message.role === 'tool' && message.toolCallId) {
+      return {
+        role: 'tool',
+        content: message.content,
+        tool_call_id: message.toolCallId
+      } as OpenAIChatMessage;
+    }
+    
+    // Images travel as data URLs next to the text
+    if (message.role === 'user' && message.images && message.images.length > 0) {
+      return {
+        role: 'user',
+        content: [
+          { type: 'text', text: message.content },
+          ...(message.images as ImageAttachment[]).map(image => ({
+            type: 'image_url',
+            image_url: { url: `data:${image.mediaType};base64,${image.data}` }
+          }))
+        ]
+      } as OpenAIChatMessage;
+    }
+    
+    return message as OpenAIChatMessage;
+  });
+}
+
+/**
+ * Converts provider-neutral tool definitions to the OpenAI wire format
+ * @param tools The tool definitions
+ */
+export function toOpenAITools(tools?: ToolDefinition[]): OpenAITool[] | undefined {
+  if (!tools || tools.length === 0) {
+    return undefined;
+  }
+  
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }
+  }));
+}
+
+/**
+ * Converts a provider-neutral tool choice to the OpenAI wire format
+ * @param choice The tool choice
+ */
+export function toOpenAIToolChoice(choice?: ToolChoice): OpenAIToolChoice | undefined {
+  if (!choice) {
+    return undefined;
+  }
+  
+  if (typeof choice === 'string') {
+    return choice;
+  }
+  
+  return { type: 'function', function: { name: choice.name } };
+}
+
+/**
+ * Gets the response_format that constrains a model to the requested schema
+ * @param modelConfig The model the request targets
+ * @param options The request options
+ * @returns The response format, or undefined if no schema was requested or the model has no structured output mode
+ */
+export function toOpenAIResponseFormat(modelConfig: ModelConfig, options: ApiRequestOptions): OpenAIResponseFormat | undefined {
+  if (!options.responseSchema || !modelConfig.capabilities.includes(ModelCapability.STRUCTURED_OUTPUT)) {
+    return undefined;
+  }
+  
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: 'structured_response',
+      schema: options.responseSchema
+    }
+  };
+}
+
 // OpenAI API provider implementation
 export class OpenAIProvider extends BaseApiProvider {
   private client: AxiosInstance;
-  private cancelTokenSource?: CancelTokenSource;
   
   constructor(
     config: ApiProviderConfig,
@@ -134,6 +278,9 @@ export class OpenAIProvider extends BaseApiProvider {
       }
       return config;
     });
+    
+    // Learn the real rate limits from the response headers
+    this.trackRateLimitHeaders(this.client);
   }
   
   /**
@@ -142,33 +289,22 @@ export class OpenAIProvider extends BaseApiProvider {
    * @param options The request options
    */
   public async completion(prompt: string, options: ApiRequestOptions): Promise<ApiResponse> {
+    const cancelTokenSource = this.createCancelTokenSource(options.cancellationToken);
+    let reservation: RateLimitReservation | undefined;
+    
     try {
       // Validate model
-      const modelConfig = this.getModel(options.model);
-      
-      if (!modelConfig) {
-        throw new Error(`Model ${options.model} not found or not enabled`);
-      }
-      
-      if (!modelConfig.capabilities.includes(ModelCapability.COMPLETION)) {
-        throw new Error(`Model ${options.model} does not support completion`);
-      }
+      const modelConfig = this.requireModel(options.model, ModelCapability.COMPLETION);
       
-      // Estimate token usage
-      const estimatedPromptTokens = Math.ceil(prompt.length / 4); // Rough estimate
+      // Count token usage
+      const estimatedPromptTokens = this.countTokens(prompt, options.model);
       const estimatedMaxTokens = options.maxTokens || modelConfig.maxTokens;
       const estimatedTotalTokens = estimatedPromptTokens + estimatedMaxTokens;
       
-      // Check rate limits
-      const rateLimitCheck = this.checkRateLimit(estimatedTotalTokens);
+      this.checkContextWindow(modelConfig, estimatedPromptTokens, estimatedMaxTokens);
       
-      if (!rateLimitCheck.allowed) {
-        const error = new Error(`Rate limit exceeded. Try again in ${rateLimitCheck.retryAfter} seconds.`);
-        error['code'] = 'rate_limit_exceeded';
-        error['type'] = 'rate_limit';
-        error['retryAfter'] = rateLimitCheck.retryAfter;
-        throw error;
-      }
+      // Wait for rate limit capacity
+      reservation = await this.rateLimiter.acquire(estimatedTotalTokens, options.cancellationToken);
       
       // Prepare request
       const request: OpenAICompletionRequest = {
@@ -182,21 +318,18 @@ export class OpenAIProvider extends BaseApiProvider {
         stop: options.stop
       };
       
-      // Create cancel token
-      this.cancelTokenSource = axios.CancelToken.source();
-      
       // Send request
       const response = await this.client.post<OpenAICompletionResponse>(
         '/completions',
         request,
         {
-          cancelToken: this.cancelTokenSource.token,
+          cancelToken: cancelTokenSource.token,
           timeout: options.timeout || this.config.timeout
         }
       );
       
-      // Update rate limit counters
-      this.updateRateLimitCounters(response.data.usage.total_tokens);
+      // Settle the rate limit reservation with the real usage
+      reservation.release(response.data.usage.total_tokens);
       
       // Transform response
       return {
@@ -213,53 +346,10 @@ export class OpenAIProvider extends BaseApiProvider {
       };
     } catch (error) {
       console.error('OpenAI completion error:', error);
-      
-      if (axios.isCancel(error)) {
-        const cancelError = new Error('Request was cancelled');
-        cancelError['code'] = 'request_cancelled';
-        cancelError['type'] = 'unknown';
-        throw cancelError;
-      }
-      
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const data = error.response?.data;
-        
-        if (status === 429) {
-          const rateLimitError = new Error(data?.error?.message || 'Rate limit exceeded');
-          rateLimitError['code'] = 'rate_limit_exceeded';
-          rateLimitError['type'] = 'rate_limit';
-          rateLimitError['retryAfter'] = parseInt(error.response?.headers['retry-after'] || '60');
-          throw rateLimitError;
-        } else if (status === 401) {
-          const authError = new Error(data?.error?.message || 'Invalid API key');
-          authError['code'] = 'invalid_api_key';
-          authError['type'] = 'authentication';
-          throw authError;
-        } else if (status === 400) {
-          const requestError = new Error(data?.error?.message || 'Invalid request');
-          requestError['code'] = 'invalid_request';
-          requestError['type'] = 'invalid_request';
-          throw requestError;
-        } else if (status && status >= 500) {
-          const serverError = new Error(data?.error?.message || 'OpenAI server error');
-          serverError['code'] = 'server_error';
-          serverError['type'] = 'server_error';
-          throw serverError;
-        } else if (error.code === 'ECONNABORTED') {
-          const timeoutError = new Error('Request timed out');
-          timeoutError['code'] = 'timeout';
-          timeoutError['type'] = 'timeout';
-          throw timeoutError;
-        }
-      }
-      
-      const unknownError = new Error(error instanceof Error ? error.message : String(error));
-      unknownError['code'] = 'unknown_error';
-      unknownError['type'] = 'unknown';
-      throw unknownError;
+      throw this.toProviderError(error);
     } finally {
-      this.cancelTokenSource = undefined;
+      this.releaseCancelTokenSource(cancelTokenSource);
+      reservation?.release();
     }
   }
   
@@ -269,126 +359,82 @@ export class OpenAIProvider extends BaseApiProvider {
    * @param options The request options
    */
   public async chat(messages: any[], options: ApiRequestOptions): Promise<ApiResponse> {
+    const cancelTokenSource = this.createCancelTokenSource(options.cancellationToken);
+    let reservation: RateLimitReservation | undefined;
+    
     try {
       // Validate model
-      const modelConfig = this.getModel(options.model);
-      
-      if (!modelConfig) {
-        throw new Error(`Model ${options.model} not found or not enabled`);
-      }
+      const modelConfig = this.requireModel(options.model, ModelCapability.CHAT);
       
-      if (!modelConfig.capabilities.includes(ModelCapability.CHAT)) {
-        throw new Error(`Model ${options.model} does not support chat`);
-      }
+      this.validateToolSupport(modelConfig, options);
+      this.validateImageSupport(modelConfig, messages);
       
-      // Estimate token usage
-      const estimatedPromptTokens = Math.ceil(
-        messages.reduce((acc, msg) => acc + (msg.content?.length || 0), 0) / 4
-      );
+      // Count token usage
+      const estimatedPromptTokens = this.countPromptTokens(messages, options.model);
       const estimatedMaxTokens = options.maxTokens || modelConfig.maxTokens;
       const estimatedTotalTokens = estimatedPromptTokens + estimatedMaxTokens;
       
-      // Check rate limits
-      const rateLimitCheck = this.checkRateLimit(estimatedTotalTokens);
+      this.checkContextWindow(modelConfig, estimatedPromptTokens, estimatedMaxTokens);
       
-      if (!rateLimitCheck.allowed) {
-        const error = new Error(`Rate limit exceeded. Try again in ${rateLimitCheck.retryAfter} seconds.`);
-        error['code'] = 'rate_limit_exceeded';
-        error['type'] = 'rate_limit';
-        error['retryAfter'] = rateLimitCheck.retryAfter;
-        throw error;
-      }
+      // Wait for rate limit capacity
+      reservation = await this.rateLimiter.acquire(estimatedTotalTokens, options.cancellationToken);
       
       // Prepare request
       const request: OpenAIChatRequest = {
         model: options.model,
-        messages: messages as OpenAIChatMessage[],
+        messages: toOpenAIMessages(messages),
         max_tokens: options.maxTokens,
         temperature: options.temperature,
         top_p: options.topP,
         frequency_penalty: options.frequencyPenalty,
         presence_penalty: options.presencePenalty,
-        stop: options.stop
+        stop: options.stop,
+        tools: toOpenAITools(options.tools),
+        tool_choice: options.tools && options.tools.length > 0 ? toOpenAIToolChoice(options.toolChoice) : undefined,
+        response_format: toOpenAIResponseFormat(modelConfig, options)
       };
       
-      // Create cancel token
-      this.cancelTokenSource = axios.CancelToken.source();
-      
       // Send request
       const response = await this.client.post<OpenAIChatResponse>(
         '/chat/completions',
         request,
         {
-          cancelToken: this.cancelTokenSource.token,
+          cancelToken: cancelTokenSource.token,
           timeout: options.timeout || this.config.timeout
         }
       );
       
-      // Update rate limit counters
-      this.updateRateLimitCounters(response.data.usage.total_tokens);
+      // Settle the rate limit reservation with the real usage
+      reservation.release(response.data.usage.total_tokens);
+      
+      // Extract tool calls, if the model made any
+      const message = response.data.choices[0].message;
+      const toolCalls = message.tool_calls?.map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: this.parseToolArguments(call.function.arguments)
+      }));
       
       // Transform response
       return {
         id: response.data.id,
         model: response.data.model,
-        content: response.data.choices[0].message.content,
+        content: message.content || '',
         usage: {
           promptTokens: response.data.usage.prompt_tokens,
           completionTokens: response.data.usage.completion_tokens,
           totalTokens: response.data.usage.total_tokens
         },
         finishReason: response.data.choices[0].finish_reason,
+        toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined,
         created: response.data.created
       };
     } catch (error) {
       console.error('OpenAI chat error:', error);
-      
-      if (axios.isCancel(error)) {
-        const cancelError = new Error('Request was cancelled');
-        cancelError['code'] = 'request_cancelled';
-        cancelError['type'] = 'unknown';
-        throw cancelError;
-      }
-      
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const data = error.response?.data;
-        
-        if (status === 429) {
-          const rateLimitError = new Error(data?.error?.message || 'Rate limit exceeded');
-          rateLimitError['code'] = 'rate_limit_exceeded';
-          rateLimitError['type'] = 'rate_limit';
-          rateLimitError['retryAfter'] = parseInt(error.response?.headers['retry-after'] || '60');
-          throw rateLimitError;
-        } else if (status === 401) {
-          const authError = new Error(data?.error?.message || 'Invalid API key');
-          authError['code'] = 'invalid_api_key';
-          authError['type'] = 'authentication';
-          throw authError;
-        } else if (status === 400) {
-          const requestError = new Error(data?.error?.message || 'Invalid request');
-          requestError['code'] = 'invalid_request';
-          requestError['type'] = 'invalid_request';
-          throw requestError;
-        } else if (status && status >= 500) {
-          const serverError = new Error(data?.error?.message || 'OpenAI server error');
-          serverError['code'] = 'server_error';
-          serverError['type'] = 'server_error';
-          throw serverError;
-        } else if (error.code === 'ECONNABORTED') {
-          const timeoutError = new Error('Request timed out');
-          timeoutError['code'] = 'timeout';
-          timeoutError['type'] = 'timeout';
-          throw timeoutError;
-        }
-      }
-      
-      const unknownError = new Error(error instanceof Error ? error.message : String(error));
-      unknownError['code'] = 'unknown_error';
-      unknownError['type'] = 'unknown';
-      throw unknownError;
+      throw this.toProviderError(error);
     } finally {
-      this.cancelTokenSource = undefined;
+      this.releaseCancelTokenSource(cancelTokenSource);
+      reservation?.release();
     }
   }
   
@@ -403,40 +449,29 @@ export class OpenAIProvider extends BaseApiProvider {
     options: ApiRequestOptions,
     callback: (chunk: string, done: boolean) => void
   ): Promise<ApiResponse> {
+    const cancelTokenSource = this.createCancelTokenSource(options.cancellationToken);
+    let reservation: RateLimitReservation | undefined;
+    
     try {
       // Validate model
-      const modelConfig = this.getModel(options.model);
+      const modelConfig = this.requireModel(options.model, ModelCapability.CHAT);
       
-      if (!modelConfig) {
-        throw new Error(`Model ${options.model} not found or not enabled`);
-      }
+      this.validateImageSupport(modelConfig, messages);
       
-      if (!modelConfig.capabilities.includes(ModelCapability.CHAT)) {
-        throw new Error(`Model ${options.model} does not support chat`);
-      }
-      
-      // Estimate token usage
-      const estimatedPromptTokens = Math.ceil(
-        messages.reduce((acc, msg) => acc + (msg.content?.length || 0), 0) / 4
-      );
+      // Count token usage
+      const estimatedPromptTokens = this.countPromptTokens(messages, options.model);
       const estimatedMaxTokens = options.maxTokens || modelConfig.maxTokens;
       const estimatedTotalTokens = estimatedPromptTokens + estimatedMaxTokens;
       
-      // Check rate limits
-      const rateLimitCheck = this.checkRateLimit(estimatedTotalTokens);
+      this.checkContextWindow(modelConfig, estimatedPromptTokens, estimatedMaxTokens);
       
-      if (!rateLimitCheck.allowed) {
-        const error = new Error(`Rate limit exceeded. Try again in ${rateLimitCheck.retryAfter} seconds.`);
-        error['code'] = 'rate_limit_exceeded';
-        error['type'] = 'rate_limit';
-        error['retryAfter'] = rateLimitCheck.retryAfter;
-        throw error;
-      }
+      // Wait for rate limit capacity
+      reservation = await this.rateLimiter.acquire(estimatedTotalTokens, options.cancellationToken);
       
       // Prepare request
       const request: OpenAIChatRequest = {
         model: options.model,
-        messages: messages as OpenAIChatMessage[],
+        messages: toOpenAIMessages(messages),
         max_tokens: options.maxTokens,
         temperature: options.temperature,
         top_p: options.topP,
@@ -446,15 +481,12 @@ export class OpenAIProvider extends BaseApiProvider {
         stream: true
       };
       
-      // Create cancel token
-      this.cancelTokenSource = axios.CancelToken.source();
-      
       // Send request
       const response = await this.client.post<NodeJS.ReadableStream>(
         '/chat/completions',
         request,
         {
-          cancelToken: this.cancelTokenSource.token,
+          cancelToken: cancelTokenSource.token,
           timeout: options.timeout || this.config.timeout,
           responseType: 'stream'
         }
@@ -469,7 +501,7 @@ export class OpenAIProvider extends BaseApiProvider {
       
       const stream = response.data;
       
-      return new Promise<ApiResponse>((resolve, reject) => {
+      return this.trackStream(cancelTokenSource, new Promise<ApiResponse>((resolve, reject) => {
         let buffer = '';
         
         stream.on('data', (chunk: Buffer) => {
@@ -516,10 +548,7 @@ export class OpenAIProvider extends BaseApiProvider {
             }
           } catch (error) {
             console.error('Error processing stream chunk:', error);
-            const streamError = new Error(error instanceof Error ? error.message : String(error));
-            streamError['code'] = 'stream_processing_error';
-            streamError['type'] = 'unknown';
-            reject(streamError);
+            reject(new ProviderError(error instanceof Error ? error.message : String(error), 'stream_processing_error', 'unknown'));
           }
         });
         
@@ -553,12 +582,12 @@ export class OpenAIProvider extends BaseApiProvider {
           // Signal completion
           callback('', true);
           
-          // Estimate token usage
-          const completionTokens = Math.ceil(fullContent.length / 4);
+          // The stream doesn't report usage, so count it
+          const completionTokens = this.countTokens(fullContent, options.model);
           const totalTokens = estimatedPromptTokens + completionTokens;
           
-          // Update rate limit counters
-          this.updateRateLimitCounters(totalTokens);
+          // Settle the rate limit reservation with the real usage
+          reservation?.release(totalTokens);
           
           // Resolve with final response
           resolve({
@@ -577,61 +606,15 @@ export class OpenAIProvider extends BaseApiProvider {
         
         stream.on('error', (error) => {
           console.error('Stream error:', error);
-          const streamError = new Error(error instanceof Error ? error.message : String(error));
-          streamError['code'] = 'stream_error';
-          streamError['type'] = 'unknown';
-          reject(streamError);
+          reject(new ProviderError(error instanceof Error ? error.message : String(error), 'stream_error', 'unknown'));
         });
-      });
+      }), reservation);
     } catch (error) {
-      console.error('OpenAI streaming chat error:', error);
-      
-      if (axios.isCancel(error)) {
-        const cancelError = new Error('Request was cancelled');
-        cancelError['code'] = 'request_cancelled';
-        cancelError['type'] = 'unknown';
-        throw cancelError;
-      }
-      
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const data = error.response?.data;
-        
-        if (status === 429) {
-          const rateLimitError = new Error(data?.error?.message || 'Rate limit exceeded');
-          rateLimitError['code'] = 'rate_limit_exceeded';
-          rateLimitError['type'] = 'rate_limit';
-          rateLimitError['retryAfter'] = parseInt(error.response?.headers['retry-after'] || '60');
-          throw rateLimitError;
-        } else if (status === 401) {
-          const authError = new Error(data?.error?.message || 'Invalid API key');
-          authError['code'] = 'invalid_api_key';
-          authError['type'] = 'authentication';
-          throw authError;
-        } else if (status === 400) {
-          const requestError = new Error(data?.error?.message || 'Invalid request');
-          requestError['code'] = 'invalid_request';
-          requestError['type'] = 'invalid_request';
-          throw requestError;
-        } else if (status && status >= 500) {
-          const serverError = new Error(data?.error?.message || 'OpenAI server error');
-          serverError['code'] = 'server_error';
-          serverError['type'] = 'server_error';
-          throw serverError;
-        } else if (error.code === 'ECONNABORTED') {
-          const timeoutError = new Error('Request timed out');
-          timeoutError['code'] = 'timeout';
-          timeoutError['type'] = 'timeout';
-          throw timeoutError;
-        }
-      }
+      this.releaseCancelTokenSource(cancelTokenSource);
+      reservation?.release();
       
-      const unknownError = new Error(error instanceof Error ? error.message : String(error));
-      unknownError['code'] = 'unknown_error';
-      unknownError['type'] = 'unknown';
-      throw unknownError;
-    } finally {
-      this.cancelTokenSource = undefined;
+      console.error('OpenAI streaming chat error:', error);
+      throw this.toProviderError(error);
     }
   }
   
@@ -641,31 +624,20 @@ export class OpenAIProvider extends BaseApiProvider {
    * @param options The request options
    */
   public async embeddings(text: string, options: ApiRequestOptions): Promise<number[]> {
+    const cancelTokenSource = this.createCancelTokenSource(options.cancellationToken);
+    let reservation: RateLimitReservation | undefined;
+    
     try {
       // Validate model
-      const modelConfig = this.getModel(options.model);
-      
-      if (!modelConfig) {
-        throw new Error(`Model ${options.model} not found or not enabled`);
-      }
-      
-      if (!modelConfig.capabilities.includes(ModelCapability.EMBEDDING)) {
-        throw new Error(`Model ${options.model} does not support embeddings`);
-      }
+      const modelConfig = this.requireModel(options.model, ModelCapability.EMBEDDING);
       
-      // Estimate token usage
-      const estimatedTokens = Math.ceil(text.length / 4);
+      // Count token usage
+      const estimatedTokens = this.countTokens(text, options.model);
       
-      // Check rate limits
-      const rateLimitCheck = this.checkRateLimit(estimatedTokens);
+      this.checkContextWindow(modelConfig, estimatedTokens, 0);
       
-      if (!rateLimitCheck.allowed) {
-        const error = new Error(`Rate limit exceeded. Try again in ${rateLimitCheck.retryAfter} seconds.`);
-        error['code'] = 'rate_limit_exceeded';
-        error['type'] = 'rate_limit';
-        error['retryAfter'] = rateLimitCheck.retryAfter;
-        throw error;
-      }
+      // Wait for rate limit capacity
+      reservation = await this.rateLimiter.acquire(estimatedTokens, options.cancellationToken);
       
       // Prepare request
       const request: OpenAIEmbeddingRequest = {
@@ -673,83 +645,28 @@ export class OpenAIProvider extends BaseApiProvider {
         input: text
       };
       
-      // Create cancel token
-      this.cancelTokenSource = axios.CancelToken.source();
-      
       // Send request
       const response = await this.client.post<OpenAIEmbeddingResponse>(
         '/embeddings',
         request,
         {
-          cancelToken: this.cancelTokenSource.token,
+          cancelToken: cancelTokenSource.token,
           timeout: options.timeout || this.config.timeout
         }
       );
       
-      // Update rate limit counters
-      this.updateRateLimitCounters(response.data.usage.total_tokens);
+      // Settle the rate limit reservation with the real usage
+      reservation.release(response.data.usage.total_tokens);
       
       // Return embeddings
       return response.data.data[0].embedding;
     } catch (error) {
       console.error('OpenAI embeddings error:', error);
-      
-      if (axios.isCancel(error)) {
-        const cancelError = new Error('Request was cancelled');
-        cancelError['code'] = 'request_cancelled';
-        cancelError['type'] = 'unknown';
-        throw cancelError;
-      }
-      
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const data = error.response?.data;
-        
-        if (status === 429) {
-          const rateLimitError = new Error(data?.error?.message || 'Rate limit exceeded');
-          rateLimitError['code'] = 'rate_limit_exceeded';
-          rateLimitError['type'] = 'rate_limit';
-          rateLimitError['retryAfter'] = parseInt(error.response?.headers['retry-after'] || '60');
-          throw rateLimitError;
-        } else if (status === 401) {
-          const authError = new Error(data?.error?.message || 'Invalid API key');
-          authError['code'] = 'invalid_api_key';
-          authError['type'] = 'authentication';
-          throw authError;
-        } else if (status === 400) {
-          const requestError = new Error(data?.error?.message || 'Invalid request');
-          requestError['code'] = 'invalid_request';
-          requestError['type'] = 'invalid_request';
-          throw requestError;
-        } else if (status && status >= 500) {
-          const serverError = new Error(data?.error?.message || 'OpenAI server error');
-          serverError['code'] = 'server_error';
-          serverError['type'] = 'server_error';
-          throw serverError;
-        } else if (error.code === 'ECONNABORTED') {
-          const timeoutError = new Error('Request timed out');
-          timeoutError['code'] = 'timeout';
-          timeoutError['type'] = 'timeout';
-          throw timeoutError;
-        }
-      }
-      
-      const unknownError = new Error(error instanceof Error ? error.message : String(error));
-      unknownError['code'] = 'unknown_error';
-      unknownError['type'] = 'unknown';
-      throw unknownError;
+      throw this.toProviderError(error);
     } finally {
-      this.cancelTokenSource = undefined;
+      this.releaseCancelTokenSource(cancelTokenSource);
+      reservation?.release();
     }
   }
   
-  /**
-   * Cancels an ongoing request
-   */
-  public cancelRequest(): void {
-    if (this.cancelTokenSource) {
-      this.cancelTokenSource.cancel('Request cancelled by user');
-      this.cancelTokenSource = undefined;
-    }
-  }
 }
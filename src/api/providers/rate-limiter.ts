@@ -0,0 +1,281 @@
+import * as vscode from 'vscode';
+import { CancelledError, RateLimitError } from './errors';
+
+// Types
+export interface RateLimitSchedulerConfig {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxConcurrentRequests?: number;
+  // How long a request may wait in the queue before it fails with a RateLimitError
+  maxWaitMs: number;
+}
+
+export interface RateLimitReservation {
+  /**
+   * Frees the request's slot once it has finished
+   * @param actualTokens The tokens the request really used; the estimate stays charged if omitted
+   */
+  release(actualTokens?: number): void;
+}
+
+interface QueuedRequest {
+  tokens: number;
+  resolve: (reservation: RateLimitReservation) => void;
+  reject: (error: Error) => void;
+  timeout?: NodeJS.Timeout;
+  cancellationListener?: vscode.Disposable;
+}
+
+const MINUTE_MS = 60000;
+
+// Rate limit headers, OpenAI style first, then Anthropic style
+const REQUEST_LIMIT_HEADERS = ['x-ratelimit-limit-requests', 'anthropic-ratelimit-requests-limit'];
+const REQUEST_REMAINING_HEADERS = ['x-ratelimit-remaining-requests', 'anthropic-ratelimit-requests-remaining'];
+const TOKEN_LIMIT_HEADERS = ['x-ratelimit-limit-tokens', 'anthropic-ratelimit-tokens-limit'];
+const TOKEN_REMAINING_HEADERS = ['x-ratelimit-remaining-tokens', 'anthropic-ratelimit-tokens-remaining'];
+
+// Holds up to a minute's allowance and refills continuously
+class TokenBucket {
+  private available: number;
+  private lastRefill: number = Date.now();
+  
+  constructor(private capacity: number) {
+    this.available = capacity;
+  }
+  
+  // Milliseconds until the amount can be taken; requests larger than the bucket wait for a full bucket
+  waitTime(amount: number): number {
+    this.refill();
+    const missing = Math.min(amount, this.capacity) - this.available;
+    return missing > 0 ? Math.ceil(missing * MINUTE_MS / this.capacity) : 0;
+  }
+  
+  // Takes (or, with a negative amount, returns) allowance; may leave the bucket in debt
+  take(amount: number): void {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available - amount);
+  }
+  
+  setCapacity(capacity: number): void {
+    this.refill();
+    this.capacity = capacity;
+    this.available = Math.min(this.available, capacity);
+  }
+  
+  // The provider knows best what is left, so never assume more than it reports
+  limitAvailable(remaining: number): void {
+    this.refill();
+    this.available = Math.min(this.available, remaining);
+  }
+  
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.lastRefill) * this.capacity / MINUTE_MS);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Token-bucket scheduler for one provider's requests.
+ * Requests wait in a queue until there is room under the request, token and concurrency limits,
+ * instead of failing straight away. Limits come from the provider config and are corrected by
+ * the rate limit headers the provider sends back.
+ */
+export class RateLimitScheduler {
+  private requestBucket?: TokenBucket;
+  private tokenBucket?: TokenBucket;
+  private inFlight: number = 0;
+  private queue: QueuedRequest[] = [];
+  private queueTimer?: NodeJS.Timeout;
+  
+  constructor(private readonly config: RateLimitSchedulerConfig) {
+    if (config.requestsPerMinute) {
+      this.requestBucket = new TokenBucket(config.requestsPerMinute);
+    }
+    
+    if (config.tokensPerMinute) {
+      this.tokenBucket = new TokenBucket(config.tokensPerMinute);
+    }
+  }
+  
+  /**
+   * Number of requests that have been let through and haven't finished yet
+   */
+  public get inFlightRequests(): number {
+    return this.inFlight;
+  }
+  
+  /**
+   * Number of requests waiting for capacity
+   */
+  public get queuedRequests(): number {
+    return this.queue.length;
+  }
+  
+  /**
+   * Waits until a request may be sent and reserves capacity for it
+   * @param tokens The estimated number of tokens the request will use
+   * @param cancellationToken Cancels the wait
+   * @returns A reservation that must be released when the request has finished
+   */
+  public acquire(tokens: number, cancellationToken?: vscode.CancellationToken): Promise<RateLimitReservation> {
+    if (cancellationToken?.isCancellationRequested) {
+      return Promise.reject(new CancelledError());
+    }
+    
+    const waitTime = this.getWaitTime(tokens);
+    
+    if (this.queue.length === 0 && waitTime === 0 && !this.isAtConcurrencyLimit()) {
+      return Promise.resolve(this.reserve(tokens));
+    }
+    
+    // Don't queue a request that is bound to time out
+    if (waitTime > this.config.maxWaitMs) {
+      return Promise.reject(new RateLimitError(`Rate limit reached. Try again in ${Math.ceil(waitTime / 1000)} seconds.`, Math.ceil(waitTime / 1000)));
+    }
+    
+    return new Promise<RateLimitReservation>((resolve, reject) => {
+      const request: QueuedRequest = { tokens, resolve, reject };
+      
+      request.timeout = setTimeout(() => {
+        this.removeFromQueue(request);
+        reject(new RateLimitError(`Rate limit reached. Gave up after waiting ${Math.ceil(this.config.maxWaitMs / 1000)} seconds.`, Math.ceil(this.getWaitTime(tokens) / 1000) || 1));
+      }, this.config.maxWaitMs);
+      
+      request.cancellationListener = cancellationToken?.onCancellationRequested(() => {
+        this.removeFromQueue(request);
+        reject(new CancelledError());
+      });
+      
+      this.queue.push(request);
+      this.processQueue();
+    });
+  }
+  
+  /**
+   * Learns the provider's real limits and remaining allowance from its rate limit response headers
+   * @param headers The response headers
+   */
+  public updateFromHeaders(headers: { [name: string]: any } | undefined): void {
+    if (!headers) {
+      return;
+    }
+    
+    const requestLimit = this.readHeader(headers, REQUEST_LIMIT_HEADERS);
+    const tokenLimit = this.readHeader(headers, TOKEN_LIMIT_HEADERS);
+    const requestsRemaining = this.readHeader(headers, REQUEST_REMAINING_HEADERS);
+    const tokensRemaining = this.readHeader(headers, TOKEN_REMAINING_HEADERS);
+    
+    if (requestLimit) {
+      if (this.requestBucket) {
+        this.requestBucket.setCapacity(requestLimit);
+      } else {
+        this.requestBucket = new TokenBucket(requestLimit);
+      }
+    }
+    
+    if (tokenLimit) {
+      if (this.tokenBucket) {
+        this.tokenBucket.setCapacity(tokenLimit);
+      } else {
+        this.tokenBucket = new TokenBucket(tokenLimit);
+      }
+    }
+    
+    if (requestsRemaining !== undefined) {
+      this.requestBucket?.limitAvailable(requestsRemaining);
+    }
+    
+    if (tokensRemaining !== undefined) {
+      this.tokenBucket?.limitAvailable(tokensRemaining);
+    }
+    
+    this.processQueue();
+  }
+  
+  private reserve(tokens: number): RateLimitReservation {
+    this.requestBucket?.take(1);
+    this.tokenBucket?.take(tokens);
+    this.inFlight++;
+    
+    let released = false;
+    
+    return {
+      release: (actualTokens?: number) => {
+        if (released) {
+          return;
+        }
+        
+        released = true;
+        this.inFlight--;
+        
+        // Settle the difference between the estimate and what was really used
+        if (actualTokens !== undefined) {
+          this.tokenBucket?.take(actualTokens - tokens);
+        }
+        
+        this.processQueue();
+      }
+    };
+  }
+  
+  private processQueue(): void {
+    if (this.queueTimer) {
+      clearTimeout(this.queueTimer);
+      this.queueTimer = undefined;
+    }
+    
+    // Strictly first come, first served
+    while (this.queue.length > 0) {
+      // A release will pick the queue up again
+      if (this.isAtConcurrencyLimit()) {
+        return;
+      }
+      
+      const next = this.queue[0];
+      const waitTime = this.getWaitTime(next.tokens);
+      
+      if (waitTime > 0) {
+        this.queueTimer = setTimeout(() => this.processQueue(), waitTime);
+        return;
+      }
+      
+      this.removeFromQueue(next);
+      next.resolve(this.reserve(next.tokens));
+    }
+  }
+  
+  private removeFromQueue(request: QueuedRequest): void {
+    if (request.timeout) {
+      clearTimeout(request.timeout);
+    }
+    
+    request.cancellationListener?.dispose();
+    
+    const index = this.queue.indexOf(request);
+    
+    if (index >= 0) {
+      this.queue.splice(index, 1);
+    }
+  }
+  
+  private getWaitTime(tokens: number): number {
+    return Math.max(this.requestBucket?.waitTime(1) || 0, this.tokenBucket?.waitTime(tokens) || 0);
+  }
+  
+  private isAtConcurrencyLimit(): boolean {
+    return !!this.config.maxConcurrentRequests && this.inFlight >= this.config.maxConcurrentRequests;
+  }
+  
+  private readHeader(headers: { [name: string]: any }, names: string[]): number | undefined {
+    for (const name of names) {
+      const value = parseInt(headers[name], 10);
+      
+      if (!isNaN(value)) {
+        return value;
+      }
+    }
+    
+    return undefined;
+  }
+}
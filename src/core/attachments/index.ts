@@ -0,0 +1,45 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ImageAttachment } from '../../api/providers/base-provider';
+
+// Image formats every provider with image understanding accepts
+const IMAGE_MEDIA_TYPES: { [extension: string]: ImageAttachment['mediaType'] } = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+// Anthropic's per-image limit, the strictest of the providers
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * File extensions, without the dot, that can be attached as images
+ */
+export const IMAGE_FILE_EXTENSIONS = Object.keys(IMAGE_MEDIA_TYPES);
+
+/**
+ * Reads an image file into an attachment for AITask.images
+ * @param filePath The path of a PNG, JPEG, GIF or WebP file
+ */
+export async function loadImageAttachment(filePath: string): Promise<ImageAttachment> {
+  const extension = path.extname(filePath).substring(1).toLowerCase();
+  const mediaType = IMAGE_MEDIA_TYPES[extension];
+  
+  if (!mediaType) {
+    throw new Error(`Unsupported image format: ${path.basename(filePath)}. Use ${IMAGE_FILE_EXTENSIONS.join(', ')}`);
+  }
+  
+  const data = await fs.readFile(filePath);
+  
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new Error(`Image ${path.basename(filePath)} is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`);
+  }
+  
+  return {
+    mediaType,
+    data: data.toString('base64'),
+    name: path.basename(filePath)
+  };
+}
@@ -0,0 +1,292 @@
+import { ModelCapability, ModelConfig as ProviderModelConfig } from '../../api/providers/base-provider';
+import { ModelConfig } from '../../api/orchestrator';
+import { AsuraConfig } from './index';
+
+// Built-in configuration; the asura-ai.* settings are merged over it
+export const DEFAULT_CONFIG: AsuraConfig = {
+  providers: {
+    openai: {
+      id: 'openai',
+      name: 'OpenAI',
+      enabled: true,
+      priority: 10,
+      apiEndpoint: 'https://api.openai.com/v1',
+      timeout: 30000,
+      rateLimitRPM: 60,
+      rateLimitTPM: 100000,
+      models: [
+        {
+          id: 'gpt-4o',
+          name: 'GPT-4o',
+          enabled: true,
+          maxTokens: 16384,
+          contextWindow: 128000,
+          capabilities: [
+            ModelCapability.CHAT,
+            ModelCapability.CODE,
+            ModelCapability.FUNCTION_CALLING,
+            ModelCapability.IMAGE_UNDERSTANDING,
+            ModelCapability.STRUCTURED_OUTPUT
+          ],
+          costPer1KTokens: {
+            input: 0.0025,
+            output: 0.01
+          }
+        },
+        {
+          id: 'gpt-4o-mini',
+          name: 'GPT-4o mini',
+          enabled: true,
+          maxTokens: 16384,
+          contextWindow: 128000,
+          capabilities: [
+            ModelCapability.CHAT,
+            ModelCapability.CODE,
+            ModelCapability.FUNCTION_CALLING,
+            ModelCapability.IMAGE_UNDERSTANDING,
+            ModelCapability.STRUCTURED_OUTPUT
+          ],
+          costPer1KTokens: {
+            input: 0.00015,
+            output: 0.0006
+          }
+        },
+        {
+          id: 'gpt-4',
+          name: 'GPT-4',
+          enabled: true,
+          maxTokens: 4096,
+          contextWindow: 8192,
+          capabilities: [
+            ModelCapability.COMPLETION,
+            ModelCapability.CHAT,
+            ModelCapability.CODE,
+            ModelCapability.FUNCTION_CALLING
+          ],
+          costPer1KTokens: {
+            input: 0.03,
+            output: 0.06
+          }
+        },
+        {
+          id: 'gpt-3.5-turbo',
+          name: 'GPT-3.5 Turbo',
+          enabled: true,
+          maxTokens: 4096,
+          contextWindow: 4096,
+          capabilities: [
+            ModelCapability.COMPLETION,
+            ModelCapability.CHAT,
+            ModelCapability.CODE,
+            ModelCapability.FUNCTION_CALLING
+          ],
+          costPer1KTokens: {
+            input: 0.0015,
+            output: 0.002
+          }
+        },
+        {
+          id: 'text-embedding-ada-002',
+          name: 'Text Embedding Ada 002',
+          enabled: true,
+          maxTokens: 8191,
+          contextWindow: 8191,
+          capabilities: [ModelCapability.EMBEDDING],
+          costPer1KTokens: {
+            input: 0.0001,
+            output: 0.0
+          }
+        }
+      ]
+    },
+    anthropic: {
+      id: 'anthropic',
+      name: 'Anthropic',
+      enabled: true,
+      priority: 8,
+      apiEndpoint: 'https://api.anthropic.com',
+      apiVersion: '2023-06-01',
+      timeout: 30000,
+      rateLimitRPM: 50,
+      rateLimitTPM: 100000,
+      models: [
+        {
+          id: 'claude-3-opus',
+          name: 'Claude 3 Opus',
+          enabled: true,
+          maxTokens: 4096,
+          contextWindow: 200000,
+          capabilities: [
+            ModelCapability.CHAT,
+            ModelCapability.CODE,
+            ModelCapability.FUNCTION_CALLING,
+            ModelCapability.IMAGE_UNDERSTANDING
+          ],
+          costPer1KTokens: {
+            input: 0.015,
+            output: 0.075
+          }
+        },
+        {
+          id: 'claude-3-sonnet',
+          name: 'Claude 3 Sonnet',
+          enabled: true,
+          maxTokens: 4096,
+          contextWindow: 200000,
+          capabilities: [
+            ModelCapability.CHAT,
+            ModelCapability.CODE,
+            ModelCapability.FUNCTION_CALLING,
+            ModelCapability.IMAGE_UNDERSTANDING
+          ],
+          costPer1KTokens: {
+            input: 0.003,
+            output: 0.015
+          }
+        }
+      ]
+    },
+    local: {
+      id: 'local',
+      name: 'Local (Ollama)',
+      enabled: false,
+      priority: 5,
+      apiEndpoint: 'http://localhost:11434',
+      apiFormat: 'ollama',
+      timeout: 120000,
+      models: [
+        {
+          id: 'llama3',
+          name: 'Llama 3',
+          enabled: true,
+          maxTokens: 2048,
+          contextWindow: 8192,
+          capabilities: [
+            ModelCapability.COMPLETION,
+            ModelCapability.CHAT,
+            ModelCapability.CODE
+          ],
+          costPer1KTokens: {
+            input: 0,
+            output: 0
+          }
+        },
+        {
+          id: 'nomic-embed-text',
+          name: 'Nomic Embed Text',
+          enabled: true,
+          maxTokens: 8192,
+          contextWindow: 8192,
+          capabilities: [ModelCapability.EMBEDDING],
+          costPer1KTokens: {
+            input: 0,
+            output: 0
+          }
+        }
+      ]
+    }
+  },
+  models: {
+    'code-specialist': {
+      provider: 'openai',
+      modelId: 'gpt-4o',
+      enabled: true,
+      priority: 10,
+      contextWindow: 128000,
+      capabilities: ['code-generation', 'code-explanation', 'refactoring']
+    },
+    'explanation-specialist': {
+      provider: 'anthropic',
+      modelId: 'claude-3-sonnet',
+      enabled: true,
+      priority: 8,
+      contextWindow: 100000,
+      capabilities: ['explanation', 'documentation', 'summarization']
+    },
+    'general-purpose': {
+      provider: 'openai',
+      modelId: 'gpt-4o-mini',
+      enabled: true,
+      priority: 5,
+      contextWindow: 128000,
+      capabilities: ['general-assistance', 'quick-answers']
+    },
+    'fallback': {
+      provider: 'openai',
+      modelId: 'gpt-4o-mini',
+      enabled: true,
+      priority: 1,
+      contextWindow: 128000,
+      capabilities: ['fallback-assistance']
+    },
+    'local': {
+      provider: 'local',
+      modelId: 'llama3',
+      enabled: false,
+      priority: 3,
+      contextWindow: 8192,
+      capabilities: ['general-assistance', 'code-generation', 'offline']
+    }
+  },
+  taskSelectors: [],
+  security: {
+    enabled: true,
+    encryptionEnabled: true,
+    auditLoggingEnabled: true,
+    sandboxingEnabled: true,
+    realtimeScanning: true,
+    scanOnSave: true,
+    scanOnCommit: true,
+    disabledRules: []
+  },
+  orchestrator: {
+    timeoutMs: 30000,
+    fallbackBehavior: 'alternative',
+    retry: {
+      maxAttempts: 3,
+      initialDelayMs: 1000,
+      maxDelayMs: 30000,
+      backoffMultiplier: 2
+    },
+    circuitBreaker: {
+      failureThreshold: 3,
+      cooldownMs: 60000,
+      windowSize: 20
+    }
+  },
+  usage: {
+    enabled: true,
+    budgetAction: 'downgrade',
+    retentionDays: 400
+  },
+  cache: {
+    enabled: false,
+    ttlHours: 24,
+    maxSizeMB: 50,
+    maxTemperature: 0.3
+  },
+  intent: {
+    useModel: true,
+    confidenceThreshold: 0.6
+  }
+};
+
+// Fields a model added in settings may leave out
+export const NEW_MODEL_DEFAULTS: Omit<ModelConfig, 'provider' | 'modelId'> = {
+  enabled: true,
+  priority: 1,
+  capabilities: [],
+  contextWindow: 4096
+};
+
+// Fields a provider model listed in settings may leave out, besides its name, which defaults to its ID
+export const NEW_PROVIDER_MODEL_DEFAULTS: Omit<ProviderModelConfig, 'id' | 'name'> = {
+  enabled: true,
+  maxTokens: 4096,
+  contextWindow: 4096,
+  capabilities: [ModelCapability.CHAT, ModelCapability.CODE],
+  costPer1KTokens: {
+    input: 0,
+    output: 0
+  }
+};
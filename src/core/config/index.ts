@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ModelConfig, OrchestratorConfig, RetryPolicy, TaskSelectorConfig } from '../../api/orchestrator';
+import { ApiProviderConfig, JsonSchema } from '../../api/providers/base-provider';
+import { CircuitBreakerPolicy } from '../../api/health';
+import { IntentClassifierConfig } from '../../api/intent';
+import { SecurityConfig } from '../../security';
+import { SecurityScannerConfig } from '../../security/code-security-scanner';
+import { UsageConfig } from '../../services/usage';
+import { ResponseCacheConfig } from '../../services/cache';
+import { validateJsonSchema } from '../validation';
+import { DEFAULT_CONFIG, NEW_MODEL_DEFAULTS, NEW_PROVIDER_MODEL_DEFAULTS } from './defaults';
+
+// Types
+// API keys are never read from settings; they are kept in the security service's secure storage
+export type ProviderSettings = Omit<ApiProviderConfig, 'apiKey'>;
+
+export interface SecuritySettings extends Omit<SecurityConfig, 'secureStoragePath' | 'auditLogPath'>, SecurityScannerConfig {}
+
+export interface AsuraConfig {
+  providers: {
+    [provider: string]: ProviderSettings;
+  };
+  models: {
+    [name: string]: ModelConfig;
+  };
+  taskSelectors: TaskSelectorConfig[];
+  orchestrator: {
+    timeoutMs: number;
+    fallbackBehavior: OrchestratorConfig['fallbackBehavior'];
+    retry: RetryPolicy;
+    circuitBreaker: CircuitBreakerPolicy;
+  };
+  security: SecuritySettings;
+  usage: Omit<UsageConfig, 'dataPath'>;
+  cache: Omit<ResponseCacheConfig, 'dataPath'>;
+  intent: IntentClassifierConfig;
+}
+
+export interface LoadedConfiguration {
+  config: AsuraConfig;
+  // One message per ignored setting or entry, naming it and what is wrong with it
+  problems: string[];
+}
+
+export const CONFIGURATION_SECTION = 'asura-ai';
+
+// Top-level keys of the settings that make up AsuraConfig. Settings under other keys,
+// such as asura-ai.inlineCompletions, are read by their features directly
+export const CONFIG_KEYS = ['providers', 'models', 'taskSelectors', 'orchestrator', 'security', 'usage', 'cache', 'intent'];
+
+/**
+ * Reads the configuration from the asura-ai.* settings. Each setting the user has set is validated
+ * against its schema in package.json and merged over the built-in defaults. Object settings are merged
+ * key by key, so an entry in asura-ai.providers or asura-ai.models only needs the fields it changes.
+ * Invalid settings, and models whose provider doesn't exist, are left out and reported as problems.
+ * @param context The extension context, whose package.json holds the settings schema
+ */
+export function loadConfiguration(context: vscode.ExtensionContext): LoadedConfiguration {
+  const config: AsuraConfig = JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+  const problems: string[] = [];
+  const settings = vscode.workspace.getConfiguration(CONFIGURATION_SECTION);
+  const schemas: { [setting: string]: JsonSchema } = context.extension.packageJSON?.contributes?.configuration?.properties || {};
+  
+  for (const [setting, schema] of Object.entries(schemas)) {
+    const key = setting.substring(CONFIGURATION_SECTION.length + 1);
+    const keyPath = key.split('.');
+    
+    if (!CONFIG_KEYS.includes(keyPath[0]) || !isUserSet(settings.inspect(key))) {
+      continue;
+    }
+    
+    const value = settings.get(key);
+    const errors = validateJsonSchema(value, schema);
+    
+    if (errors.length > 0) {
+      // Validation paths start at '$', the setting itself
+      problems.push(...errors.map(error => setting + error.substring(1)));
+      continue;
+    }
+    
+    setValue(config, keyPath, value);
+  }
+  
+  completeProviders(config);
+  problems.push(...completeModels(config));
+  
+  return { config, problems };
+}
+
+/**
+ * Builds the model orchestrator's configuration
+ * @param config The extension configuration
+ */
+export function createOrchestratorConfig(config: AsuraConfig): OrchestratorConfig {
+  return {
+    models: config.models,
+    providers: config.providers,
+    timeoutMs: config.orchestrator.timeoutMs,
+    fallbackBehavior: config.orchestrator.fallbackBehavior,
+    retry: config.orchestrator.retry,
+    circuitBreaker: config.orchestrator.circuitBreaker,
+    taskSelectors: config.taskSelectors
+  };
+}
+
+/**
+ * Builds the security service's configuration
+ * @param config The extension configuration
+ * @param storagePath Directory for the secure storage and the audit log
+ */
+export function createSecurityConfig(config: AsuraConfig, storagePath: string): SecurityConfig {
+  return {
+    enabled: config.security.enabled,
+    encryptionEnabled: config.security.encryptionEnabled,
+    auditLoggingEnabled: config.security.auditLoggingEnabled,
+    sandboxingEnabled: config.security.sandboxingEnabled,
+    secureStoragePath: path.join(storagePath, 'secure-storage'),
+    auditLogPath: path.join(storagePath, 'logs', 'audit.log')
+  };
+}
+
+/**
+ * Builds the security scanner's configuration
+ * @param config The extension configuration
+ */
+export function createScannerConfig(config: AsuraConfig): SecurityScannerConfig {
+  return {
+    realtimeScanning: config.security.realtimeScanning,
+    scanOnSave: config.security.scanOnSave,
+    scanOnCommit: config.security.scanOnCommit,
+    disabledRules: config.security.disabledRules
+  };
+}
+
+// Helper functions
+function isUserSet(inspection: { globalValue?: unknown; workspaceValue?: unknown; workspaceFolderValue?: unknown } | undefined): boolean {
+  return !!inspection && (inspection.globalValue !== undefined || inspection.workspaceValue !== undefined || inspection.workspaceFolderValue !== undefined);
+}
+
+function setValue(target: { [key: string]: any }, keyPath: string[], value: any): void {
+  let parent = target;
+  
+  for (const key of keyPath.slice(0, -1)) {
+    if (!isPlainObject(parent[key])) {
+      parent[key] = {};
+    }
+    
+    parent = parent[key];
+  }
+  
+  const leaf = keyPath[keyPath.length - 1];
+  parent[leaf] = isPlainObject(parent[leaf]) && isPlainObject(value) ? merge(parent[leaf], value) : value;
+}
+
+// Merges objects key by key; arrays and other values replace what they are merged over
+function merge(base: { [key: string]: any }, override: { [key: string]: any }): { [key: string]: any } {
+  const result = { ...base };
+  
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = isPlainObject(result[key]) && isPlainObject(value) ? merge(result[key], value) : value;
+  }
+  
+  return result;
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: any } {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function completeProviders(config: AsuraConfig): void {
+  for (const [name, provider] of Object.entries(config.providers)) {
+    config.providers[name] = {
+      ...provider,
+      id: provider.id || name,
+      name: provider.name || name,
+      models: provider.models.map(model => ({ ...NEW_PROVIDER_MODEL_DEFAULTS, ...model, name: model.name || model.id }))
+    };
+  }
+}
+
+function completeModels(config: AsuraConfig): string[] {
+  const problems: string[] = [];
+  
+  for (const [name, model] of Object.entries(config.models)) {
+    if (!model.provider || !model.modelId) {
+      problems.push(`${CONFIGURATION_SECTION}.models.${name}: a new model needs a provider and a modelId`);
+      delete config.models[name];
+    } else if (!config.providers[model.provider]) {
+      problems.push(`${CONFIGURATION_SECTION}.models.${name}: unknown provider "${model.provider}"`);
+      delete config.models[name];
+    } else {
+      config.models[name] = { ...NEW_MODEL_DEFAULTS, ...model };
+    }
+  }
+  
+  return problems;
+}
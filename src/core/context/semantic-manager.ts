@@ -1,6 +1,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { Tokenizer, getTokenizer } from '../tokenizer';
 
 // Types
 export interface ContextConfig {
@@ -264,7 +265,7 @@ export class SemanticContextManager {
     }
   }
   
-  async getRelevantContext(query: string, maxTokens: number): Promise<ContextResult> {
+  async getRelevantContext(query: string, maxTokens: number, tokenizer: Tokenizer = getTokenizer()): Promise<ContextResult> {
     if (!this.initialized) {
       return { chunks: [], tokenCount: 0 };
     }
@@ -298,7 +299,7 @@ export class SemanticContextManager {
       );
       
       // Prioritize and trim context to fit within token budget
-      return this.optimizeContext(contextChunks, maxTokens);
+      return this.optimizeContext(contextChunks, maxTokens, tokenizer);
     } catch (error) {
       console.error('Error getting relevant context:', error);
       return { chunks: [], tokenCount: 0 };
@@ -337,13 +338,7 @@ export class SemanticContextManager {
     return Math.abs(hash);
   }
   
-  private optimizeContext(chunks: ContextChunk[], maxTokens: number): ContextResult {
-    // Simple token counting (approximate)
-    const estimateTokens = (text: string): number => {
-      // Rough estimate: 1 token ≈ 4 characters
-      return Math.ceil(text.length / 4);
-    };
-    
+  private optimizeContext(chunks: ContextChunk[], maxTokens: number, tokenizer: Tokenizer): ContextResult {
     // Sort chunks by similarity (descending)
     chunks.sort((a, b) => b.similarity - a.similarity);
     
@@ -352,7 +347,7 @@ export class SemanticContextManager {
     let tokenCount = 0;
     
     for (const chunk of chunks) {
-      const chunkTokens = estimateTokens(chunk.content);
+      const chunkTokens = tokenizer.countTokens(chunk.content);
       
       if (tokenCount + chunkTokens <= maxTokens) {
         result.push(chunk);
@@ -361,14 +356,14 @@ export class SemanticContextManager {
         // If we can't fit the whole chunk, try to fit a portion
         if (tokenCount < maxTokens) {
           const remainingTokens = maxTokens - tokenCount;
-          const truncatedContent = chunk.content.substring(0, remainingTokens * 4);
+          const truncatedContent = tokenizer.truncate(chunk.content, remainingTokens);
           
           result.push({
             ...chunk,
             content: truncatedContent
           });
           
-          tokenCount += estimateTokens(truncatedContent);
+          tokenCount += tokenizer.countTokens(truncatedContent);
         }
         
         break;
@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+
+// Types
+export interface CodeBlock {
+  language?: string;
+  code: string;
+}
+
+export interface EditHunk {
+  // Index of the first original line the hunk replaces
+  startLine: number;
+  originalLines: string[];
+  newLines: string[];
+}
+
+export interface EditProposal {
+  uri: vscode.Uri;
+  // Version of the document the hunks were computed against
+  documentVersion: number;
+  eol: string;
+  originalLines: string[];
+  hunks: EditHunk[];
+}
+
+// Above this many line pairs, the changed region is one hunk instead of a line-by-line diff
+const MAX_DIFF_CELLS = 4000000;
+
+/**
+ * Extracts the fenced code blocks of a Markdown response
+ * @param markdown The response
+ */
+export function extractCodeBlocks(markdown: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const pattern = /^[ \t]*```[ \t]*([\w+#.-]*)[^\n]*\n([\s\S]*?)^[ \t]*```[ \t]*$/gm;
+  
+  for (const match of markdown.matchAll(pattern)) {
+    blocks.push({ language: match[1] || undefined, code: match[2].replace(/\r?\n$/, '') });
+  }
+  
+  return blocks;
+}
+
+/**
+ * Turns a response into edits against a document. The response's longest code block
+ * replaces the selection; without a selection it replaces the whole document if it is
+ * at least half as long and keeps at least half of the document's lines, or else is
+ * inserted at the cursor.
+ * @param document The document the task was about
+ * @param response The model's response
+ * @param selection The selection the task was about, or the cursor
+ * @returns The proposal, or undefined if the response has no code or changes nothing
+ */
+export function createEditProposal(document: vscode.TextDocument, response: string, selection?: vscode.Selection): EditProposal | undefined {
+  const block = extractCodeBlocks(response).sort((a, b) => b.code.length - a.code.length)[0];
+  
+  if (!block || !block.code.trim()) {
+    return undefined;
+  }
+  
+  const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+  const originalText = document.getText();
+  const code = block.code.replace(/\r?\n/g, eol);
+  const codeLineCount = code.split(eol).length;
+  let proposedText: string;
+  
+  if (selection && !selection.isEmpty) {
+    const start = document.offsetAt(selection.start);
+    const end = document.offsetAt(selection.end);
+    proposedText = originalText.substring(0, start) + fitToSelection(code, originalText.substring(start, end), selection.start.character === 0, eol) + originalText.substring(end);
+  } else if (document.lineCount > 1 && codeLineCount * 2 >= document.lineCount && sharesStructure(originalText.split(eol), code.split(eol))) {
+    proposedText = code + (originalText.endsWith(eol) ? eol : '');
+  } else if (selection) {
+    const offset = document.offsetAt(selection.active);
+    const line = document.lineAt(selection.active.line).text;
+    const before = line.substring(0, selection.active.character).trim() ? eol : '';
+    const after = line.substring(selection.active.character).trim() ? eol : '';
+    proposedText = originalText.substring(0, offset) + before + code + after + originalText.substring(offset);
+  } else {
+    return undefined;
+  }
+  
+  const originalLines = originalText.split(eol);
+  const hunks = diffLines(originalLines, proposedText.split(eol));
+  
+  if (hunks.length === 0) {
+    return undefined;
+  }
+  
+  return { uri: document.uri, documentVersion: document.version, eol, originalLines, hunks };
+}
+
+/**
+ * Computes the line hunks that turn one text into another
+ * @param originalLines The original lines
+ * @param newLines The new lines
+ */
+export function diffLines(originalLines: string[], newLines: string[]): EditHunk[] {
+  // Only the region between the common prefix and suffix needs a diff
+  let prefix = 0;
+  
+  while (prefix < originalLines.length && prefix < newLines.length && originalLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  
+  let suffix = 0;
+  
+  while (
+    suffix < originalLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    originalLines[originalLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  
+  const a = originalLines.slice(prefix, originalLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  
+  if (a.length === 0 && b.length === 0) {
+    return [];
+  }
+  
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ startLine: prefix, originalLines: a, newLines: b }];
+  }
+  
+  // Longest common subsequence; lcs[i][j] covers a[i..] and b[j..]
+  const lcs: Uint32Array[] = [];
+  
+  for (let i = a.length; i >= 0; i--) {
+    lcs[i] = new Uint32Array(b.length + 1);
+    
+    for (let j = b.length - 1; j >= 0 && i < a.length; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  
+  const hunks: EditHunk[] = [];
+  let current: EditHunk | undefined;
+  let i = 0;
+  let j = 0;
+  
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = undefined;
+      i++;
+      j++;
+      continue;
+    }
+    
+    if (!current) {
+      current = { startLine: prefix + i, originalLines: [], newLines: [] };
+      hunks.push(current);
+    }
+    
+    if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      current.newLines.push(b[j++]);
+    } else {
+      current.originalLines.push(a[i++]);
+    }
+  }
+  
+  return hunks;
+}
+
+/**
+ * Applies hunks to the lines they were computed against
+ * @param proposal The proposal
+ * @param hunks The hunks to apply, a subset of the proposal's
+ * @returns The resulting text
+ */
+export function applyHunksToText(proposal: EditProposal, hunks: EditHunk[]): string {
+  const lines: string[] = [];
+  let line = 0;
+  
+  for (const hunk of [...hunks].sort((x, y) => x.startLine - y.startLine)) {
+    lines.push(...proposal.originalLines.slice(line, hunk.startLine), ...hunk.newLines);
+    line = hunk.startLine + hunk.originalLines.length;
+  }
+  
+  lines.push(...proposal.originalLines.slice(line));
+  
+  return lines.join(proposal.eol);
+}
+
+/**
+ * Creates a workspace edit that applies hunks to the proposal's document.
+ * All hunks are in one edit, so applying it is a single undo step.
+ * @param proposal The proposal
+ * @param hunks The hunks to apply, a subset of the proposal's
+ */
+export function createWorkspaceEdit(proposal: EditProposal, hunks: EditHunk[]): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit();
+  const lastLine = proposal.originalLines.length - 1;
+  const documentEnd = new vscode.Position(lastLine, proposal.originalLines[lastLine].length);
+  
+  for (const hunk of hunks) {
+    const endLine = hunk.startLine + hunk.originalLines.length;
+    
+    if (hunk.startLine > lastLine) {
+      // Appended after the last line
+      edit.insert(proposal.uri, documentEnd, proposal.eol + hunk.newLines.join(proposal.eol));
+    } else if (endLine > lastLine && hunk.newLines.length === 0 && hunk.startLine > 0) {
+      // Deletes the last lines, with the line break before them
+      edit.delete(proposal.uri, new vscode.Range(hunk.startLine - 1, proposal.originalLines[hunk.startLine - 1].length, documentEnd.line, documentEnd.character));
+    } else if (endLine > lastLine) {
+      // Runs to the end of the document, which has no line break after it
+      edit.replace(proposal.uri, new vscode.Range(hunk.startLine, 0, documentEnd.line, documentEnd.character), hunk.newLines.join(proposal.eol));
+    } else {
+      edit.replace(proposal.uri, new vscode.Range(hunk.startLine, 0, endLine, 0), hunk.newLines.map(newLine => newLine + proposal.eol).join(''));
+    }
+  }
+  
+  return edit;
+}
+
+// Helper functions
+
+// Whether the code keeps at least half of the document's lines, so that it reads as a new version of the document rather than new code
+function sharesStructure(documentLines: string[], codeLines: string[]): boolean {
+  // Lines without a word, such as braces, say nothing about the document
+  const meaningful = (line: string) => /\w/.test(line);
+  const codeLineSet = new Set(codeLines.map(line => line.trim()).filter(meaningful));
+  const documentLineSet = new Set(documentLines.map(line => line.trim()).filter(meaningful));
+  let kept = 0;
+  
+  for (const line of documentLineSet) {
+    if (codeLineSet.has(line)) {
+      kept++;
+    }
+  }
+  
+  return kept * 2 >= documentLineSet.size;
+}
+
+// Indents unindented code like the lines it replaces, and keeps a full-line selection's trailing line break
+function fitToSelection(code: string, selectedText: string, startsAtLineStart: boolean, eol: string): string {
+  const lines = code.split(eol);
+  const codeIndent = Math.min(...lines.filter(line => line.trim()).map(line => (line.match(/^[ \t]*/) || [''])[0].length));
+  const selectedIndent = (selectedText.match(/^[ \t]*(?=\S)/m) || [''])[0];
+  let result = code;
+  
+  if (startsAtLineStart && codeIndent === 0 && selectedIndent) {
+    result = lines.map(line => line.trim() ? selectedIndent + line : line).join(eol);
+  }
+  
+  return selectedText.endsWith(eol) ? result + eol : result;
+}
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  DEFAULT_CONTEXT_CHUNK_TEMPLATE,
+  DEFAULT_CONTEXT_TEMPLATE,
+  DEFAULT_SYSTEM_TEMPLATE,
+  DEFAULT_TASK_INSTRUCTIONS,
+  TASK_INSTRUCTIONS
+} from './defaults';
+
+// Types
+export interface PromptVariables {
+  [name: string]: string | undefined;
+}
+
+export interface ContextChunk {
+  filePath: string;
+  content: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+// Workspace overrides, relative to the workspace folder. Each template is a Markdown file named after it:
+//   system.md                 system prompt of every task type without its own template
+//   <task type>.md            system prompt of one task type, e.g. refactor.md
+//   context.md                framing of the context chunks, with {{chunks}} where they go
+//   <task type>.context.md    framing of the context chunks for one task type
+//   context-chunk.md          one context chunk, with {{filePath}}, {{content}}, {{startLine}} and {{endLine}}
+//   conventions.md            not a template: its text is the {{conventions}} variable
+export const PROMPTS_DIRECTORY = '.asura/prompts';
+
+/**
+ * Renders a prompt template. {{name}} is replaced with the variable's value, or removed if it is unset.
+ * {{#name}}...{{/name}} is kept only if the variable is set and not blank, {{^name}}...{{/name}} only if it isn't.
+ * @param template The template
+ * @param variables The variable values
+ */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  // Variable values are substituted in a single pass, so template syntax inside them (e.g. in selected code) is left alone
+  return renderSections(template, variables).replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+}
+
+function renderSections(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{([#^])([\w-]+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, kind: string, name: string, body: string) => {
+    const value = variables[name];
+    const isSet = value !== undefined && value.trim() !== '';
+    
+    return (kind === '#') === isSet ? renderSections(body, variables) : '';
+  });
+}
+
+// Prompt templates: bundled defaults, overridable per workspace from PROMPTS_DIRECTORY
+export class PromptTemplateRegistry {
+  private overrides: Map<string, { content: string; filePath: string }> = new Map();
+  private conventions?: string;
+  
+  /**
+   * Loads the prompt overrides of a workspace, replacing any loaded before
+   * @param workspacePath The workspace folder
+   */
+  public async loadWorkspaceOverrides(workspacePath: string): Promise<void> {
+    const promptsPath = path.join(workspacePath, PROMPTS_DIRECTORY);
+    const overrides: Map<string, { content: string; filePath: string }> = new Map();
+    let conventions: string | undefined;
+    
+    try {
+      const entries = await fs.readdir(promptsPath, { withFileTypes: true });
+      
+      for (const entry of entries) {
+        if (!entry.isFile() || path.extname(entry.name).toLowerCase() !== '.md') {
+          continue;
+        }
+        
+        const filePath = path.join(promptsPath, entry.name);
+        const name = path.basename(entry.name, path.extname(entry.name));
+        const content = (await fs.readFile(filePath, 'utf-8')).replace(/\r\n/g, '\n').trim();
+        
+        if (name === 'conventions') {
+          conventions = content;
+        } else {
+          overrides.set(name, { content, filePath });
+        }
+      }
+      
+      console.log(`Loaded ${overrides.size} prompt templates from ${promptsPath}`);
+    } catch (error) {
+      // Directory might not exist, that's okay
+      console.log('No workspace prompt templates found, using the bundled ones');
+    }
+    
+    this.overrides = overrides;
+    this.conventions = conventions;
+  }
+  
+  /**
+   * Reloads the overrides whenever a file in a workspace's prompts directory changes
+   * @param workspacePath The workspace folder
+   * @returns A disposable that stops watching
+   */
+  public watch(workspacePath: string): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspacePath, `${PROMPTS_DIRECTORY}/*.md`));
+    const reload = () => this.loadWorkspaceOverrides(workspacePath);
+    
+    watcher.onDidCreate(reload);
+    watcher.onDidChange(reload);
+    watcher.onDidDelete(reload);
+    
+    return watcher;
+  }
+  
+  /**
+   * Renders the system prompt of a task type
+   * @param taskType The task type
+   * @param variables Task variables such as language, filePath and selection
+   */
+  public renderSystemPrompt(taskType: string, variables: PromptVariables): string {
+    const template = this.getTemplate(taskType, 'system', DEFAULT_SYSTEM_TEMPLATE);
+    
+    return renderTemplate(template, {
+      instructions: TASK_INSTRUCTIONS[taskType] || DEFAULT_TASK_INSTRUCTIONS,
+      conventions: this.conventions,
+      taskType,
+      ...variables
+    });
+  }
+  
+  /**
+   * Renders the message that frames a task's context chunks
+   * @param taskType The task type
+   * @param chunks The context chunks
+   * @param variables Task variables such as language, filePath and selection
+   */
+  public renderContext(taskType: string, chunks: ContextChunk[], variables: PromptVariables): string {
+    const template = this.getTemplate(`${taskType}.context`, 'context', DEFAULT_CONTEXT_TEMPLATE);
+    
+    return renderTemplate(template, {
+      conventions: this.conventions,
+      taskType,
+      ...variables,
+      chunks: chunks.map(chunk => this.renderContextChunk(chunk)).join('')
+    });
+  }
+  
+  /**
+   * Renders one context chunk
+   * @param chunk The context chunk
+   */
+  public renderContextChunk(chunk: ContextChunk): string {
+    const template = this.overrides.get('context-chunk')?.content;
+    
+    // Chunks are concatenated, so an override needs the separator the bundled template ends with
+    return renderTemplate(template !== undefined ? `${template}\n\n` : DEFAULT_CONTEXT_CHUNK_TEMPLATE, {
+      filePath: chunk.filePath,
+      content: chunk.content,
+      startLine: chunk.startLine !== undefined ? String(chunk.startLine) : undefined,
+      endLine: chunk.endLine !== undefined ? String(chunk.endLine) : undefined
+    });
+  }
+  
+  /**
+   * Gets the files the prompts of a task type are rendered from, for display
+   * @param taskType The task type
+   */
+  public getTemplateSources(taskType: string): { system: string; context: string; contextChunk: string } {
+    const describe = (...names: string[]) => {
+      const override = names.map(name => this.overrides.get(name)).find(template => template !== undefined);
+      return override ? override.filePath : 'bundled';
+    };
+    
+    return {
+      system: describe(taskType, 'system'),
+      context: describe(`${taskType}.context`, 'context'),
+      contextChunk: describe('context-chunk')
+    };
+  }
+  
+  // Helper methods
+  private getTemplate(name: string, fallbackName: string, defaultTemplate: string): string {
+    return (this.overrides.get(name) || this.overrides.get(fallbackName))?.content ?? defaultTemplate;
+  }
+}
@@ -0,0 +1,52 @@
+import { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+import { Tokenizer } from './index';
+
+export type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
+// Each vocabulary is several megabytes, so it is only loaded when the first text is tokenized with it
+const RANK_LOADERS: { [encoding in BpeEncoding]: () => TiktokenBPE } = {
+  cl100k_base: () => require('js-tiktoken/ranks/cl100k_base'),
+  o200k_base: () => require('js-tiktoken/ranks/o200k_base')
+};
+
+/**
+ * Exact tokenizer for the OpenAI model families, using the BPE vocabularies bundled with the extension.
+ * Works offline. Creating the tokenizer loads nothing: its vocabulary is loaded and decoded the first time
+ * a text is tokenized, and an encoding that no configured model uses is never loaded.
+ */
+export class BpeTokenizer implements Tokenizer {
+  private encoder?: Tiktoken;
+  
+  constructor(private readonly encoding: BpeEncoding) {}
+  
+  get name(): string {
+    return this.encoding;
+  }
+  
+  public countTokens(text: string): number {
+    return text ? this.encode(text).length : 0;
+  }
+  
+  public truncate(text: string, maxTokens: number): string {
+    const tokens = this.encode(text);
+    
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+    
+    return this.getEncoder().decode(tokens.slice(0, Math.max(0, maxTokens)));
+  }
+  
+  private encode(text: string): number[] {
+    // Special tokens such as <|endoftext|> can appear in source code; count them as plain text
+    return this.getEncoder().encode(text, [], []);
+  }
+  
+  private getEncoder(): Tiktoken {
+    if (!this.encoder) {
+      this.encoder = new Tiktoken(RANK_LOADERS[this.encoding]());
+    }
+    
+    return this.encoder;
+  }
+}
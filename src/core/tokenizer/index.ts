@@ -0,0 +1,104 @@
+import { BpeTokenizer } from './bpe-tokenizer';
+import { ClaudeTokenizer } from './claude-tokenizer';
+
+// Types
+export interface Tokenizer {
+  readonly name: string;
+  
+  /**
+   * Counts the tokens in a text
+   * @param text The text to count
+   */
+  countTokens(text: string): number;
+  
+  /**
+   * Cuts a text down to at most the given number of tokens
+   * @param text The text to truncate
+   * @param maxTokens The token budget
+   */
+  truncate(text: string, maxTokens: number): string;
+}
+
+interface TokenizerRegistration {
+  pattern: RegExp;
+  create: () => Tokenizer;
+}
+
+// Chat formats wrap every message in a few framing tokens, and prime the reply with a few more
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+// Image cost depends on resolution; this is roughly what a large screenshot costs after the providers downscale it
+const TOKENS_PER_IMAGE = 1600;
+
+// Models are matched against these in order; the first match wins
+const registrations: TokenizerRegistration[] = [
+  { pattern: /^claude/i, create: () => new ClaudeTokenizer() },
+  { pattern: /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o\d)/i, create: () => new BpeTokenizer('o200k_base') },
+  { pattern: /^(gpt-4|gpt-3\.5|gpt-35|text-embedding)/i, create: () => new BpeTokenizer('cl100k_base') }
+];
+
+// Used for models without a registered tokenizer; close enough for most modern BPE vocabularies
+const createDefaultTokenizer = () => new BpeTokenizer('cl100k_base');
+
+// Tokenizers are expensive to build, so each one is created once and shared
+const instances: Map<TokenizerRegistration | 'default', Tokenizer> = new Map();
+
+/**
+ * Registers a tokenizer for the models whose ID matches a pattern.
+ * Registrations made later take precedence over earlier ones and over the built-in tokenizers.
+ * @param pattern Pattern matched against the model ID
+ * @param create Creates the tokenizer the first time it is needed
+ */
+export function registerTokenizer(pattern: RegExp, create: () => Tokenizer): void {
+  registrations.unshift({ pattern, create });
+}
+
+/**
+ * Gets the tokenizer for a model
+ * @param modelId The model ID; the default tokenizer is returned if omitted or unknown
+ */
+export function getTokenizer(modelId?: string): Tokenizer {
+  const registration = modelId ? registrations.find(r => r.pattern.test(modelId)) : undefined;
+  const key = registration || 'default';
+  let tokenizer = instances.get(key);
+  
+  if (!tokenizer) {
+    tokenizer = registration ? registration.create() : createDefaultTokenizer();
+    instances.set(key, tokenizer);
+  }
+  
+  return tokenizer;
+}
+
+/**
+ * Counts the tokens a list of chat messages takes up in the prompt, including message framing
+ * @param messages The chat messages; attached images are counted at a flat estimate, other non-text content parts are not counted
+ * @param tokenizer The tokenizer of the target model
+ */
+export function countMessageTokens(messages: { content?: any; images?: unknown[] }[], tokenizer: Tokenizer): number {
+  let total = TOKENS_PER_REPLY;
+  
+  for (const message of messages) {
+    total += TOKENS_PER_MESSAGE + tokenizer.countTokens(messageText(message.content)) + (message.images?.length || 0) * TOKENS_PER_IMAGE;
+  }
+  
+  return total;
+}
+
+function messageText(content: any): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  
+  // Content arrays (Anthropic blocks, OpenAI parts): count the text they carry
+  if (Array.isArray(content)) {
+    return content
+      .map(part => typeof part === 'string' ? part : part?.text || (typeof part?.content === 'string' ? part.content : ''))
+      .join('\n');
+  }
+  
+  return '';
+}
+
+export { BpeTokenizer, ClaudeTokenizer };
@@ -0,0 +1,8 @@
+// js-tiktoken only exposes its vocabularies through package.json "exports",
+// which the "node" module resolution used by this project doesn't read
+declare module 'js-tiktoken/ranks/*' {
+  import { TiktokenBPE } from 'js-tiktoken/lite';
+  
+  const ranks: TiktokenBPE;
+  export default ranks;
+}
@@ -0,0 +1,255 @@
+import { JsonSchema } from '../../api/providers/base-provider';
+
+// Types
+export interface JsonParseResult {
+  value?: any;
+  error?: string;
+}
+
+// Validation stops after this many errors; the first few are enough for the model to correct its answer
+const MAX_VALIDATION_ERRORS = 20;
+
+/**
+ * Parses the JSON in a model response. Models without a native JSON mode often wrap the JSON
+ * in a Markdown code fence or a sentence of prose, so those are stripped first.
+ * @param content The response content
+ */
+export function parseJsonContent(content: string): JsonParseResult {
+  const text = content.trim();
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+  const candidates = [text];
+  
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+  
+  // The outermost object or array in the text
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  
+  if (start >= 0 && end > start) {
+    candidates.push(text.substring(start, end + 1));
+  }
+  
+  let error = 'Response is empty';
+  
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+    
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch (parseError) {
+      error = `Response is not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`;
+    }
+  }
+  
+  return { error };
+}
+
+/**
+ * Validates a value against a JSON schema.
+ * Supports the keywords models are usually given: type, enum, const, properties, required,
+ * additionalProperties, items, length, size and range limits, pattern, anyOf, oneOf and allOf.
+ * Other keywords, including $ref, are ignored.
+ * @param value The value to validate
+ * @param schema The JSON schema
+ * @returns A message for each violation, with the JSON path of the offending value; empty if the value is valid
+ */
+export function validateJsonSchema(value: any, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateValue(value, schema, '$', errors);
+  return errors.slice(0, MAX_VALIDATION_ERRORS);
+}
+
+function validateValue(value: any, schema: JsonSchema | boolean, path: string, errors: string[]): void {
+  if (errors.length >= MAX_VALIDATION_ERRORS || schema === true) {
+    return;
+  }
+  
+  if (schema === false) {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+  
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+      return;
+    }
+  }
+  
+  if (schema.enum && !schema.enum.some((option: any) => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+  
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+  
+  if (typeof value === 'string') {
+    validateString(value, schema, path, errors);
+  } else if (typeof value === 'number') {
+    validateNumber(value, schema, path, errors);
+  } else if (Array.isArray(value)) {
+    validateArray(value, schema, path, errors);
+  } else if (value !== null && typeof value === 'object') {
+    validateObject(value, schema, path, errors);
+  }
+  
+  if (schema.allOf) {
+    for (const subschema of schema.allOf) {
+      validateValue(value, subschema, path, errors);
+    }
+  }
+  
+  if (schema.anyOf && !schema.anyOf.some((subschema: JsonSchema) => isValid(value, subschema, path))) {
+    errors.push(`${path}: does not match any of the allowed shapes`);
+  }
+  
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((subschema: JsonSchema) => isValid(value, subschema, path)).length;
+    
+    if (matches !== 1) {
+      errors.push(`${path}: must match exactly one of the allowed shapes, matches ${matches}`);
+    }
+  }
+}
+
+function validateString(value: string, schema: JsonSchema, path: string, errors: string[]): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${path}: must be at least ${schema.minLength} characters long`);
+  }
+  
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push(`${path}: must be at most ${schema.maxLength} characters long`);
+  }
+  
+  if (schema.pattern !== undefined) {
+    let pattern: RegExp;
+    
+    // The schema comes from the caller, so its pattern may not compile
+    try {
+      pattern = new RegExp(schema.pattern, 'u');
+    } catch (error) {
+      errors.push(`${path}: the schema's pattern ${schema.pattern} is not a valid regular expression`);
+      return;
+    }
+    
+    if (!pattern.test(value)) {
+      errors.push(`${path}: must match the pattern ${schema.pattern}`);
+    }
+  }
+}
+
+function validateNumber(value: number, schema: JsonSchema, path: string, errors: string[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${path}: must be at least ${schema.minimum}`);
+  }
+  
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push(`${path}: must be at most ${schema.maximum}`);
+  }
+  
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    errors.push(`${path}: must be greater than ${schema.exclusiveMinimum}`);
+  }
+  
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    errors.push(`${path}: must be less than ${schema.exclusiveMaximum}`);
+  }
+}
+
+function validateArray(value: any[], schema: JsonSchema, path: string, errors: string[]): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push(`${path}: must have at least ${schema.minItems} items`);
+  }
+  
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push(`${path}: must have at most ${schema.maxItems} items`);
+  }
+  
+  if (schema.items !== undefined && !Array.isArray(schema.items)) {
+    value.forEach((item, index) => validateValue(item, schema.items, `${path}[${index}]`, errors));
+  }
+}
+
+function validateObject(value: { [key: string]: any }, schema: JsonSchema, path: string, errors: string[]): void {
+  const properties: { [key: string]: JsonSchema } = schema.properties || {};
+  
+  for (const key of schema.required || []) {
+    if (!hasOwnProperty(value, key)) {
+      errors.push(`${path}: missing required property "${key}"`);
+    }
+  }
+  
+  for (const [key, propertyValue] of Object.entries(value)) {
+    const propertyPath = `${path}.${key}`;
+    
+    if (hasOwnProperty(properties, key)) {
+      validateValue(propertyValue, properties[key], propertyPath, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${propertyPath}: property is not allowed`);
+    } else if (schema.additionalProperties !== undefined && schema.additionalProperties !== true) {
+      validateValue(propertyValue, schema.additionalProperties, propertyPath, errors);
+    }
+  }
+}
+
+function isValid(value: any, schema: JsonSchema, path: string): boolean {
+  const errors: string[] = [];
+  validateValue(value, schema, path, errors);
+  return errors.length === 0;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+// Inherited properties such as "constructor" or "toString" don't count
+function hasOwnProperty(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+// Objects are equal when they have the same keys and values, in any order
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  
+  const keys = Object.keys(a);
+  
+  return keys.length === Object.keys(b).length && keys.every(key => hasOwnProperty(b, key) && deepEqual(a[key], b[key]));
+}
@@ -4,214 +4,29 @@ import { SemanticContextManager } from './core/context/semantic-manager';
 import { CodeAnalyzer } from './services/analysis/code-analyzer';
 import { SecurityService } from './security';
 import { CodeSecurityScanner } from './security/code-security-scanner';
-import { ApiProviderConfig, ModelConfig as ProviderModelConfig, ModelCapability } from './api/providers/base-provider';
-
-// Configuration for the extension
-interface AsuraConfig {
-  providers: {
-    [provider: string]: {
-      id: string;
-      name: string;
-      enabled: boolean;
-      priority: number;
-      apiEndpoint?: string;
-      apiVersion?: string;
-      timeout?: number;
-      rateLimitRPM?: number;
-      rateLimitTPM?: number;
-      models: ProviderModelConfig[];
-    };
-  };
-  models: {
-    [name: string]: {
-      provider: string;
-      modelId: string;
-      enabled: boolean;
-      priority: number;
-      capabilities: string[];
-      contextWindow: number;
-    };
-  };
-  security: {
-    enabled: boolean;
-    encryptionEnabled: boolean;
-    auditLoggingEnabled: boolean;
-    sandboxingEnabled: boolean;
-    secureStoragePath: string;
-    auditLogPath: string;
-  };
-  orchestrator: {
-    timeoutMs: number;
-    fallbackBehavior: 'error' | 'retry' | 'alternative';
-  };
-}
-
-// Default configuration
-const defaultConfig: AsuraConfig = {
-  providers: {
-    openai: {
-      id: 'openai',
-      name: 'OpenAI',
-      enabled: true,
-      priority: 10,
-      apiEndpoint: 'https://api.openai.com/v1',
-      timeout: 30000,
-      rateLimitRPM: 60,
-      rateLimitTPM: 100000,
-      models: [
-        {
-          id: 'gpt-4',
-          name: 'GPT-4',
-          enabled: true,
-          maxTokens: 4096,
-          contextWindow: 8192,
-          capabilities: [
-            ModelCapability.COMPLETION,
-            ModelCapability.CHAT,
-            ModelCapability.CODE,
-            ModelCapability.FUNCTION_CALLING
-          ],
-          costPer1KTokens: {
-            input: 0.03,
-            output: 0.06
-          }
-        },
-        {
-          id: 'gpt-3.5-turbo',
-          name: 'GPT-3.5 Turbo',
-          enabled: true,
-          maxTokens: 4096,
-          contextWindow: 4096,
-          capabilities: [
-            ModelCapability.COMPLETION,
-            ModelCapability.CHAT,
-            ModelCapability.CODE,
-            ModelCapability.FUNCTION_CALLING
-          ],
-          costPer1KTokens: {
-            input: 0.0015,
-            output: 0.002
-          }
-        },
-        {
-          id: 'text-embedding-ada-002',
-          name: 'Text Embedding Ada 002',
-          enabled: true,
-          maxTokens: 8191,
-          contextWindow: 8191,
-          capabilities: [ModelCapability.EMBEDDING],
-          costPer1KTokens: {
-            input: 0.0001,
-            output: 0.0
-          }
-        }
-      ]
-    },
-    anthropic: {
-      id: 'anthropic',
-      name: 'Anthropic',
-      enabled: true,
-      priority: 8,
-      apiEndpoint: 'https://api.anthropic.com',
-      apiVersion: '2023-06-01',
-      timeout: 30000,
-      rateLimitRPM: 50,
-      rateLimitTPM: 100000,
-      models: [
-        {
-          id: 'claude-3-opus',
-          name: 'Claude 3 Opus',
-          enabled: true,
-          maxTokens: 4096,
-          contextWindow: 200000,
-          capabilities: [
-            ModelCapability.CHAT,
-            ModelCapability.CODE,
-            ModelCapability.FUNCTION_CALLING,
-            ModelCapability.IMAGE_UNDERSTANDING
-          ],
-          costPer1KTokens: {
-            input: 0.015,
-            output: 0.075
-          }
-        },
-        {
-          id: 'claude-3-sonnet',
-          name: 'Claude 3 Sonnet',
-          enabled: true,
-          maxTokens: 4096,
-          contextWindow: 200000,
-          capabilities: [
-            ModelCapability.CHAT,
-            ModelCapability.CODE,
-            ModelCapability.FUNCTION_CALLING,
-            ModelCapability.IMAGE_UNDERSTANDING
-          ],
-          costPer1KTokens: {
-            input: 0.003,
-            output: 0.015
-          }
-        }
-      ]
-    }
-  },
-  models: {
-    'code-specialist': {
-      provider: 'openai',
-      modelId: 'gpt-4',
-      enabled: true,
-      priority: 10,
-      contextWindow: 8192,
-      capabilities: ['code-generation', 'code-explanation', 'refactoring']
-    },
-    'explanation-specialist': {
-      provider: 'anthropic',
-      modelId: 'claude-3-sonnet',
-      enabled: true,
-      priority: 8,
-      contextWindow: 100000,
-      capabilities: ['explanation', 'documentation', 'summarization']
-    },
-    'general-purpose': {
-      provider: 'openai',
-      modelId: 'gpt-3.5-turbo',
-      enabled: true,
-      priority: 5,
-      contextWindow: 4096,
-      capabilities: ['general-assistance', 'quick-answers']
-    },
-    'fallback': {
-      provider: 'openai',
-      modelId: 'gpt-3.5-turbo',
-      enabled: true,
-      priority: 1,
-      contextWindow: 4096,
-      capabilities: ['fallback-assistance']
-    }
-  },
-  security: {
-    enabled: true,
-    encryptionEnabled: true,
-    auditLoggingEnabled: true,
-    sandboxingEnabled: true,
-    secureStoragePath: '',
-    auditLogPath: ''
-  },
-  orchestrator: {
-    timeoutMs: 30000,
-    fallbackBehavior: 'alternative'
-  }
-};
+import { TestingService } from './integrations/testing';
+import { createDefaultAgentTools } from './api/agent';
+import { UsageService } from './services/usage';
+import { ResponseCacheService } from './services/cache';
+import { IMAGE_FILE_EXTENSIONS, loadImageAttachment } from './core/attachments';
+import { IntentClassifier, TASK_TYPES, TaskType } from './api/intent';
+import { PROMPTS_DIRECTORY, PromptTemplateRegistry } from './core/prompts';
+import { ResponsePanel } from './ui/response-panel';
+import { ResponseController } from './ui/response-controller';
+import { AsuraInlineCompletionProvider } from './ui/inline-completion';
+import { AsuraCodeActionProvider, AsuraCodeLensProvider, CODE_TASKS, RUN_CODE_TASK_COMMAND, createCodeTask } from './ui/code-actions';
+import { ChatViewProvider } from './ui/chat-view';
+import { EditPreviewController } from './ui/edit-preview';
+import { ChatService } from './services/chat';
+import { CONFIGURATION_SECTION, CONFIG_KEYS, createOrchestratorConfig, createScannerConfig, createSecurityConfig, loadConfiguration } from './core/config';
+import { isProviderError } from './api/providers/errors';
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('Asura AI is now active');
 
-  // Initialize configuration
-  const config = context.globalState.get<AsuraConfig>('asuraConfig') || defaultConfig;
-  
-  // Update paths in config
-  config.security.secureStoragePath = context.globalStoragePath + '/secure-storage';
-  config.security.auditLogPath = context.globalStoragePath + '/logs/audit.log';
+  // Read the configuration from settings
+  const { config, problems } = loadConfiguration(context);
+  reportConfigurationProblems(problems);
   
   // Initialize core components
   const contextManager = new SemanticContextManager({
@@ -219,10 +34,10 @@ export function activate(context: vscode.ExtensionContext) {
   });
   
   // Initialize security service
-  const securityService = new SecurityService(config.security, context);
+  const securityService = new SecurityService(createSecurityConfig(config, context.globalStoragePath), context);
   
   // Initialize security scanner
-  const securityScanner = new CodeSecurityScanner(securityService, context);
+  const securityScanner = new CodeSecurityScanner(securityService, context, createScannerConfig(config));
   
   // Store scanner in context for access
   context.globalState.update('securityScanner', securityScanner);
@@ -230,13 +45,77 @@ export function activate(context: vscode.ExtensionContext) {
   // Show activation message
   vscode.window.showInformationMessage('Asura AI Security Scanner is now active!');
   
+  // Initialize usage ledger
+  const usageService = new UsageService({
+    ...config.usage,
+    dataPath: context.globalStoragePath + '/usage'
+  }, context);
+  
+  // Initialize response cache (opt-in)
+  const responseCache = new ResponseCacheService({
+    ...config.cache,
+    dataPath: context.globalStoragePath + '/cache'
+  }, context);
+  
+  // Load prompt templates, with the workspace's overrides
+  const promptTemplates = new PromptTemplateRegistry();
+  const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  
+  if (workspacePath) {
+    promptTemplates.loadWorkspaceOverrides(workspacePath);
+    context.subscriptions.push(promptTemplates.watch(workspacePath));
+  }
+  
   // Initialize orchestrator
-  const orchestrator = new ModelOrchestrator({
-    models: config.models,
-    providers: config.providers,
-    timeoutMs: config.orchestrator.timeoutMs,
-    fallbackBehavior: config.orchestrator.fallbackBehavior
-  }, securityService);
+  const orchestrator = new ModelOrchestrator(createOrchestratorConfig(config), securityService, usageService, responseCache, promptTemplates);
+  
+  // Apply settings changes without a reload where the services support it
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+    const affects = (key: string) => event.affectsConfiguration(`${CONFIGURATION_SECTION}.${key}`);
+    
+    if (!CONFIG_KEYS.some(affects)) {
+      return;
+    }
+    
+    const { config: newConfig, problems: newProblems } = loadConfiguration(context);
+    reportConfigurationProblems(newProblems);
+    
+    if (affects('providers') || affects('models') || affects('orchestrator')) {
+      orchestrator.reconfigure(createOrchestratorConfig(newConfig));
+    } else if (affects('taskSelectors')) {
+      orchestrator.setTaskSelectors(newConfig.taskSelectors);
+    }
+    
+    if (affects('security')) {
+      securityService.updateConfig(createSecurityConfig(newConfig, context.globalStoragePath));
+      securityScanner.updateConfig(createScannerConfig(newConfig));
+    }
+    
+    // The usage ledger, response cache and intent classifier read their settings once
+    if (affects('usage') || affects('cache') || affects('intent')) {
+      vscode.window.showInformationMessage('Reload the window to apply the changed Asura AI settings.', 'Reload Window').then(action => {
+        if (action === 'Reload Window') {
+          vscode.commands.executeCommand('workbench.action.reloadWindow');
+        }
+      });
+    }
+  }));
+  
+  // Initialize testing service (used by the agent's run_tests tool)
+  const testingService = new TestingService({
+    enabled: true,
+    testFramework: 'auto',
+    autoRunTests: false,
+    showCoverage: false
+  }, context);
+  
+  // Classifies queries into task types
+  const intentClassifier = new IntentClassifier(orchestrator, config.intent);
+  
+  // Register the tools agent tasks can call
+  for (const tool of createDefaultAgentTools({ securityService, contextManager, securityScanner, testingService })) {
+    orchestrator.registerAgentTool(tool);
+  }
   
   const codeAnalyzer = new CodeAnalyzer({
     notifyIssues: (filePath, issues) => {
@@ -245,6 +124,18 @@ export function activate(context: vscode.ExtensionContext) {
     }
   });
 
+  // Register inline completions; the API only exists from VS Code 1.68 on
+  if (typeof vscode.languages.registerInlineCompletionItemProvider === 'function') {
+    context.subscriptions.push(vscode.languages.registerInlineCompletionItemProvider(
+      [{ scheme: 'file' }, { scheme: 'untitled' }],
+      new AsuraInlineCompletionProvider(orchestrator, contextManager)
+    ));
+  }
+  
+  // Shows proposed code edits as a diff and applies the accepted hunks
+  const editPreview = new EditPreviewController();
+  context.subscriptions.push(editPreview);
+  
   // Register the main command
   let disposable = vscode.commands.registerCommand('asura-ai.start', async () => {
     const editor = vscode.window.activeTextEditor;
@@ -278,255 +169,386 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
     
-    // Show progress while processing
+    // Open the response panel right away; the answer streams into it
+    const controller = new ResponseController(orchestrator, editPreview, editor);
+    const panel = controller.panel;
+    
+    try {
+      // Get relevant context for the query
+      panel.setStatus('Finding relevant context...');
+      const context = await contextManager.getRelevantContext(query, 2000);
+      const type = await determineTaskType(query, intentClassifier, panel.token);
+      
+      if (!type) {
+        panel.dispose();
+        return;
+      }
+      
+      // Create AI task
+      const task = {
+        type,
+        query,
+        context,
+        filePath,
+        language: document.languageId,
+        selection: editor.selection ? {
+          start: editor.selection.start,
+          end: editor.selection.end,
+          text: editor.document.getText(editor.selection)
+        } : undefined
+      };
+      
+      // Execute task with orchestrator
+      await controller.run(task);
+    } catch (error) {
+      // Stopped from the panel
+      if (isProviderError(error, 'cancelled')) {
+        panel.stopped();
+        return;
+      }
+      
+      panel.fail(`Asura AI error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  context.subscriptions.push(disposable);
+  
+  // Register the code tasks offered on selections and above functions and classes
+  context.subscriptions.push(vscode.commands.registerCommand(RUN_CODE_TASK_COMMAND, async (uri: vscode.Uri, range: vscode.Range, taskId: string) => {
+    const definition = CODE_TASKS.find(task => task.id === taskId);
+    
+    if (!definition) {
+      return;
+    }
+    
+    const document = await vscode.workspace.openTextDocument(uri);
+    const editor = vscode.window.visibleTextEditors.find(visible => visible.document === document) ||
+      await vscode.window.showTextDocument(document);
+    
+    const controller = new ResponseController(orchestrator, editPreview, editor, `Asura AI: ${definition.title}`);
+    const task = createCodeTask(document, range, definition);
+    
+    try {
+      controller.panel.setStatus('Finding relevant context...');
+      task.context = await contextManager.getRelevantContext(task.selection?.text || '', 2000);
+    } catch (error) {
+      console.warn('Failed to get context for code task:', error);
+    }
+    
+    await controller.run(task);
+  }));
+  
+  const codeLensProvider = new AsuraCodeLensProvider();
+  context.subscriptions.push(codeLensProvider);
+  context.subscriptions.push(vscode.languages.registerCodeLensProvider({ scheme: 'file' }, codeLensProvider));
+  context.subscriptions.push(vscode.languages.registerCodeActionsProvider(
+    [{ scheme: 'file' }, { scheme: 'untitled' }],
+    new AsuraCodeActionProvider(),
+    { providedCodeActionKinds: AsuraCodeActionProvider.providedCodeActionKinds }
+  ));
+  
+  // Register the agent command: the model works through the task step by step using workspace tools
+  const agentOutput = vscode.window.createOutputChannel('Asura AI Agent');
+  context.subscriptions.push(agentOutput);
+  
+  context.subscriptions.push(vscode.commands.registerCommand('asura-ai.runAgent', async () => {
+    const query = await vscode.window.showInputBox({
+      prompt: 'What should the Asura AI agent do?',
+      placeHolder: 'e.g., Find why the login tests fail and suggest a fix'
+    });
+    
+    if (!query) {
+      return;
+    }
+    
+    const editor = vscode.window.activeTextEditor;
+    const taskId = `agent_${Date.now()}`;
+    
+    agentOutput.clear();
+    agentOutput.show(true);
+    agentOutput.appendLine(`Task: ${query}`);
+    
+    await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Asura AI agent is working...',
+      cancellable: true
+    }, async (progress, token) => {
+      try {
+        const type = await determineTaskType(query, intentClassifier, token);
+        
+        if (!type) {
+          return;
+        }
+        
+        const result = await orchestrator.executeAgentTask({
+          id: taskId,
+          type,
+          query,
+          filePath: editor?.document.fileName,
+          language: editor?.document.languageId
+        }, {
+          onStep: (step) => {
+            if (step.type === 'tool') {
+              progress.report({ message: `Running ${step.toolName}` });
+              agentOutput.appendLine(`[${step.index}] tool ${step.toolName} ${JSON.stringify(step.arguments)}${step.error ? ` failed: ${step.error}` : ''}`);
+            } else {
+              agentOutput.appendLine(`[${step.index}] model${step.toolCalls ? ` requested ${step.toolCalls.map(call => call.name).join(', ')}` : ' answered'}`);
+            }
+          },
+          cancellationToken: token
+        });
+        
+        agentOutput.appendLine(`Finished: ${result.stopReason} after ${result.steps.length} steps (${result.usage.totalTokens} tokens)`);
+        
+        if (result.stopReason === 'error') {
+          vscode.window.showErrorMessage(`Asura AI agent error: ${result.error}`);
+          return;
+        }
+        
+        if (result.content) {
+          new ResponsePanel('Asura AI Agent', { editor }).complete(result.content, [result.model, `${result.steps.length} steps`, `${result.usage.totalTokens} tokens`].filter(Boolean).join(' · '));
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Asura AI error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  }));
+  
+  // Ask about screenshots and diagrams; from the explorer context menu the clicked image is preselected
+  context.subscriptions.push(vscode.commands.registerCommand('asura-ai.askAboutImage', async (uri?: vscode.Uri) => {
+    const imageUris = uri ? [uri] : await vscode.window.showOpenDialog({
+      canSelectMany: true,
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+      filters: { Images: IMAGE_FILE_EXTENSIONS },
+      openLabel: 'Attach'
+    });
+    
+    if (!imageUris || imageUris.length === 0) {
+      return;
+    }
+    
+    const query = await vscode.window.showInputBox({
+      prompt: `What would you like to know about ${imageUris.length === 1 ? 'this image' : 'these images'}?`,
+      placeHolder: 'e.g., Why is this button misaligned? Generate the classes in this diagram...'
+    });
+    
+    if (!query) {
+      return;
+    }
+    
+    const editor = vscode.window.activeTextEditor;
+    const controller = new ResponseController(orchestrator, editPreview, editor);
+    const panel = controller.panel;
+    
+    try {
+      panel.setStatus('Reading images...');
+      const images = await Promise.all(imageUris.map(imageUri => loadImageAttachment(imageUri.fsPath)));
+      const type = await determineTaskType(query, intentClassifier, panel.token);
+      
+      if (!type) {
+        panel.dispose();
+        return;
+      }
+      
+      await controller.run({
+        type,
+        query,
+        images,
+        filePath: editor?.document.fileName
+      });
+    } catch (error) {
+      // Stopped from the panel
+      if (isProviderError(error, 'cancelled')) {
+        panel.stopped();
+        return;
+      }
+      
+      panel.fail(`Asura AI error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }));
+  
+  // Ask several models from different providers and compare their answers
+  context.subscriptions.push(vscode.commands.registerCommand('asura-ai.startEnsemble', async () => {
+    const editor = vscode.window.activeTextEditor;
+    
+    const query = await vscode.window.showInputBox({
+      prompt: 'What should the models work on?',
+      placeHolder: 'e.g., Fix the SQL injection in this function'
+    });
+    
+    if (!query) {
+      return;
+    }
+    
+    const strategy = await vscode.window.showQuickPick([
+      { label: 'Best answer', description: 'Return the answer the judge scores highest', value: 'best' as const },
+      { label: 'Merged answer', description: 'Combine the answers and highlight where they disagree', value: 'merge' as const }
+    ], { placeHolder: 'How should the answers be combined?' });
+    
+    if (!strategy) {
+      return;
+    }
+    
     vscode.window.withProgress({
       location: vscode.ProgressLocation.Notification,
-      title: 'Asura AI is thinking...',
+      title: 'Asura AI is asking several models...',
       cancellable: true
-    }, async () => {
+    }, async (_progress, token) => {
       try {
-        // Get relevant context for the query
         const context = await contextManager.getRelevantContext(query, 2000);
+        const type = await determineTaskType(query, intentClassifier, token);
+        
+        if (!type) {
+          return;
+        }
         
-        // Create AI task
-        const task = {
-          type: determineTaskType(query),
+        const result = await orchestrator.executeEnsembleTask({
+          type,
           query,
           context,
-          filePath,
-          selection: editor.selection ? {
+          filePath: editor?.document.fileName,
+          language: editor?.document.languageId,
+          selection: editor ? {
             start: editor.selection.start,
             end: editor.selection.end,
             text: editor.document.getText(editor.selection)
           } : undefined
-        };
+        }, { strategy: strategy.value, cancellationToken: token });
         
-        // Execute task with orchestrator
-        const response = await orchestrator.executeTask(task);
-        
-        // Display response
-        const panel = vscode.window.createWebviewPanel(
-          'asuraResponse',
-          'Asura AI Response',
-          vscode.ViewColumn.Beside,
-          {
-            enableScripts: true
-          }
+        const summary = result.members.map(member =>
+          `${member.model}${member.model === result.selectedModel ? ' (selected)' : ''}: ` +
+          (member.error ? `failed (${member.error})` : `score ${member.score ?? 'n/a'}, ${member.usage.totalTokens} tokens, $${member.cost.toFixed(4)}`)
         );
         
-        panel.webview.html = getWebviewContent(response);
+        if (result.judge) {
+          summary.push(`judge ${result.judge.model}: ${result.judge.usage.totalTokens} tokens, $${result.judge.cost.toFixed(4)}`);
+        }
         
+        new ResponsePanel('Asura AI Ensemble', { editor }).complete(result.content, summary.join('\n'));
       } catch (error) {
+        // Cancelled from the progress notification
+        if (isProviderError(error, 'cancelled')) {
+          return;
+        }
+        
         vscode.window.showErrorMessage(`Asura AI error: ${error instanceof Error ? error.message : String(error)}`);
       }
     });
-  });
-
-  context.subscriptions.push(disposable);
+  }));
+  
+  // Show the prompt a task would be sent with, after templates and variables are applied
+  context.subscriptions.push(vscode.commands.registerCommand('asura-ai.previewPrompt', async () => {
+    const editor = vscode.window.activeTextEditor;
+    
+    const taskType = await vscode.window.showQuickPick(
+      (Object.keys(TASK_TYPES) as TaskType[]).map(type => ({ label: type, description: TASK_TYPES[type] })),
+      { placeHolder: 'Preview the prompt of which task type?' }
+    );
+    
+    if (!taskType) {
+      return;
+    }
+    
+    const query = await vscode.window.showInputBox({
+      prompt: 'Query to preview the prompt with; leave empty for a placeholder without codebase context'
+    });
+    
+    if (query === undefined) {
+      return;
+    }
+    
+    try {
+      const task = {
+        type: taskType.label,
+        query: query || '<your query>',
+        context: query ? await contextManager.getRelevantContext(query, 2000) : undefined,
+        filePath: editor?.document.fileName,
+        language: editor?.document.languageId,
+        selection: editor && !editor.selection.isEmpty ? {
+          start: editor.selection.start,
+          end: editor.selection.end,
+          text: editor.document.getText(editor.selection)
+        } : undefined
+      };
+      
+      const sources = promptTemplates.getTemplateSources(task.type);
+      const describe = (source: string) => source === 'bundled' ? 'bundled' : vscode.workspace.asRelativePath(source);
+      const sections = orchestrator.renderPrompt(task).map(message => `## ${message.role}\n\n${message.content}`);
+      
+      const document = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: `# Prompt preview: ${task.type}\n\n` +
+          `Templates: system ${describe(sources.system)}, context ${describe(sources.context)}, context chunk ${describe(sources.contextChunk)}. ` +
+          `Override them in ${PROMPTS_DIRECTORY}.\n\n` +
+          sections.join('\n\n')
+      });
+      
+      await vscode.window.showTextDocument(document, vscode.ViewColumn.Beside);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to preview prompt: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }));
   
-  // Register sidebar view
-  const sidebarProvider = new AsuraSidebarProvider(context.extensionUri);
+  // Register the chat view; threads are kept per workspace
+  const chatService = new ChatService({
+    dataPath: context.storagePath ? context.storagePath + '/chat' : context.globalStoragePath + '/chat'
+  }, context);
+  
+  const chatViewProvider = new ChatViewProvider(orchestrator, chatService);
+  context.subscriptions.push(chatViewProvider);
   context.subscriptions.push(
-    vscode.window.registerWebviewViewProvider('asura-ai.sidebar', sidebarProvider)
+    vscode.window.registerWebviewViewProvider('asura-ai.sidebar', chatViewProvider, {
+      webviewOptions: { retainContextWhenHidden: true }
+    })
   );
+  
+  context.subscriptions.push(vscode.commands.registerCommand('asura-ai.newChat', async () => {
+    await vscode.commands.executeCommand('asura-ai.sidebar.focus');
+    chatViewProvider.newThread();
+  }));
 }
 
-// Helper function to determine task type from query
-function determineTaskType(query: string): string {
-  const lowerQuery = query.toLowerCase();
-  
-  if (lowerQuery.includes('explain') || lowerQuery.includes('what') || lowerQuery.includes('how')) {
-    return 'explain';
-  } else if (lowerQuery.includes('refactor') || lowerQuery.includes('improve')) {
-    return 'refactor';
-  } else if (lowerQuery.includes('generate') || lowerQuery.includes('create')) {
-    return 'generate';
-  } else if (lowerQuery.includes('test') || lowerQuery.includes('debug')) {
-    return 'test';
-  } else {
-    return 'general';
+// Helper function to show the settings that were ignored
+function reportConfigurationProblems(problems: string[]): void {
+  if (problems.length === 0) {
+    return;
   }
+  
+  console.warn('Ignored invalid Asura AI settings:', problems);
+  
+  const summary = problems.length === 1 ? problems[0] : `${problems[0]} (and ${problems.length - 1} more)`;
+  vscode.window.showWarningMessage(`Asura AI ignored an invalid setting: ${summary}`, 'Open Settings').then(action => {
+    if (action === 'Open Settings') {
+      vscode.commands.executeCommand('workbench.action.openSettings', CONFIGURATION_SECTION);
+    }
+  });
 }
 
-// Helper function to generate webview content
-function getWebviewContent(response: any): string {
-  return `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Asura AI Response</title>
-      <style>
-        body {
-          font-family: var(--vscode-font-family);
-          padding: 20px;
-          color: var(--vscode-editor-foreground);
-          background-color: var(--vscode-editor-background);
-        }
-        pre {
-          background-color: var(--vscode-textCodeBlock-background);
-          padding: 16px;
-          border-radius: 4px;
-          overflow: auto;
-        }
-        code {
-          font-family: var(--vscode-editor-font-family);
-          font-size: var(--vscode-editor-font-size);
-        }
-        .action-button {
-          background-color: var(--vscode-button-background);
-          color: var(--vscode-button-foreground);
-          border: none;
-          padding: 8px 12px;
-          border-radius: 2px;
-          cursor: pointer;
-          margin-right: 8px;
-          margin-top: 16px;
-        }
-        .action-button:hover {
-          background-color: var(--vscode-button-hoverBackground);
-        }
-      </style>
-    </head>
-    <body>
-      <h2>Asura AI Response</h2>
-      <div id="response-content">
-        ${formatResponse(response)}
-      </div>
-      <div class="actions">
-        <button class="action-button" id="insert-btn">Insert at Cursor</button>
-        <button class="action-button" id="copy-btn">Copy to Clipboard</button>
-      </div>
-      <script>
-        const vscode = acquireVsCodeApi();
-        
-        document.getElementById('insert-btn').addEventListener('click', () => {
-          vscode.postMessage({
-            command: 'insert',
-            text: ${JSON.stringify(response.content || '')}
-          });
-        });
-        
-        document.getElementById('copy-btn').addEventListener('click', () => {
-          vscode.postMessage({
-            command: 'copy',
-            text: ${JSON.stringify(response.content || '')}
-          });
-        });
-      </script>
-    </body>
-    </html>
-  `;
-}
-
-// Helper function to format response
-function formatResponse(response: any): string {
-  if (!response) {
-    return '<p>No response received</p>';
-  }
+/**
+ * Determines the task type of a query. Ambiguous queries are confirmed with the user.
+ * @param query The user's query
+ * @param classifier The intent classifier
+ * @param token Optional token that cancels the classification
+ * @returns The task type, or undefined if the user dismissed the choice
+ */
+async function determineTaskType(query: string, classifier: IntentClassifier, token?: vscode.CancellationToken): Promise<string | undefined> {
+  const classification = await classifier.classify(query, token);
   
-  let html = '';
-  
-  if (response.explanation) {
-    html += `<div class="explanation">${response.explanation}</div>`;
+  if (!classifier.isAmbiguous(classification)) {
+    return classification.type;
   }
   
-  if (response.content) {
-    html += `<pre><code>${escapeHtml(response.content)}</code></pre>`;
-  }
+  // Offer the likely task types first, then the rest
+  const suggested = [classification.type, ...classification.alternatives.map(alternative => alternative.type)];
+  const others = (Object.keys(TASK_TYPES) as TaskType[]).filter(type => !suggested.includes(type));
   
-  return html;
-}
-
-// Helper function to escape HTML
-function escapeHtml(unsafe: string): string {
-  return unsafe
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
-}
-
-// Sidebar provider class
-class AsuraSidebarProvider implements vscode.WebviewViewProvider {
-  constructor(private readonly _extensionUri: vscode.Uri) {}
-
-  resolveWebviewView(
-    webviewView: vscode.WebviewView,
-    _context: vscode.WebviewViewResolveContext,
-    _token: vscode.CancellationToken
-  ) {
-    webviewView.webview.options = {
-      enableScripts: true,
-      localResourceRoots: [this._extensionUri]
-    };
-
-    webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
-    
-    // Handle messages from the webview
-    webviewView.webview.onDidReceiveMessage(message => {
-      switch (message.command) {
-        case 'askQuestion':
-          vscode.commands.executeCommand('asura-ai.start');
-          break;
-      }
-    });
-  }
-
-  private _getHtmlForWebview(_webview: vscode.Webview) {
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Asura AI</title>
-        <style>
-          body {
-            font-family: var(--vscode-font-family);
-            padding: 20px;
-            color: var(--vscode-editor-foreground);
-          }
-          button {
-            background-color: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-            border: none;
-            padding: 8px 12px;
-            border-radius: 2px;
-            cursor: pointer;
-            margin-top: 16px;
-            width: 100%;
-          }
-          button:hover {
-            background-color: var(--vscode-button-hoverBackground);
-          }
-          .logo {
-            width: 100%;
-            max-width: 100px;
-            margin: 0 auto;
-            display: block;
-          }
-        </style>
-      </head>
-      <body>
-        <img src="https://raw.githubusercontent.com/asura-ai/vscode-extension/main/resources/icon.png" alt="Asura AI Logo" class="logo">
-        <h2>Asura AI</h2>
-        <p>Advanced AI coding assistant with multi-model capabilities and semantic context management.</p>
-        <button id="ask-button">Ask Asura AI</button>
-        <script>
-          const vscode = acquireVsCodeApi();
-          document.getElementById('ask-button').addEventListener('click', () => {
-            vscode.postMessage({
-              command: 'askQuestion'
-            });
-          });
-        </script>
-      </body>
-      </html>
-    `;
-  }
+  const choice = await vscode.window.showQuickPick(
+    [...suggested, ...others].map(type => ({ label: type, description: TASK_TYPES[type] })),
+    { placeHolder: 'What should Asura AI do with this request?' },
+    token
+  );
+  
+  return choice?.label;
 }
 
 export function deactivate() {
@@ -924,4 +924,19 @@ export class TestingService {
     
     return template;
   }
+  
+  // Public methods
+  
+  /**
+   * Runs the workspace test suite, or a single test file, and returns the parsed results
+   * @param testFile Optional path of a test file to run on its own
+   * @returns The test suite results
+   */
+  public async runTestSuite(testFile?: string): Promise<TestSuiteResult> {
+    if (!this.initialized) {
+      throw new Error('Testing service is not initialized');
+    }
+    
+    return this.executeTests(testFile);
+  }
 }
@@ -73,6 +73,14 @@ export interface SecurityRule {
   enabled: boolean;
 }
 
+export interface SecurityScannerConfig {
+  realtimeScanning: boolean;
+  scanOnSave: boolean;
+  scanOnCommit: boolean;
+  // IDs of the rules to skip, e.g. 'secrets-1'
+  disabledRules: string[];
+}
+
 // Real-time security scanner
 export class CodeSecurityScanner {
   private diagnosticCollection: vscode.DiagnosticCollection;
@@ -80,15 +88,47 @@ export class CodeSecurityScanner {
   private realtimeEnabled: boolean = true;
   private scanOnSave: boolean = true;
   private scanOnCommit: boolean = true;
+  private disabledRules: Set<string> = new Set();
   
   constructor(
     private readonly securityService: SecurityService,
-    private readonly context: vscode.ExtensionContext
+    private readonly context: vscode.ExtensionContext,
+    config?: SecurityScannerConfig
   ) {
     this.diagnosticCollection = vscode.languages.createDiagnosticCollection('asura-security');
     this.initializeSecurityRules();
     this.setupEventListeners();
     this.registerCommands();
+    
+    if (config) {
+      this.applyConfig(config);
+    }
+  }
+  
+  /**
+   * Applies a new configuration and rescans the open files that have findings, so findings of disabled rules go away
+   * @param config The new configuration
+   */
+  public async updateConfig(config: SecurityScannerConfig): Promise<void> {
+    this.applyConfig(config);
+    
+    const scannedUris = new Set<string>();
+    this.diagnosticCollection.forEach(uri => {
+      scannedUris.add(uri.toString());
+    });
+    
+    for (const document of vscode.workspace.textDocuments) {
+      if (scannedUris.has(document.uri.toString())) {
+        await this.scanDocument(document);
+      }
+    }
+  }
+  
+  private applyConfig(config: SecurityScannerConfig): void {
+    this.realtimeEnabled = config.realtimeScanning;
+    this.scanOnSave = config.scanOnSave;
+    this.scanOnCommit = config.scanOnCommit;
+    this.disabledRules = new Set(config.disabledRules);
   }
   
   private initializeSecurityRules(): void {
@@ -282,7 +322,7 @@ export class CodeSecurityScanner {
     
     // Apply security rules
     for (const rule of this.securityRules) {
-      if (!rule.enabled || !rule.languages.includes(language)) {
+      if (!rule.enabled || this.disabledRules.has(rule.id) || !rule.languages.includes(language)) {
         continue;
       }
       
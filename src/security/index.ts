@@ -45,7 +45,7 @@ export class SecurityService {
   private initialized: boolean = false;
   
   constructor(
-    private readonly config: SecurityConfig,
+    private config: SecurityConfig,
     private readonly context: vscode.ExtensionContext
   ) {
     if (this.config.enabled) {
@@ -53,6 +53,32 @@ export class SecurityService {
     }
   }
   
+  /**
+   * Applies a new configuration. Turning the service on initializes it, and turning encryption
+   * or audit logging on sets up their storage. Values already stored are not re-encrypted.
+   * @param config The new configuration
+   */
+  public async updateConfig(config: SecurityConfig): Promise<void> {
+    const previous = this.config;
+    this.config = config;
+    
+    if (!config.enabled) {
+      // The same state as a service that was never enabled
+      this.initialized = false;
+      return;
+    }
+    
+    if (!this.initialized || config.encryptionEnabled !== previous.encryptionEnabled || config.auditLoggingEnabled !== previous.auditLoggingEnabled) {
+      await this.initialize();
+    }
+    
+    await this.logAudit(AuditLogLevel.INFO, 'security.reconfigure', undefined, undefined, {
+      encryptionEnabled: config.encryptionEnabled,
+      auditLoggingEnabled: config.auditLoggingEnabled,
+      sandboxingEnabled: config.sandboxingEnabled
+    }, true);
+  }
+  
   private async initialize(): Promise<void> {
     try {
       // Create secure storage directory if it doesn't exist
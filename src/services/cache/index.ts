@@ -0,0 +1,310 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ApiResponse, ChatMessage, JsonSchema, ToolChoice, ToolDefinition } from '../../api/providers/base-provider';
+
+// Types
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  dataPath: string;
+  ttlHours: number;
+  maxSizeMB: number;
+  // Tasks sampled above this temperature are expected to vary, so they are never cached
+  maxTemperature: number;
+}
+
+// Everything about a request that can change the model's answer
+export interface CacheKeyRequest {
+  provider: string;
+  modelId: string;
+  temperature: number;
+  maxTokens: number;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  responseSchema?: JsonSchema;
+}
+
+interface CacheEntry {
+  key: string;
+  response: ApiResponse;
+  createdAt: number;
+  lastAccessedAt: number;
+  size: number;
+}
+
+// Writes are batched so a burst of requests doesn't rewrite the cache for each one
+const SAVE_DELAY_MS = 1000;
+
+// Access times only order evictions, so a cache hit doesn't rewrite the cache; they are saved with the next change or after this delay
+const ACCESS_TIME_SAVE_DELAY_MS = 5 * 60 * 1000;
+
+// Response cache: answers repeated requests from disk instead of sending (and paying for) them again
+export class ResponseCacheService {
+  private entries: Map<string, CacheEntry> = new Map();
+  private totalSize: number = 0;
+  private saveTimer?: NodeJS.Timeout;
+  private accessTimeSaveTimer?: NodeJS.Timeout;
+  private initialized: boolean = false;
+  
+  constructor(
+    private readonly config: ResponseCacheConfig,
+    private readonly context: vscode.ExtensionContext
+  ) {
+    this.initialize();
+  }
+  
+  private async initialize(): Promise<void> {
+    try {
+      // Load data from storage
+      if (this.config.enabled) {
+        await this.loadData();
+      }
+      
+      // Register commands
+      this.registerCommands();
+      
+      this.initialized = true;
+      
+      console.log('Response cache initialized');
+    } catch (error) {
+      console.error('Failed to initialize response cache:', error);
+      vscode.window.showErrorMessage(`Failed to initialize response cache: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  private async loadData(): Promise<void> {
+    await fs.mkdir(this.config.dataPath, { recursive: true });
+    
+    const cachePath = path.join(this.config.dataPath, 'responses.json');
+    
+    try {
+      const cacheData = await fs.readFile(cachePath, 'utf-8');
+      
+      for (const entry of JSON.parse(cacheData) as CacheEntry[]) {
+        // Responses cached while loading are newer, so they win
+        if (!this.isExpired(entry) && !this.entries.has(entry.key)) {
+          this.entries.set(entry.key, entry);
+          this.totalSize += entry.size;
+        }
+      }
+      
+      this.evict();
+      
+      console.log(`Loaded ${this.entries.size} cached responses`);
+    } catch (error) {
+      // File might not exist yet, that's okay
+      console.log('No cached responses found, starting with empty cache');
+    }
+  }
+  
+  private async saveData(): Promise<void> {
+    // This write includes the latest access times
+    if (this.accessTimeSaveTimer) {
+      clearTimeout(this.accessTimeSaveTimer);
+      this.accessTimeSaveTimer = undefined;
+    }
+    
+    try {
+      await fs.mkdir(this.config.dataPath, { recursive: true });
+      
+      const cachePath = path.join(this.config.dataPath, 'responses.json');
+      await fs.writeFile(cachePath, JSON.stringify(Array.from(this.entries.values())), 'utf-8');
+    } catch (error) {
+      console.error('Error saving response cache:', error);
+    }
+  }
+  
+  private scheduleSave(): void {
+    if (this.saveTimer || !this.initialized) {
+      return;
+    }
+    
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.saveData();
+    }, SAVE_DELAY_MS);
+  }
+  
+  private scheduleAccessTimeSave(): void {
+    if (this.accessTimeSaveTimer || this.saveTimer || !this.initialized) {
+      return;
+    }
+    
+    this.accessTimeSaveTimer = setTimeout(() => {
+      this.accessTimeSaveTimer = undefined;
+      this.saveData();
+    }, ACCESS_TIME_SAVE_DELAY_MS);
+  }
+  
+  private registerCommands(): void {
+    this.context.subscriptions.push(
+      vscode.commands.registerCommand('asura-ai.clearResponseCache', this.clearResponseCache.bind(this)),
+      { dispose: () => this.flush() }
+    );
+  }
+  
+  // Public methods
+  
+  /**
+   * Checks whether a request may be answered from, and stored in, the cache
+   * @param temperature The sampling temperature of the request
+   * @param streaming Whether the response is streamed to the caller
+   */
+  public isCacheable(temperature: number, streaming: boolean): boolean {
+    return this.config.enabled && !streaming && temperature <= this.config.maxTemperature;
+  }
+  
+  /**
+   * Computes the cache key of a request. Messages are normalized first, so differences
+   * in line endings and trailing whitespace don't cause a miss.
+   * @param request The request
+   */
+  public getKey(request: CacheKeyRequest): string {
+    const normalized = {
+      ...request,
+      messages: request.messages.map(message => ({
+        role: message.role,
+        content: this.normalizeText(message.content),
+        toolCalls: message.toolCalls,
+        toolCallId: message.toolCallId,
+        name: message.name,
+        images: message.images
+      }))
+    };
+    
+    return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  }
+  
+  /**
+   * Gets a cached response, marked with cached: true
+   * @param key The request's cache key
+   * @returns The response, or undefined if nothing unexpired is cached for the key
+   */
+  public get(key: string): ApiResponse | undefined {
+    const entry = this.entries.get(key);
+    
+    if (!entry) {
+      return undefined;
+    }
+    
+    if (this.isExpired(entry)) {
+      this.remove(entry);
+      this.scheduleSave();
+      return undefined;
+    }
+    
+    entry.lastAccessedAt = Date.now();
+    this.scheduleAccessTimeSave();
+    
+    return { ...entry.response, cached: true };
+  }
+  
+  /**
+   * Stores a response, evicting the least recently used responses if the cache grows too large
+   * @param key The request's cache key
+   * @param response The response
+   */
+  public set(key: string, response: ApiResponse): void {
+    if (!this.config.enabled) {
+      return;
+    }
+    
+    const { cached, ...stored } = response;
+    const size = Buffer.byteLength(JSON.stringify(stored), 'utf-8');
+    
+    // A response that could never fit would just empty the cache
+    if (size > this.getMaxSize()) {
+      return;
+    }
+    
+    const existing = this.entries.get(key);
+    
+    if (existing) {
+      this.remove(existing);
+    }
+    
+    const now = Date.now();
+    this.entries.set(key, { key, response: stored, createdAt: now, lastAccessedAt: now, size });
+    this.totalSize += size;
+    
+    this.evict();
+    this.scheduleSave();
+  }
+  
+  /**
+   * Removes every cached response
+   */
+  public async clear(): Promise<void> {
+    this.entries.clear();
+    this.totalSize = 0;
+    
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    
+    await this.saveData();
+  }
+  
+  /**
+   * Writes any pending changes to disk
+   */
+  public async flush(): Promise<void> {
+    if (this.saveTimer || this.accessTimeSaveTimer) {
+      if (this.saveTimer) {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+      }
+      
+      await this.saveData();
+    }
+  }
+  
+  // Command handlers
+  private async clearResponseCache(): Promise<void> {
+    const count = this.entries.size;
+    
+    await this.clear();
+    
+    vscode.window.showInformationMessage(`Cleared ${count} cached ${count === 1 ? 'response' : 'responses'}`);
+  }
+  
+  // Helper methods
+  private normalizeText(text: string): string {
+    return (text || '')
+      .replace(/\r\n/g, '\n')
+      .replace(/[ \t]+$/gm, '')
+      .trim();
+  }
+  
+  private isExpired(entry: CacheEntry): boolean {
+    return Date.now() - entry.createdAt > this.config.ttlHours * 60 * 60 * 1000;
+  }
+  
+  private getMaxSize(): number {
+    return this.config.maxSizeMB * 1024 * 1024;
+  }
+  
+  private remove(entry: CacheEntry): void {
+    this.entries.delete(entry.key);
+    this.totalSize -= entry.size;
+  }
+  
+  private evict(): void {
+    if (this.totalSize <= this.getMaxSize()) {
+      return;
+    }
+    
+    const leastRecentlyUsed = Array.from(this.entries.values()).sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    
+    for (const entry of leastRecentlyUsed) {
+      if (this.totalSize <= this.getMaxSize()) {
+        break;
+      }
+      
+      this.remove(entry);
+    }
+  }
+}
@@ -0,0 +1,252 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChatMessage } from '../../api/providers/base-provider';
+
+// Types
+export interface ChatConfig {
+  // Per-workspace storage directory
+  dataPath: string;
+}
+
+export interface ChatThreadMessage {
+  role: 'user' | 'assistant';
+  // What the user typed, or the model's answer
+  content: string;
+  // The user message as sent to the model, with @-mentions expanded; unset if it's the same as content
+  prompt?: string;
+  timestamp: string;
+  model?: string;
+  // Set on an assistant message when the request failed or was stopped; content holds whatever streamed before
+  error?: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatThreadMessage[];
+}
+
+// Writes are batched so a streamed conversation doesn't rewrite the file for every message
+const SAVE_DELAY_MS = 1000;
+
+// Titles taken from the first message are cut to this length
+const MAX_TITLE_LENGTH = 50;
+
+// Chat threads of the sidebar chat, persisted per workspace
+export class ChatService {
+  private threads: Map<string, ChatThread> = new Map();
+  private saveTimer?: NodeJS.Timeout;
+  private initialized: boolean = false;
+  // Changes made before loading finished; they are saved once it has
+  private dirty: boolean = false;
+  // Threads deleted before loading finished, which must not come back from the file
+  private deletedWhileLoading: Set<string> = new Set();
+  
+  constructor(
+    private readonly config: ChatConfig,
+    private readonly context: vscode.ExtensionContext
+  ) {
+    this.initialize();
+  }
+  
+  private async initialize(): Promise<void> {
+    try {
+      // Load data from storage
+      await this.loadData();
+      
+      console.log('Chat service initialized');
+    } catch (error) {
+      console.error('Failed to initialize chat service:', error);
+      vscode.window.showErrorMessage(`Failed to load chat history: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    // New threads are saved even if the history couldn't be loaded
+    this.context.subscriptions.push({ dispose: () => this.flush() });
+    this.initialized = true;
+    this.deletedWhileLoading.clear();
+    
+    // Persist anything changed while the threads were loading
+    if (this.dirty) {
+      this.dirty = false;
+      this.scheduleSave();
+    }
+  }
+  
+  private async loadData(): Promise<void> {
+    await fs.mkdir(this.config.dataPath, { recursive: true });
+    
+    const threadsPath = path.join(this.config.dataPath, 'threads.json');
+    
+    try {
+      const threadsData = await fs.readFile(threadsPath, 'utf-8');
+      
+      for (const thread of JSON.parse(threadsData) as ChatThread[]) {
+        // Threads started while loading are newer, so they win
+        if (!this.threads.has(thread.id) && !this.deletedWhileLoading.has(thread.id)) {
+          this.threads.set(thread.id, thread);
+        }
+      }
+      
+      console.log(`Loaded ${this.threads.size} chat threads`);
+    } catch (error) {
+      // File might not exist yet, that's okay
+      console.log('No chat threads found, starting with empty history');
+    }
+  }
+  
+  private async saveData(): Promise<void> {
+    try {
+      await fs.mkdir(this.config.dataPath, { recursive: true });
+      
+      const threadsPath = path.join(this.config.dataPath, 'threads.json');
+      await fs.writeFile(threadsPath, JSON.stringify(Array.from(this.threads.values()), null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Error saving chat threads:', error);
+    }
+  }
+  
+  private scheduleSave(): void {
+    if (!this.initialized) {
+      this.dirty = true;
+      return;
+    }
+    
+    if (this.saveTimer) {
+      return;
+    }
+    
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.saveData();
+    }, SAVE_DELAY_MS);
+  }
+  
+  // Public methods
+  
+  /**
+   * Gets all threads, most recently updated first
+   */
+  public getThreads(): ChatThread[] {
+    return Array.from(this.threads.values()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+  
+  /**
+   * Gets a thread
+   * @param threadId The thread ID
+   */
+  public getThread(threadId: string): ChatThread | undefined {
+    return this.threads.get(threadId);
+  }
+  
+  /**
+   * Starts a new, empty thread. It is titled after its first message unless renamed before.
+   */
+  public createThread(): ChatThread {
+    const now = new Date().toISOString();
+    const thread: ChatThread = {
+      id: `chat_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      title: 'New chat',
+      createdAt: now,
+      updatedAt: now,
+      messages: []
+    };
+    
+    this.threads.set(thread.id, thread);
+    this.scheduleSave();
+    
+    return thread;
+  }
+  
+  /**
+   * Renames a thread
+   * @param threadId The thread ID
+   * @param title The new title
+   */
+  public renameThread(threadId: string, title: string): void {
+    const thread = this.threads.get(threadId);
+    
+    if (thread && title.trim()) {
+      thread.title = title.trim();
+      this.scheduleSave();
+    }
+  }
+  
+  /**
+   * Deletes a thread and its messages
+   * @param threadId The thread ID
+   */
+  public deleteThread(threadId: string): void {
+    // While loading, the thread may still be on its way in from the file
+    if (!this.initialized) {
+      this.deletedWhileLoading.add(threadId);
+      this.threads.delete(threadId);
+      this.scheduleSave();
+    } else if (this.threads.delete(threadId)) {
+      this.scheduleSave();
+    }
+  }
+  
+  /**
+   * Adds a message to a thread
+   * @param threadId The thread ID
+   * @param message The message, without a timestamp
+   */
+  public addMessage(threadId: string, message: Omit<ChatThreadMessage, 'timestamp'>): void {
+    const thread = this.threads.get(threadId);
+    
+    if (!thread) {
+      throw new Error(`Chat thread ${threadId} not found`);
+    }
+    
+    const now = new Date().toISOString();
+    
+    if (thread.messages.length === 0 && message.role === 'user' && thread.title === 'New chat') {
+      const firstLine = message.content.trim().split('\n')[0];
+      thread.title = firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.substring(0, MAX_TITLE_LENGTH - 3)}...` : firstLine || thread.title;
+    }
+    
+    thread.messages.push({ ...message, timestamp: now });
+    thread.updatedAt = now;
+    
+    this.scheduleSave();
+  }
+  
+  /**
+   * Gets a thread's messages in the form they are sent to a model.
+   * Exchanges whose answer failed are left out, so the conversation alternates between user and assistant.
+   * @param threadId The thread ID
+   */
+  public getHistory(threadId: string): ChatMessage[] {
+    const messages = this.threads.get(threadId)?.messages || [];
+    const history: ChatMessage[] = [];
+    
+    for (let i = 0; i < messages.length; i++) {
+      const message = messages[i];
+      const answer = messages[i + 1];
+      
+      if (message.role !== 'user' || !answer || answer.role !== 'assistant' || answer.error) {
+        continue;
+      }
+      
+      history.push({ role: 'user', content: message.prompt || message.content });
+      history.push({ role: 'assistant', content: answer.content });
+      i++;
+    }
+    
+    return history;
+  }
+  
+  /**
+   * Writes any pending changes to disk
+   */
+  public async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      await this.saveData();
+    }
+  }
+}
@@ -0,0 +1,378 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Types
+export interface UsageConfig {
+  enabled: boolean;
+  dataPath: string;
+  // Spending limits in USD; 0 or unset means no limit
+  dailyBudget?: number;
+  monthlyBudget?: number;
+  // What the orchestrator does once a budget is used up
+  budgetAction: 'refuse' | 'downgrade';
+  retentionDays: number;
+}
+
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  taskId: string;
+  taskType: string;
+  model: string;
+  provider: string;
+  modelId: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface BudgetStatus {
+  exceeded: boolean;
+  period?: 'day' | 'month';
+  spent: number;
+  budget?: number;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public readonly status: BudgetStatus) {
+    super(`The ${status.period === 'day' ? 'daily' : 'monthly'} budget of $${(status.budget || 0).toFixed(2)} has been reached ($${status.spent.toFixed(2)} spent)`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Writes are batched so a burst of requests doesn't rewrite the ledger for each one
+const SAVE_DELAY_MS = 1000;
+
+// Usage ledger: records the tokens and cost of every model request and enforces spending budgets
+export class UsageService {
+  private records: UsageRecord[] = [];
+  private saveTimer?: NodeJS.Timeout;
+  private initialized: boolean = false;
+  
+  constructor(
+    private readonly config: UsageConfig,
+    private readonly context: vscode.ExtensionContext
+  ) {
+    this.initialize();
+  }
+  
+  private async initialize(): Promise<void> {
+    try {
+      // Load data from storage
+      await this.loadData();
+      
+      // Register commands
+      this.registerCommands();
+      
+      this.initialized = true;
+      
+      // Persist anything recorded while the ledger was loading
+      if (this.records.length > 0) {
+        this.scheduleSave();
+      }
+      
+      console.log('Usage service initialized');
+    } catch (error) {
+      console.error('Failed to initialize usage service:', error);
+      vscode.window.showErrorMessage(`Failed to initialize usage tracking: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  private async loadData(): Promise<void> {
+    await fs.mkdir(this.config.dataPath, { recursive: true });
+    
+    const ledgerPath = path.join(this.config.dataPath, 'usage.json');
+    
+    try {
+      const ledgerData = await fs.readFile(ledgerPath, 'utf-8');
+      const cutoff = Date.now() - this.config.retentionDays * 24 * 60 * 60 * 1000;
+      
+      // Records made before loading finished are kept as well
+      const loaded = (JSON.parse(ledgerData) as UsageRecord[]).filter(record => new Date(record.timestamp).getTime() >= cutoff);
+      this.records = loaded.concat(this.records);
+      
+      console.log(`Loaded ${loaded.length} usage records`);
+    } catch (error) {
+      // File might not exist yet, that's okay
+      console.log('No usage records found, starting with empty ledger');
+    }
+  }
+  
+  private async saveData(): Promise<void> {
+    try {
+      await fs.mkdir(this.config.dataPath, { recursive: true });
+      
+      const ledgerPath = path.join(this.config.dataPath, 'usage.json');
+      await fs.writeFile(ledgerPath, JSON.stringify(this.records, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Error saving usage data:', error);
+    }
+  }
+  
+  private scheduleSave(): void {
+    if (this.saveTimer || !this.initialized) {
+      return;
+    }
+    
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.saveData();
+    }, SAVE_DELAY_MS);
+  }
+  
+  private registerCommands(): void {
+    this.context.subscriptions.push(
+      vscode.commands.registerCommand('asura-ai.showUsage', this.showUsage.bind(this)),
+      { dispose: () => this.flush() }
+    );
+  }
+  
+  // Public methods
+  
+  /**
+   * Records the usage of a completed model request
+   * @param entry The request's model, task and token counts, with the cost computed by the provider
+   */
+  public record(entry: Omit<UsageRecord, 'id' | 'timestamp'>): void {
+    if (!this.config.enabled) {
+      return;
+    }
+    
+    this.records.push({
+      ...entry,
+      id: this.generateId(),
+      timestamp: new Date().toISOString()
+    });
+    
+    this.scheduleSave();
+  }
+  
+  /**
+   * Writes any pending records to disk
+   */
+  public async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      await this.saveData();
+    }
+  }
+  
+  /**
+   * Gets the total spend of the current day or month
+   * @param period The period
+   */
+  public getSpend(period: 'day' | 'month'): number {
+    const prefix = period === 'day' ? this.getDayKey(new Date()) : this.getDayKey(new Date()).substring(0, 7);
+    
+    return this.records
+      .filter(record => this.getDayKey(new Date(record.timestamp)).startsWith(prefix))
+      .reduce((total, record) => total + record.cost, 0);
+  }
+  
+  /**
+   * Checks the current spend against the daily and monthly budgets
+   */
+  public getBudgetStatus(): BudgetStatus {
+    if (!this.config.enabled) {
+      return { exceeded: false, spent: 0 };
+    }
+    
+    const dailySpend = this.getSpend('day');
+    
+    if (this.config.dailyBudget && dailySpend >= this.config.dailyBudget) {
+      return { exceeded: true, period: 'day', spent: dailySpend, budget: this.config.dailyBudget };
+    }
+    
+    const monthlySpend = this.getSpend('month');
+    
+    if (this.config.monthlyBudget && monthlySpend >= this.config.monthlyBudget) {
+      return { exceeded: true, period: 'month', spent: monthlySpend, budget: this.config.monthlyBudget };
+    }
+    
+    return { exceeded: false, spent: dailySpend };
+  }
+  
+  /**
+   * Gets the action to take once a budget is used up
+   */
+  public getBudgetAction(): UsageConfig['budgetAction'] {
+    return this.config.budgetAction;
+  }
+  
+  /**
+   * Sums usage grouped by a key
+   * @param groupBy The record field to group by, or 'day'
+   */
+  public getTotals(groupBy: 'day' | 'model' | 'taskType'): Map<string, UsageTotals> {
+    const totals: Map<string, UsageTotals> = new Map();
+    
+    for (const record of this.records) {
+      const key = groupBy === 'day' ? this.getDayKey(new Date(record.timestamp)) : record[groupBy];
+      const entry = totals.get(key) || { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+      
+      entry.requests++;
+      entry.promptTokens += record.promptTokens;
+      entry.completionTokens += record.completionTokens;
+      entry.totalTokens += record.totalTokens;
+      entry.cost += record.cost;
+      
+      totals.set(key, entry);
+    }
+    
+    return totals;
+  }
+  
+  // Command handlers
+  private async showUsage(): Promise<void> {
+    const panel = vscode.window.createWebviewPanel(
+      'asuraUsage',
+      'Asura AI Usage',
+      vscode.ViewColumn.One,
+      {}
+    );
+    
+    panel.webview.html = this.getUsageHtml();
+  }
+  
+  private getUsageHtml(): string {
+    const byDay = Array.from(this.getTotals('day').entries()).sort((a, b) => b[0].localeCompare(a[0]));
+    const byModel = Array.from(this.getTotals('model').entries()).sort((a, b) => b[1].cost - a[1].cost);
+    const byTask = Array.from(this.getTotals('taskType').entries()).sort((a, b) => b[1].cost - a[1].cost);
+    const budget = this.getBudgetStatus();
+    
+    const renderTable = (title: string, label: string, rows: [string, UsageTotals][]) => `
+      <h2>${title}</h2>
+      ${rows.length === 0 ? '<p>No usage recorded yet.</p>' : `
+        <table>
+          <thead>
+            <tr>
+              <th>${label}</th>
+              <th>Requests</th>
+              <th>Prompt Tokens</th>
+              <th>Completion Tokens</th>
+              <th>Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows.map(([key, totals]) => `
+              <tr>
+                <td>${this.escapeHtml(key)}</td>
+                <td>${totals.requests}</td>
+                <td>${totals.promptTokens.toLocaleString()}</td>
+                <td>${totals.completionTokens.toLocaleString()}</td>
+                <td>$${totals.cost.toFixed(4)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      `}
+    `;
+    
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Asura AI Usage</title>
+        <style>
+          body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            color: var(--vscode-editor-foreground);
+            background-color: var(--vscode-editor-background);
+          }
+          .summary {
+            display: flex;
+            justify-content: space-between;
+            margin-bottom: 20px;
+          }
+          .summary-item {
+            text-align: center;
+            padding: 10px;
+            border-radius: 5px;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+          }
+          .summary-item h3 {
+            margin: 0;
+          }
+          .summary-item p {
+            font-size: 24px;
+            font-weight: bold;
+            margin: 10px 0 0 0;
+          }
+          .exceeded {
+            color: var(--vscode-errorForeground);
+          }
+          table {
+            width: 100%;
+            border-collapse: collapse;
+          }
+          th, td {
+            padding: 8px;
+            text-align: left;
+            border-bottom: 1px solid var(--vscode-panel-border);
+          }
+          th {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+          }
+        </style>
+      </head>
+      <body>
+        <h1>Asura AI Usage</h1>
+        
+        <div class="summary">
+          <div class="summary-item">
+            <h3>Today</h3>
+            <p class="${budget.exceeded && budget.period === 'day' ? 'exceeded' : ''}">$${this.getSpend('day').toFixed(2)}${this.config.dailyBudget ? ` / $${this.config.dailyBudget.toFixed(2)}` : ''}</p>
+          </div>
+          <div class="summary-item">
+            <h3>This Month</h3>
+            <p class="${budget.exceeded && budget.period === 'month' ? 'exceeded' : ''}">$${this.getSpend('month').toFixed(2)}${this.config.monthlyBudget ? ` / $${this.config.monthlyBudget.toFixed(2)}` : ''}</p>
+          </div>
+          <div class="summary-item">
+            <h3>Requests</h3>
+            <p>${this.records.length}</p>
+          </div>
+        </div>
+        
+        ${renderTable('By Day', 'Day', byDay)}
+        ${renderTable('By Model', 'Model', byModel)}
+        ${renderTable('By Task', 'Task', byTask)}
+      </body>
+      </html>
+    `;
+  }
+  
+  // Helper methods
+  private getDayKey(date: Date): string {
+    // Local calendar day, so budgets reset at the user's midnight
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+  
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+  
+  private generateId(): string {
+    return `usage_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+}
@@ -0,0 +1,19 @@
+import * as path from 'path';
+import { runTests } from 'vscode-test';
+
+async function main(): Promise<void> {
+  try {
+    // The folder containing the extension's package.json
+    const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+    
+    // The test suite loader
+    const extensionTestsPath = path.resolve(__dirname, './suite/index');
+    
+    await runTests({ extensionDevelopmentPath, extensionTestsPath });
+  } catch (error) {
+    console.error('Failed to run tests:', error);
+    process.exit(1);
+  }
+}
+
+main();
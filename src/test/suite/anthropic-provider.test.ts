@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicProvider } from '../../api/providers/anthropic-provider';
+import { ApiProviderConfig, ModelCapability } from '../../api/providers/base-provider';
+import { isProviderError } from '../../api/providers/errors';
+import { SecurityService } from '../../security';
+
+// The key is set in the config, so the security service is never asked for it
+const securityService = {} as unknown as SecurityService;
+
+// Events in the order and shape the Messages API streams them
+const STREAM_EVENTS = [
+  { type: 'message_start', message: { id: 'msg_1', type: 'message', role: 'assistant', content: [], model: 'claude-3-sonnet', stop_reason: null, stop_sequence: null, usage: { input_tokens: 25, output_tokens: 1 } } },
+  { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+  { type: 'ping' },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' world' } },
+  { type: 'content_block_stop', index: 0 },
+  { type: 'message_delta', delta: { stop_reason: 'end_turn', stop_sequence: null }, usage: { output_tokens: 7 } },
+  { type: 'message_stop' }
+];
+
+function toServerSentEvents(events: { type: string }[]): string {
+  return events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+}
+
+function createConfig(apiEndpoint: string): ApiProviderConfig {
+  return {
+    id: 'anthropic',
+    name: 'Anthropic',
+    enabled: true,
+    priority: 8,
+    apiKey: 'test-key',
+    apiEndpoint,
+    timeout: 5000,
+    models: [
+      {
+        id: 'claude-3-sonnet',
+        name: 'Claude 3 Sonnet',
+        enabled: true,
+        maxTokens: 1024,
+        contextWindow: 200000,
+        capabilities: [ModelCapability.CHAT, ModelCapability.CODE],
+        costPer1KTokens: { input: 0.003, output: 0.015 }
+      }
+    ]
+  };
+}
+
+suite('AnthropicProvider', () => {
+  const messages = [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Say hello' }];
+  let body = '';
+  let server: http.Server;
+  let baseUrl: string;
+  
+  suiteSetup(async () => {
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        // Split mid-event, as the network may
+        res.write(body.substring(0, 150));
+        res.end(body.substring(150));
+      });
+    });
+    
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  
+  suiteTeardown(() => new Promise<void>(resolve => server.close(() => resolve())));
+  
+  test('streamingChat streams text deltas and reads usage from message_start and message_delta', async () => {
+    body = toServerSentEvents(STREAM_EVENTS);
+    const provider = new AnthropicProvider(createConfig(baseUrl), securityService);
+    const chunks: string[] = [];
+    
+    const response = await provider.streamingChat(messages, { model: 'claude-3-sonnet' }, chunk => chunks.push(chunk));
+    
+    assert.strictEqual(chunks.join(''), 'Hello world');
+    assert.strictEqual(response.content, 'Hello world');
+    assert.strictEqual(response.id, 'msg_1');
+    assert.strictEqual(response.finishReason, 'end_turn');
+    assert.strictEqual(response.usage.promptTokens, 25);
+    assert.strictEqual(response.usage.completionTokens, 7);
+    assert.strictEqual(response.usage.totalTokens, 32);
+  });
+  
+  test('streamingChat rejects on an error event', async () => {
+    body = toServerSentEvents([
+      STREAM_EVENTS[0],
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } as { type: string }
+    ]);
+    const provider = new AnthropicProvider(createConfig(baseUrl), securityService);
+    
+    await assert.rejects(
+      provider.streamingChat(messages, { model: 'claude-3-sonnet' }, () => undefined),
+      (error: unknown) => isProviderError(error, 'server_error') && error.message === 'Overloaded'
+    );
+  });
+});
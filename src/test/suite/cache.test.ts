@@ -0,0 +1,180 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ApiResponse } from '../../api/providers/base-provider';
+import { CacheKeyRequest, ResponseCacheConfig, ResponseCacheService } from '../../services/cache';
+
+function createResponse(content: string): ApiResponse {
+  return {
+    id: 'response',
+    model: 'gpt-4o',
+    content,
+    usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    created: 0
+  };
+}
+
+const request: CacheKeyRequest = {
+  provider: 'openai',
+  modelId: 'gpt-4o',
+  temperature: 0,
+  maxTokens: 100,
+  messages: [{ role: 'system', content: 'You explain code.' }, { role: 'user', content: 'Explain:\nconst a = 1;' }]
+};
+
+suite('ResponseCacheService', () => {
+  const originalNow = Date.now;
+  let now: number;
+  let dataPath: string;
+  let caches: ResponseCacheService[];
+  
+  const cachePath = () => path.join(dataPath, 'responses.json');
+  
+  // Creates a cache over a file holding one response, and waits for it to load
+  const createCache = async (config: Partial<ResponseCacheConfig> = {}): Promise<ResponseCacheService> => {
+    const seed = { key: 'seed', response: createResponse('Seed'), createdAt: now, lastAccessedAt: now, size: 100 };
+    await fs.writeFile(cachePath(), JSON.stringify([seed]), 'utf-8');
+    
+    const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+    const service = new ResponseCacheService({ enabled: true, dataPath, ttlHours: 24, maxSizeMB: 1, maxTemperature: 0.2, ...config }, context);
+    caches.push(service);
+    
+    for (let i = 0; i < 100 && !service.get('seed'); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    
+    assert.ok(service.get('seed'), 'cache did not load');
+    
+    return service;
+  };
+  
+  setup(async () => {
+    now = originalNow();
+    Date.now = () => now;
+    dataPath = await fs.mkdtemp(path.join(os.tmpdir(), 'asura-cache-'));
+    caches = [];
+  });
+  
+  teardown(async () => {
+    Date.now = originalNow;
+    
+    for (const cache of caches) {
+      await cache.flush();
+    }
+    
+    await fs.rm(dataPath, { recursive: true, force: true });
+  });
+  
+  test('normalizes line endings and trailing whitespace in keys', async () => {
+    const cache = await createCache();
+    const key = cache.getKey(request);
+    
+    const reformatted = { ...request, messages: [{ role: 'system' as const, content: 'You explain code.  ' }, { role: 'user' as const, content: 'Explain:  \r\nconst a = 1;\r\n' }] };
+    assert.strictEqual(cache.getKey(reformatted), key);
+  });
+  
+  test('keys differ for anything that changes the answer', async () => {
+    const cache = await createCache();
+    const key = cache.getKey(request);
+    const variants: CacheKeyRequest[] = [
+      { ...request, modelId: 'gpt-4o-mini' },
+      { ...request, provider: 'azure' },
+      { ...request, temperature: 0.1 },
+      { ...request, maxTokens: 200 },
+      { ...request, messages: [request.messages[0], { role: 'user', content: 'Explain:\nconst a = 2;' }] },
+      { ...request, messages: [request.messages[0], { ...request.messages[1], role: 'assistant' }] },
+      { ...request, responseSchema: { type: 'object' } },
+      { ...request, tools: [{ name: 'read_file', description: 'Reads a file', parameters: { type: 'object' } }] }
+    ];
+    
+    for (const variant of variants) {
+      assert.notStrictEqual(cache.getKey(variant), key, JSON.stringify(variant));
+    }
+  });
+  
+  test('only caches deterministic, unstreamed requests', async () => {
+    const cache = await createCache();
+    
+    assert.strictEqual(cache.isCacheable(0, false), true);
+    assert.strictEqual(cache.isCacheable(0.2, false), true);
+    assert.strictEqual(cache.isCacheable(0.7, false), false);
+    assert.strictEqual(cache.isCacheable(0, true), false);
+  });
+  
+  test('caches nothing while disabled', async () => {
+    const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+    const disabled = new ResponseCacheService({ enabled: false, dataPath, ttlHours: 24, maxSizeMB: 1, maxTemperature: 0.2 }, context);
+    
+    disabled.set('key', createResponse('Answer'));
+    
+    assert.strictEqual(disabled.isCacheable(0, false), false);
+    assert.strictEqual(disabled.get('key'), undefined);
+  });
+  
+  test('marks hits as cached', async () => {
+    const cache = await createCache();
+    cache.set('key', { ...createResponse('Answer'), cached: false });
+    
+    assert.deepStrictEqual(cache.get('key'), { ...createResponse('Answer'), cached: true });
+    assert.strictEqual(cache.get('other'), undefined);
+  });
+  
+  test('expires responses after ttlHours', async () => {
+    const cache = await createCache({ ttlHours: 1 });
+    cache.set('key', createResponse('Answer'));
+    
+    now += 60 * 60 * 1000;
+    assert.ok(cache.get('key'));
+    
+    now += 1;
+    assert.strictEqual(cache.get('key'), undefined);
+  });
+  
+  test('evicts the least recently used responses once it is too large', async () => {
+    // Room for about three of these responses
+    const size = Buffer.byteLength(JSON.stringify(createResponse('x'.repeat(1000))), 'utf-8');
+    const cache = await createCache({ maxSizeMB: (3 * size + 200) / (1024 * 1024) });
+    
+    cache.set('first', createResponse('1'.repeat(1000)));
+    now += 1;
+    cache.set('second', createResponse('2'.repeat(1000)));
+    now += 1;
+    cache.set('third', createResponse('3'.repeat(1000)));
+    now += 1;
+    assert.ok(cache.get('first'));
+    now += 1;
+    cache.set('fourth', createResponse('4'.repeat(1000)));
+    
+    assert.ok(cache.get('first'));
+    assert.strictEqual(cache.get('second'), undefined);
+    assert.ok(cache.get('third'));
+    assert.ok(cache.get('fourth'));
+    assert.strictEqual(cache.get('seed'), undefined);
+  });
+  
+  test('does not store a response larger than the whole cache', async () => {
+    const cache = await createCache({ maxSizeMB: 500 / (1024 * 1024) });
+    cache.set('large', createResponse('x'.repeat(1000)));
+    
+    assert.strictEqual(cache.get('large'), undefined);
+    assert.ok(cache.get('seed'));
+  });
+  
+  test('saves access times without rewriting the file on each hit', async () => {
+    const cache = await createCache();
+    await fs.rm(cachePath());
+    
+    now += 1000;
+    cache.get('seed');
+    cache.get('seed');
+    await new Promise(resolve => setTimeout(resolve, 1200));
+    
+    await assert.rejects(fs.access(cachePath()));
+    
+    await cache.flush();
+    const saved = JSON.parse(await fs.readFile(cachePath(), 'utf-8'));
+    assert.strictEqual(saved[0].lastAccessedAt, now);
+  });
+});
@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { applyHunksToText, createEditProposal, createWorkspaceEdit, diffLines, EditProposal } from '../../core/edits';
+
+const SOURCE = [
+  "import { add } from './math';",
+  '',
+  'export function total(values: number[]): number {',
+  '  return values.reduce(add, 0);',
+  '}',
+  ''
+].join('\n');
+
+function fence(code: string): string {
+  return 'Here you go:\n\n```typescript\n' + code + '\n```\n';
+}
+
+function createProposal(originalText: string, proposedText: string): EditProposal {
+  const originalLines = originalText.split('\n');
+  return { uri: vscode.Uri.file('/workspace/example.ts'), documentVersion: 1, eol: '\n', originalLines, hunks: diffLines(originalLines, proposedText.split('\n')) };
+}
+
+// Applies a workspace edit's text edits to the text of the proposal's document
+function applyWorkspaceEdit(proposal: EditProposal, edit: vscode.WorkspaceEdit): string {
+  const offsetAt = (position: vscode.Position) => proposal.originalLines
+    .slice(0, position.line)
+    .reduce((offset, line) => offset + line.length + proposal.eol.length, position.character);
+  const textEdits = [...edit.get(proposal.uri)].sort((a, b) => offsetAt(b.range.start) - offsetAt(a.range.start));
+  let text = proposal.originalLines.join(proposal.eol);
+  
+  for (const textEdit of textEdits) {
+    text = text.substring(0, offsetAt(textEdit.range.start)) + textEdit.newText + text.substring(offsetAt(textEdit.range.end));
+  }
+  
+  return text;
+}
+
+suite('edits', () => {
+  suite('diffLines', () => {
+    test('finds no hunks between equal texts', () => {
+      assert.deepStrictEqual(diffLines(['a', 'b'], ['a', 'b']), []);
+    });
+    
+    test('keeps separate changes in separate hunks', () => {
+      assert.deepStrictEqual(diffLines(['a', 'b', 'c', 'd', 'e'], ['a', 'B', 'c', 'd', 'E', 'f']), [
+        { startLine: 1, originalLines: ['b'], newLines: ['B'] },
+        { startLine: 4, originalLines: ['e'], newLines: ['E', 'f'] }
+      ]);
+    });
+    
+    test('reports insertions and deletions', () => {
+      assert.deepStrictEqual(diffLines(['a', 'c'], ['a', 'b', 'c']), [{ startLine: 1, originalLines: [], newLines: ['b'] }]);
+      assert.deepStrictEqual(diffLines(['a', 'b', 'c'], ['a']), [{ startLine: 1, originalLines: ['b', 'c'], newLines: [] }]);
+    });
+  });
+  
+  suite('createEditProposal', () => {
+    test('replaces the selection and indents the code like it', async () => {
+      const document = await vscode.workspace.openTextDocument({ content: SOURCE, language: 'typescript' });
+      const proposal = createEditProposal(document, fence('return values.reduce(add, 1);'), new vscode.Selection(3, 0, 4, 0));
+      
+      assert.ok(proposal);
+      assert.deepStrictEqual(proposal.hunks, [
+        { startLine: 3, originalLines: ['  return values.reduce(add, 0);'], newLines: ['  return values.reduce(add, 1);'] }
+      ]);
+    });
+    
+    test('replaces the whole file with a new version of it', async () => {
+      const document = await vscode.workspace.openTextDocument({ content: SOURCE, language: 'typescript' });
+      const code = SOURCE.trimEnd().replace('reduce(add, 0)', 'reduce(add, 0) || 0');
+      const proposal = createEditProposal(document, fence(code), new vscode.Selection(0, 0, 0, 0));
+      
+      assert.ok(proposal);
+      assert.strictEqual(applyHunksToText(proposal, proposal.hunks), code + '\n');
+      assert.strictEqual(proposal.hunks.length, 1);
+    });
+    
+    test('inserts unrelated code at the cursor even when it is as long as the file', async () => {
+      const document = await vscode.workspace.openTextDocument({ content: SOURCE, language: 'typescript' });
+      const code = [
+        'export function average(values: number[]): number {',
+        '  return total(values) / values.length;',
+        '}'
+      ].join('\n');
+      const endOfImport = SOURCE.indexOf('\n');
+      const proposal = createEditProposal(document, fence(code), new vscode.Selection(0, endOfImport, 0, endOfImport));
+      
+      assert.ok(proposal);
+      assert.deepStrictEqual(proposal.hunks, [{ startLine: 1, originalLines: [], newLines: code.split('\n') }]);
+    });
+    
+    test('does nothing with unrelated code and no cursor', async () => {
+      const document = await vscode.workspace.openTextDocument({ content: SOURCE, language: 'typescript' });
+      const code = ['function unrelated() {', '  return 1;', '}', ''].join('\n');
+      
+      assert.strictEqual(createEditProposal(document, fence(code)), undefined);
+    });
+    
+    test('does nothing without code or without changes', async () => {
+      const document = await vscode.workspace.openTextDocument({ content: SOURCE, language: 'typescript' });
+      
+      assert.strictEqual(createEditProposal(document, 'Nothing to change.'), undefined);
+      assert.strictEqual(createEditProposal(document, fence(SOURCE.trimEnd())), undefined);
+    });
+  });
+  
+  suite('createWorkspaceEdit', () => {
+    const original = ['const a = 1;', 'const b = 2;', 'const c = 3;', 'const d = 4;'].join('\n');
+    
+    test('applies only the chosen hunks', () => {
+      const proposal = createProposal(original, original.replace('a = 1', 'a = 10').replace('d = 4', 'd = 40'));
+      assert.strictEqual(proposal.hunks.length, 2);
+      
+      for (const hunks of [[proposal.hunks[0]], [proposal.hunks[1]], proposal.hunks]) {
+        const expected = applyHunksToText(proposal, hunks);
+        assert.strictEqual(applyWorkspaceEdit(proposal, createWorkspaceEdit(proposal, hunks)), expected);
+      }
+      
+      assert.strictEqual(applyHunksToText(proposal, [proposal.hunks[1]]), original.replace('d = 4', 'd = 40'));
+    });
+    
+    test('appends lines after the last line', () => {
+      const proposal = createProposal(original, original + '\nconst e = 5;');
+      
+      assert.strictEqual(applyWorkspaceEdit(proposal, createWorkspaceEdit(proposal, proposal.hunks)), original + '\nconst e = 5;');
+    });
+    
+    test('deletes the last lines with the line break before them', () => {
+      const proposal = createProposal(original, 'const a = 1;\nconst b = 2;');
+      
+      assert.strictEqual(applyWorkspaceEdit(proposal, createWorkspaceEdit(proposal, proposal.hunks)), 'const a = 1;\nconst b = 2;');
+    });
+    
+    test('deletes and inserts lines in the middle', () => {
+      const proposed = 'const a = 1;\nconst x = 0;\nconst y = 0;\nconst d = 4;';
+      const proposal = createProposal(original, proposed);
+      
+      assert.strictEqual(applyWorkspaceEdit(proposal, createWorkspaceEdit(proposal, proposal.hunks)), proposed);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import { ProviderHealthTracker } from '../../api/health';
+
+suite('ProviderHealthTracker', () => {
+  const policy = { failureThreshold: 3, cooldownMs: 1000, windowSize: 4 };
+  const originalNow = Date.now;
+  let now: number;
+  let tracker: ProviderHealthTracker;
+  
+  // Opens the circuit with failureThreshold consecutive failures
+  const openCircuit = () => {
+    for (let i = 0; i < policy.failureThreshold; i++) {
+      tracker.recordFailure('alpha', 100, 'Server error');
+    }
+  };
+  
+  setup(() => {
+    now = 1000000;
+    Date.now = () => now;
+    tracker = new ProviderHealthTracker(policy);
+  });
+  
+  teardown(() => {
+    Date.now = originalNow;
+  });
+  
+  test('an unknown provider is closed and available', () => {
+    assert.strictEqual(tracker.tryAcquire('alpha'), true);
+    assert.deepStrictEqual(tracker.getHealth('alpha'), { state: 'closed', successRate: 1, consecutiveFailures: 0, totalRequests: 0 });
+  });
+  
+  test('the circuit opens after failureThreshold consecutive failures', () => {
+    tracker.recordFailure('alpha', 100, 'Server error');
+    tracker.recordFailure('alpha', 100, 'Server error');
+    assert.strictEqual(tracker.getHealth('alpha').state, 'closed');
+    
+    tracker.recordFailure('alpha', 100, 'Bad gateway');
+    const health = tracker.getHealth('alpha');
+    
+    assert.strictEqual(health.state, 'open');
+    assert.strictEqual(health.consecutiveFailures, 3);
+    assert.strictEqual(health.lastError, 'Bad gateway');
+    assert.strictEqual(health.retryAt?.getTime(), now + policy.cooldownMs);
+    assert.strictEqual(tracker.isAvailable('alpha'), false);
+    assert.strictEqual(tracker.tryAcquire('alpha'), false);
+  });
+  
+  test('a success resets the count of consecutive failures', () => {
+    tracker.recordFailure('alpha', 100, 'Server error');
+    tracker.recordFailure('alpha', 100, 'Server error');
+    tracker.recordSuccess('alpha', 100);
+    tracker.recordFailure('alpha', 100, 'Server error');
+    
+    assert.strictEqual(tracker.getHealth('alpha').state, 'closed');
+    assert.strictEqual(tracker.getHealth('alpha').consecutiveFailures, 1);
+  });
+  
+  test('after the cooldown a single probe is let through', () => {
+    openCircuit();
+    now += policy.cooldownMs;
+    
+    assert.strictEqual(tracker.isAvailable('alpha'), true);
+    assert.strictEqual(tracker.tryAcquire('alpha'), true);
+    assert.strictEqual(tracker.getHealth('alpha').state, 'half-open');
+    assert.strictEqual(tracker.isAvailable('alpha'), false);
+    assert.strictEqual(tracker.tryAcquire('alpha'), false);
+  });
+  
+  test('a successful probe closes the circuit', () => {
+    openCircuit();
+    now += policy.cooldownMs;
+    tracker.tryAcquire('alpha');
+    tracker.recordSuccess('alpha', 100);
+    
+    assert.strictEqual(tracker.getHealth('alpha').state, 'closed');
+    assert.strictEqual(tracker.tryAcquire('alpha'), true);
+    assert.strictEqual(tracker.tryAcquire('alpha'), true);
+  });
+  
+  test('a failed probe opens the circuit for another cooldown', () => {
+    openCircuit();
+    now += policy.cooldownMs;
+    tracker.tryAcquire('alpha');
+    tracker.recordFailure('alpha', 100, 'Server error');
+    
+    assert.strictEqual(tracker.getHealth('alpha').state, 'open');
+    assert.strictEqual(tracker.tryAcquire('alpha'), false);
+    
+    now += policy.cooldownMs;
+    assert.strictEqual(tracker.tryAcquire('alpha'), true);
+  });
+  
+  test('a released probe can be claimed again', () => {
+    openCircuit();
+    now += policy.cooldownMs;
+    tracker.tryAcquire('alpha');
+    tracker.releaseProbe('alpha');
+    
+    assert.strictEqual(tracker.getHealth('alpha').state, 'half-open');
+    assert.strictEqual(tracker.tryAcquire('alpha'), true);
+    assert.strictEqual(tracker.tryAcquire('alpha'), false);
+  });
+  
+  test('a probe that never reports back expires after the cooldown', () => {
+    openCircuit();
+    now += policy.cooldownMs;
+    tracker.tryAcquire('alpha');
+    
+    now += policy.cooldownMs - 1;
+    assert.strictEqual(tracker.tryAcquire('alpha'), false);
+    
+    now += 1;
+    assert.strictEqual(tracker.tryAcquire('alpha'), true);
+  });
+  
+  test('success rate and latency cover the last windowSize requests', () => {
+    tracker.recordFailure('alpha', 1000, 'Server error');
+    tracker.recordSuccess('alpha', 100);
+    tracker.recordSuccess('alpha', 200);
+    tracker.recordFailure('alpha', 300, 'Server error');
+    
+    let health = tracker.getHealth('alpha');
+    assert.strictEqual(health.successRate, 0.5);
+    assert.strictEqual(health.averageLatencyMs, 400);
+    
+    // The first failure drops out of the window
+    tracker.recordSuccess('alpha', 400);
+    health = tracker.getHealth('alpha');
+    
+    assert.strictEqual(health.successRate, 0.75);
+    assert.strictEqual(health.averageLatencyMs, 250);
+    assert.strictEqual(health.totalRequests, 5);
+  });
+  
+  test('providers are tracked separately', () => {
+    openCircuit();
+    
+    assert.strictEqual(tracker.tryAcquire('alpha'), false);
+    assert.strictEqual(tracker.tryAcquire('beta'), true);
+  });
+});
@@ -0,0 +1,32 @@
+import * as path from 'path';
+import Mocha from 'mocha';
+import glob from 'glob';
+
+// Runs every *.test.js file next to this one inside the extension host
+export function run(): Promise<void> {
+  const mocha = new Mocha({ ui: 'tdd', color: true, timeout: 10000 });
+  const testsRoot = path.resolve(__dirname);
+  
+  return new Promise((resolve, reject) => {
+    glob('**/*.test.js', { cwd: testsRoot }, (error, files) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      
+      files.forEach(file => mocha.addFile(path.resolve(testsRoot, file)));
+      
+      try {
+        mocha.run(failures => {
+          if (failures > 0) {
+            reject(new Error(`${failures} tests failed.`));
+          } else {
+            resolve();
+          }
+        });
+      } catch (runError) {
+        reject(runError);
+      }
+    });
+  });
+}
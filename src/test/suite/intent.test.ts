@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { classifyByKeywords, IntentClassifier } from '../../api/intent';
+import { ModelOrchestrator } from '../../api/orchestrator';
+import { ApiResponse } from '../../api/providers/base-provider';
+import { CancelledError, ServerError } from '../../api/providers/errors';
+
+// Stands in for the orchestrator, answering classification tasks with the given handler
+function createClassifier(handler: () => Promise<ApiResponse>, useModel: boolean = true): IntentClassifier {
+  const orchestrator = { executeTask: handler } as unknown as ModelOrchestrator;
+  return new IntentClassifier(orchestrator, { useModel, confidenceThreshold: 0.7 });
+}
+
+suite('intent classification', () => {
+  suite('classifyByKeywords', () => {
+    test('a single strong keyword gives a confident classification', () => {
+      assert.deepStrictEqual(classifyByKeywords('Please refactor this function'), { type: 'refactor', confidence: 0.8, alternatives: [], source: 'keywords' });
+      assert.strictEqual(classifyByKeywords('Write unit tests for the parser').type, 'test');
+      assert.strictEqual(classifyByKeywords('Add a JSDoc comment').type, 'document');
+    });
+    
+    test('several strong keywords make the classification ambiguous', () => {
+      const classification = classifyByKeywords('Fix the bug and add tests');
+      
+      assert.strictEqual(classification.type, 'fix');
+      assert.strictEqual(classification.confidence, 0.4);
+      assert.deepStrictEqual(classification.alternatives, [{ type: 'test', confidence: 0.4 }]);
+    });
+    
+    test('a security fix is not ambiguous with a fix', () => {
+      assert.deepStrictEqual(classifyByKeywords('Fix the SQL injection bug'), { type: 'security-fix', confidence: 0.8, alternatives: [], source: 'keywords' });
+    });
+    
+    test('weak keywords only apply without a strong one', () => {
+      assert.strictEqual(classifyByKeywords('Why does this return the wrong value?').type, 'fix');
+      assert.strictEqual(classifyByKeywords('How does this work?').type, 'explain');
+      assert.strictEqual(classifyByKeywords('Explain how this works').confidence, 0.8);
+    });
+    
+    test('a query without keywords is general', () => {
+      assert.deepStrictEqual(classifyByKeywords('Hello there'), { type: 'general', confidence: 0.6, alternatives: [], source: 'keywords' });
+    });
+  });
+  
+  suite('IntentClassifier', () => {
+    test('uses the model classification', async () => {
+      const classifier = createClassifier(async () => ({
+        id: 'response',
+        model: 'gpt-4o-mini',
+        content: '',
+        json: { type: 'review', confidence: 0.5, alternatives: [{ type: 'explain', confidence: 0.2 }, { type: 'review', confidence: 0.5 }, { type: 'fix', confidence: 0.3 }] },
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        created: 0
+      }));
+      
+      const classification = await classifier.classify('Look over this code');
+      
+      assert.deepStrictEqual(classification, {
+        type: 'review',
+        confidence: 0.5,
+        alternatives: [{ type: 'fix', confidence: 0.3 }, { type: 'explain', confidence: 0.2 }],
+        source: 'model'
+      });
+      assert.strictEqual(classifier.isAmbiguous(classification), true);
+    });
+    
+    test('falls back to keywords when the model fails', async () => {
+      const classifier = createClassifier(async () => {
+        throw new ServerError('Overloaded');
+      });
+      
+      const classification = await classifier.classify('Fix the crash on startup');
+      
+      assert.deepStrictEqual(classification, { type: 'fix', confidence: 0.8, alternatives: [], source: 'keywords' });
+      assert.strictEqual(classifier.isAmbiguous(classification), false);
+    });
+    
+    test('falls back to keywords when no model can answer', async () => {
+      const classifier = createClassifier(async () => {
+        throw new Error('No model selector available for task: classify');
+      });
+      
+      assert.strictEqual((await classifier.classify('Generate a REST client')).type, 'generate');
+    });
+    
+    test('does not ask a model when that is turned off', async () => {
+      const classifier = createClassifier(async () => assert.fail('the model was asked'), false);
+      
+      assert.strictEqual((await classifier.classify('Document this class')).source, 'keywords');
+    });
+    
+    test('a cancelled classification is not replaced by the keyword guess', async () => {
+      const classifier = createClassifier(async () => {
+        throw new CancelledError();
+      });
+      
+      await assert.rejects(classifier.classify('Fix this'), CancelledError);
+    });
+  });
+});
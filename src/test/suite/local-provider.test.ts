@@ -0,0 +1,223 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LocalProvider } from '../../api/providers/local-provider';
+import { ApiProviderConfig, ModelCapability } from '../../api/providers/base-provider';
+import { SecurityService } from '../../security';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: any;
+}
+
+// Local servers run without a key, so the security service is only asked for one that isn't there
+const securityService = { secureRetrieve: async () => undefined } as unknown as SecurityService;
+
+// Answers the Ollama and OpenAI-compatible endpoints the provider calls, and records each request
+function startStubServer(requests: RecordedRequest[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const parsed = body ? JSON.parse(body) : undefined;
+      requests.push({ method: req.method || '', url: req.url || '', body: parsed });
+      
+      const json = (data: any) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+      
+      switch (req.url) {
+        case '/api/tags':
+          json({ models: [] });
+          break;
+        case '/api/chat':
+          if (parsed.stream) {
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+            res.write(JSON.stringify({ model: 'llama3', message: { role: 'assistant', content: 'Hello' }, done: false }) + '\n');
+            // A line split across chunks has to be reassembled
+            const last = JSON.stringify({ model: 'llama3', message: { role: 'assistant', content: ' world' }, done: true, done_reason: 'stop', prompt_eval_count: 12, eval_count: 3 });
+            res.write(last.substring(0, 20));
+            res.end(last.substring(20) + '\n');
+          } else {
+            json({ model: 'llama3', created_at: '2025-01-01T00:00:00Z', message: { role: 'assistant', content: 'Hello from Ollama' }, done: true, done_reason: 'stop', prompt_eval_count: 10, eval_count: 4 });
+          }
+          break;
+        case '/api/embeddings':
+          json({ embedding: [0.1, 0.2, 0.3] });
+          break;
+        case '/v1/models':
+          json({ data: [] });
+          break;
+        case '/v1/chat/completions':
+          if (parsed.stream) {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.write(`data: ${JSON.stringify({ id: 'chatcmpl-1', created: 1700000000, model: 'llama3', choices: [{ index: 0, delta: { content: 'Hello' }, finish_reason: null }] })}\n\n`);
+            res.write(`data: ${JSON.stringify({ id: 'chatcmpl-1', created: 1700000000, model: 'llama3', choices: [{ index: 0, delta: { content: ' world' }, finish_reason: 'stop' }] })}\n\n`);
+            res.end('data: [DONE]\n\n');
+          } else {
+            json({
+              id: 'chatcmpl-2',
+              created: 1700000000,
+              model: 'llama3',
+              choices: [{ index: 0, message: { role: 'assistant', content: 'Hello from the server' }, finish_reason: 'stop' }],
+              usage: { prompt_tokens: 9, completion_tokens: 5, total_tokens: 14 }
+            });
+          }
+          break;
+        case '/v1/embeddings':
+          json({ data: [{ embedding: [0.4, 0.5], index: 0 }] });
+          break;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+  });
+  
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function createConfig(apiFormat: 'openai' | 'ollama', apiEndpoint: string): ApiProviderConfig {
+  return {
+    id: 'local',
+    name: 'Local',
+    enabled: true,
+    priority: 5,
+    apiEndpoint,
+    apiFormat,
+    timeout: 5000,
+    models: [
+      {
+        id: 'llama3',
+        name: 'Llama 3',
+        enabled: true,
+        maxTokens: 256,
+        contextWindow: 8192,
+        capabilities: [ModelCapability.CHAT, ModelCapability.COMPLETION],
+        costPer1KTokens: { input: 0, output: 0 }
+      },
+      {
+        id: 'embed',
+        name: 'Embed',
+        enabled: true,
+        maxTokens: 8192,
+        contextWindow: 8192,
+        capabilities: [ModelCapability.EMBEDDING],
+        costPer1KTokens: { input: 0, output: 0 }
+      }
+    ]
+  };
+}
+
+suite('LocalProvider', () => {
+  const requests: RecordedRequest[] = [];
+  const messages = [{ role: 'user', content: 'Say hello' }];
+  let server: http.Server;
+  let baseUrl: string;
+  
+  suiteSetup(async () => {
+    server = await startStubServer(requests);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  
+  suiteTeardown(() => new Promise<void>(resolve => server.close(() => resolve())));
+  
+  setup(() => {
+    requests.length = 0;
+  });
+  
+  suite('Ollama format', () => {
+    test('chat returns the message and token counts', async () => {
+      const provider = new LocalProvider(createConfig('ollama', baseUrl), securityService);
+      const response = await provider.chat(messages, { model: 'llama3', temperature: 0.2 });
+      
+      assert.strictEqual(response.content, 'Hello from Ollama');
+      assert.strictEqual(response.usage.promptTokens, 10);
+      assert.strictEqual(response.usage.completionTokens, 4);
+      
+      const request = requests.find(r => r.url === '/api/chat');
+      assert.ok(request);
+      assert.strictEqual(request.body.stream, false);
+      assert.strictEqual(request.body.options.temperature, 0.2);
+    });
+    
+    test('streamingChat reads newline-delimited JSON', async () => {
+      const provider = new LocalProvider(createConfig('ollama', baseUrl), securityService);
+      const chunks: string[] = [];
+      let done = false;
+      
+      const response = await provider.streamingChat(messages, { model: 'llama3' }, (chunk, isDone) => {
+        chunks.push(chunk);
+        done = done || isDone;
+      });
+      
+      assert.strictEqual(chunks.join(''), 'Hello world');
+      assert.ok(done);
+      assert.strictEqual(response.content, 'Hello world');
+      assert.strictEqual(response.finishReason, 'stop');
+      assert.strictEqual(response.usage.totalTokens, 15);
+    });
+    
+    test('embeddings returns the vector', async () => {
+      const provider = new LocalProvider(createConfig('ollama', baseUrl), securityService);
+      const embedding = await provider.embeddings('some text', { model: 'embed' });
+      
+      assert.deepStrictEqual(embedding, [0.1, 0.2, 0.3]);
+      assert.strictEqual(requests.find(r => r.url === '/api/embeddings')?.body.prompt, 'some text');
+    });
+  });
+  
+  suite('OpenAI-compatible format', () => {
+    test('chat returns the message and token counts', async () => {
+      const provider = new LocalProvider(createConfig('openai', `${baseUrl}/v1`), securityService);
+      const response = await provider.chat(messages, { model: 'llama3', maxTokens: 100 });
+      
+      assert.strictEqual(response.content, 'Hello from the server');
+      assert.strictEqual(response.usage.totalTokens, 14);
+      assert.strictEqual(requests.find(r => r.url === '/v1/chat/completions')?.body.max_tokens, 100);
+    });
+    
+    test('streamingChat reads server-sent events', async () => {
+      const provider = new LocalProvider(createConfig('openai', `${baseUrl}/v1`), securityService);
+      const chunks: string[] = [];
+      
+      const response = await provider.streamingChat(messages, { model: 'llama3' }, chunk => chunks.push(chunk));
+      
+      assert.strictEqual(chunks.join(''), 'Hello world');
+      assert.strictEqual(response.content, 'Hello world');
+      assert.strictEqual(response.id, 'chatcmpl-1');
+      assert.strictEqual(response.finishReason, 'stop');
+    });
+    
+    test('embeddings returns the vector', async () => {
+      const provider = new LocalProvider(createConfig('openai', `${baseUrl}/v1`), securityService);
+      const embedding = await provider.embeddings('some text', { model: 'embed' });
+      
+      assert.deepStrictEqual(embedding, [0.4, 0.5]);
+      assert.strictEqual(requests.find(r => r.url === '/v1/embeddings')?.body.input, 'some text');
+    });
+  });
+  
+  suite('reachability', () => {
+    test('a listening server is reachable', async () => {
+      const provider = new LocalProvider(createConfig('ollama', baseUrl), securityService);
+      
+      assert.strictEqual(await provider.checkReachability(), true);
+      assert.strictEqual(provider.isConfigured(), true);
+    });
+    
+    test('a server that is not running makes the provider unconfigured', async () => {
+      // Take a free port and close it again, so nothing listens on it
+      const closed = await startStubServer([]);
+      const port = (closed.address() as AddressInfo).port;
+      await new Promise<void>(resolve => closed.close(() => resolve()));
+      
+      const provider = new LocalProvider(createConfig('ollama', `http://127.0.0.1:${port}`), securityService);
+      
+      assert.strictEqual(await provider.checkReachability(), false);
+      assert.strictEqual(provider.isConfigured(), false);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { escapeHtml, highlightCode, renderMarkdown } from '../../ui/markdown';
+
+suite('markdown', () => {
+  test('escapes HTML in text', () => {
+    assert.strictEqual(renderMarkdown('<script>alert("x")</script> & \'y\'').html, '<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#039;y&#039;</p>');
+    assert.strictEqual(escapeHtml('<a href="x">'), '&lt;a href=&quot;x&quot;&gt;');
+  });
+  
+  test('renders headings, lists and quotes', () => {
+    assert.strictEqual(renderMarkdown('# Title').html, '<h3>Title</h3>');
+    assert.strictEqual(renderMarkdown('- one\n- **two**').html, '<ul><li>one</li><li><strong>two</strong></li></ul>');
+    assert.strictEqual(renderMarkdown('1. first\n2. second').html, '<ol><li>first</li><li>second</li></ol>');
+    assert.strictEqual(renderMarkdown('> quoted *text*').html, '<blockquote>quoted <em>text</em></blockquote>');
+  });
+  
+  test('leaves code spans unformatted and escaped', () => {
+    assert.strictEqual(renderMarkdown('Use `a **b** <c>` here').html, '<p>Use <code>a **b** &lt;c&gt;</code> here</p>');
+  });
+  
+  test('does not break on text that looks like a code span placeholder', () => {
+    assert.strictEqual(renderMarkdown('before \u00007\u0000 after `x`').html, '<p>before 7 after <code>x</code></p>');
+  });
+  
+  test('keeps http(s) links only', () => {
+    assert.strictEqual(renderMarkdown('[docs](https://example.com/a?b=1&c=2)').html, '<p><a href="https://example.com/a?b=1&amp;c=2">docs</a></p>');
+    assert.strictEqual(renderMarkdown('[click](javascript:alert(1))').html, '<p>[click](javascript:alert(1))</p>');
+  });
+  
+  test('renders fenced code blocks and collects their code', () => {
+    const rendered = renderMarkdown('Example:\n```ts\nconst a = "<b>";\n```\nDone');
+    
+    assert.deepStrictEqual(rendered.codeBlocks, [{ language: 'typescript', code: 'const a = "<b>";' }]);
+    assert.strictEqual(rendered.html, [
+      '<p>Example:</p>',
+      `<pre data-block="0"><code>${highlightCode('const a = "<b>";', 'typescript')}</code></pre>`,
+      '<p>Done</p>'
+    ].join('\n'));
+    assert.ok(!rendered.html.includes('<b>'));
+  });
+  
+  test('an unclosed fence runs to the end', () => {
+    const rendered = renderMarkdown('```python\ndef f():\n    return 1');
+    
+    assert.deepStrictEqual(rendered.codeBlocks, [{ language: 'python', code: 'def f():\n    return 1' }]);
+  });
+  
+  test('highlights keywords, strings and comments', () => {
+    assert.strictEqual(
+      highlightCode('return "x"; // done', 'javascript'),
+      '<span class="token-keyword">return</span> <span class="token-string">&quot;x&quot;</span>; <span class="token-comment">// done</span>'
+    );
+    assert.strictEqual(highlightCode('<tag>', 'unknown-language'), '&lt;tag&gt;');
+  });
+});
@@ -0,0 +1,439 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AITask, ModelOrchestrator, OrchestratorConfig, ProviderRegistry } from '../../api/orchestrator';
+import { ApiProviderConfig, ApiRequestOptions, ApiResponse, BaseApiProvider, ChatMessage, ModelCapability } from '../../api/providers/base-provider';
+import { ServerError, isProviderError } from '../../api/providers/errors';
+import { countMessageTokens, getTokenizer } from '../../core/tokenizer';
+import { SecurityService } from '../../security';
+import { ResponseCacheService } from '../../services/cache';
+import { BudgetExceededError, UsageConfig, UsageService } from '../../services/usage';
+
+interface StubModel {
+  provider: string;
+  contextWindow?: number;
+  // Input and output price per 1K tokens
+  cost?: number;
+}
+
+// Every provider config carries a key, so the security service is never asked for one
+const securityService = {} as unknown as SecurityService;
+
+function createResponse(content: string, model: string): ApiResponse {
+  return {
+    id: 'response',
+    model,
+    content,
+    usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    created: Date.now()
+  };
+}
+
+// Answers chat requests with a handler the test sets, and records each request
+class StubProvider extends BaseApiProvider {
+  public requests: { messages: ChatMessage[]; options: ApiRequestOptions }[] = [];
+  public handler: (messages: ChatMessage[], options: ApiRequestOptions) => ApiResponse = (_messages, options) => createResponse(`Answer from ${options.model}`, options.model);
+  
+  public async completion(): Promise<ApiResponse> {
+    throw new Error('Not supported');
+  }
+  
+  public async chat(messages: ChatMessage[], options: ApiRequestOptions): Promise<ApiResponse> {
+    this.requests.push({ messages, options });
+    return this.handler(messages, options);
+  }
+  
+  public async streamingChat(messages: ChatMessage[], options: ApiRequestOptions, callback: (chunk: string, done: boolean) => void): Promise<ApiResponse> {
+    const response = await this.chat(messages, options);
+    callback(response.content, true);
+    return response;
+  }
+  
+  public async embeddings(): Promise<number[]> {
+    throw new Error('Not supported');
+  }
+}
+
+// The orchestrator creates its providers in its constructor, so the stubs are handed over through this variable
+let stubProviders: ProviderRegistry = {};
+
+class TestOrchestrator extends ModelOrchestrator {
+  protected createProviders(): ProviderRegistry {
+    return stubProviders;
+  }
+}
+
+/**
+ * Creates an orchestrator over stub providers. Every task of type 'test' tries the models in the given order.
+ * @param models The models, keyed by name; each model's ID is its name
+ * @param overrides Settings that differ from the test defaults
+ * @param usageService The usage ledger, if the test needs one
+ * @param responseCache The response cache, if the test needs one
+ */
+function createOrchestrator(
+  models: { [name: string]: StubModel },
+  overrides: Partial<OrchestratorConfig> = {},
+  usageService?: UsageService,
+  responseCache?: ResponseCacheService
+): { orchestrator: ModelOrchestrator; providers: { [name: string]: StubProvider } } {
+  const providerConfigs: { [name: string]: ApiProviderConfig } = {};
+  const config: OrchestratorConfig = {
+    models: {},
+    providers: providerConfigs,
+    timeoutMs: 5000,
+    fallbackBehavior: 'alternative',
+    taskSelectors: [{ name: 'test', taskTypes: ['test'], modelPriority: Object.keys(models) }],
+    ...overrides
+  };
+  
+  for (const [name, model] of Object.entries(models)) {
+    const providerConfig = providerConfigs[model.provider] = providerConfigs[model.provider] || {
+      id: model.provider,
+      name: model.provider,
+      enabled: true,
+      priority: 5,
+      apiKey: 'test-key',
+      models: []
+    };
+    
+    providerConfig.models.push({
+      id: name,
+      name,
+      enabled: true,
+      maxTokens: 1000,
+      contextWindow: model.contextWindow || 8000,
+      capabilities: [ModelCapability.CHAT, ModelCapability.FUNCTION_CALLING],
+      costPer1KTokens: { input: model.cost || 0, output: model.cost || 0 }
+    });
+    
+    config.models[name] = { provider: model.provider, modelId: name, enabled: true, priority: 5, capabilities: [], contextWindow: model.contextWindow || 8000 };
+  }
+  
+  const providers: { [name: string]: StubProvider } = {};
+  
+  for (const [name, providerConfig] of Object.entries(providerConfigs)) {
+    providers[name] = new StubProvider(providerConfig, securityService);
+  }
+  
+  stubProviders = providers;
+  
+  return { orchestrator: new TestOrchestrator(config, securityService, usageService, responseCache), providers };
+}
+
+/**
+ * Creates a usage ledger in a temporary folder that has already spent the given amount today
+ * @param dataPath The folder
+ * @param config Settings that differ from the test defaults
+ * @param spent The spend so far
+ */
+async function createUsageService(dataPath: string, config: Partial<UsageConfig>, spent: number): Promise<UsageService> {
+  const record = { id: 'usage', timestamp: new Date().toISOString(), taskId: 'task', taskType: 'test', model: 'earlier', provider: 'alpha', modelId: 'earlier', promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: spent };
+  await fs.writeFile(path.join(dataPath, 'usage.json'), JSON.stringify([record]), 'utf-8');
+  
+  const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+  const usageService = new UsageService({ enabled: true, dataPath, budgetAction: 'refuse', retentionDays: 90, ...config }, context);
+  
+  // Loading the ledger is asynchronous
+  while (usageService.getTotals('model').size === 0) {
+    await delay(10);
+  }
+  
+  return usageService;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Circuit breaker settings under which one failure opens a circuit and the probe is let through soon after
+const FAST_CIRCUIT_BREAKER = { failureThreshold: 1, cooldownMs: 200 };
+
+// Fails one request to open the provider's circuit, then waits for the cooldown so the next request is the probe
+async function makeHalfOpen(orchestrator: ModelOrchestrator, provider: StubProvider): Promise<void> {
+  const handler = provider.handler;
+  provider.handler = () => {
+    throw new ServerError('Overloaded');
+  };
+  
+  await assert.rejects(orchestrator.executeTask({ type: 'test', query: 'Fail', options: { maxTokens: 100 } }), (error: unknown) => isProviderError(error, 'server_error'));
+  provider.handler = handler;
+  
+  await delay(FAST_CIRCUIT_BREAKER.cooldownMs + 50);
+}
+
+suite('ModelOrchestrator', () => {
+  const task = { type: 'test', query: 'Say hello', options: { maxTokens: 100 } };
+  
+  suite('task selectors', () => {
+    const models = {
+      'python': { provider: 'alpha' },
+      'tests': { provider: 'alpha' },
+      'small-refactor': { provider: 'alpha' },
+      'large-prompt': { provider: 'alpha' },
+      'general-purpose': { provider: 'alpha' }
+    };
+    const answer = async (orchestrator: ModelOrchestrator, changes: Partial<AITask>) => (await orchestrator.executeTask({ ...task, type: 'explain', ...changes })).content;
+    
+    test('configured selectors are checked in order and the first match wins', async () => {
+      const { orchestrator } = createOrchestrator(models, {
+        taskSelectors: [
+          { name: 'no-models', languages: ['python'], modelPriority: [] },
+          { name: 'python', languages: ['python'], modelPriority: ['python'] },
+          { name: 'tests', filePattern: '*.test.ts', modelPriority: ['tests'] }
+        ]
+      });
+      
+      assert.strictEqual(await answer(orchestrator, { language: 'python', filePath: '/workspace/src/app.test.ts' }), 'Answer from python');
+      assert.strictEqual(await answer(orchestrator, { language: 'typescript', filePath: '/workspace/src/app.test.ts' }), 'Answer from tests');
+    });
+    
+    test('a configured selector matches only if all of its conditions do', async () => {
+      const { orchestrator } = createOrchestrator(models, {
+        taskSelectors: [{ name: 'small-refactor', taskTypes: ['refactor'], languages: ['go'], maxSelectionLines: 3, modelPriority: ['small-refactor'] }]
+      });
+      const selection = (lines: number) => ({ start: 0, end: lines, text: 'x := 1\n'.repeat(lines - 1) + 'x++' });
+      
+      assert.strictEqual(await answer(orchestrator, { type: 'refactor', language: 'go', selection: selection(3) }), 'Answer from small-refactor');
+      assert.strictEqual(await answer(orchestrator, { type: 'refactor', language: 'go', selection: selection(4) }), 'Answer from general-purpose');
+      assert.strictEqual(await answer(orchestrator, { type: 'refactor', language: 'rust', selection: selection(3) }), 'Answer from general-purpose');
+      assert.strictEqual(await answer(orchestrator, { type: 'explain', language: 'go', selection: selection(3) }), 'Answer from general-purpose');
+    });
+    
+    test('a token range routes large prompts', async () => {
+      const { orchestrator } = createOrchestrator(models, {
+        taskSelectors: [{ name: 'large-prompt', minTokens: 500, modelPriority: ['large-prompt'] }]
+      });
+      
+      assert.strictEqual(await answer(orchestrator, { query: 'Explain this' }), 'Answer from general-purpose');
+      assert.strictEqual(await answer(orchestrator, { query: 'Explain this:\n' + 'const a = 1;\n'.repeat(100) }), 'Answer from large-prompt');
+    });
+    
+    test('configured selectors come before selectors added in code, and those before the built-in ones', async () => {
+      const { orchestrator } = createOrchestrator(models, {
+        taskSelectors: [{ name: 'python', languages: ['python'], modelPriority: ['python'] }]
+      });
+      
+      assert.strictEqual(await answer(orchestrator, { language: 'typescript' }), 'Answer from general-purpose');
+      
+      orchestrator.addTaskSelector({ name: 'everything', predicate: () => true, modelPriority: ['tests'] });
+      
+      assert.strictEqual(await answer(orchestrator, { language: 'python' }), 'Answer from python');
+      assert.strictEqual(await answer(orchestrator, { language: 'typescript' }), 'Answer from tests');
+    });
+  });
+  
+  suite('ensemble', () => {
+    test('an ensemble without enough members gives back the half-open probe', async () => {
+      const { orchestrator, providers } = createOrchestrator({ solo: { provider: 'alpha' } }, { fallbackBehavior: 'error', circuitBreaker: FAST_CIRCUIT_BREAKER });
+      providers.alpha.handler = (_messages, options) => createResponse('Hello', options.model);
+      await makeHalfOpen(orchestrator, providers.alpha);
+      
+      await assert.rejects(orchestrator.executeEnsembleTask(task), (error: unknown) => isProviderError(error, 'invalid_request') && error.code === 'ensemble_unavailable');
+      
+      // Within the cooldown, a probe that was kept would block this request
+      const response = await orchestrator.executeTask(task);
+      
+      assert.strictEqual(response.content, 'Hello');
+      assert.strictEqual(orchestrator.getModels().solo.health.state, 'closed');
+    });
+  });
+  
+  suite('context window', () => {
+    // Roughly 6 tokens a line
+    const filler = (word: string, lines: number) => `const ${word} = 1;\n`.repeat(lines);
+    
+    test('keeps the most relevant context chunks that fit', async () => {
+      const { orchestrator, providers } = createOrchestrator({ small: { provider: 'alpha', contextWindow: 700 } });
+      const chunks = [
+        { filePath: 'src/least.ts', content: filler('least', 40), similarity: 0.1 },
+        { filePath: 'src/most.ts', content: filler('most', 40), similarity: 0.9 },
+        { filePath: 'src/middle.ts', content: filler('middle', 40), similarity: 0.5 }
+      ];
+      
+      await orchestrator.executeTask({ ...task, context: { chunks } });
+      
+      const messages = providers.alpha.requests[0].messages;
+      const context = messages.map(message => message.content).join('\n');
+      
+      assert.ok(context.includes('const most = 1;'));
+      assert.ok(!context.includes('const least = 1;'));
+      assert.ok(countMessageTokens(messages, getTokenizer('small')) <= 700 - task.options.maxTokens);
+    });
+    
+    test('drops the oldest conversation turns first', async () => {
+      const { orchestrator, providers } = createOrchestrator({ small: { provider: 'alpha', contextWindow: 700 } });
+      const history: ChatMessage[] = [
+        { role: 'user', content: 'Old question\n' + filler('old', 100) },
+        { role: 'assistant', content: 'Old answer' },
+        { role: 'user', content: 'Recent question' },
+        { role: 'assistant', content: 'Recent answer' }
+      ];
+      
+      await orchestrator.executeTask({ ...task, history });
+      
+      const messages = providers.alpha.requests[0].messages;
+      
+      assert.deepStrictEqual(messages.slice(1).map(message => message.content), ['Recent question', 'Recent answer', 'Say hello']);
+    });
+    
+    test('falls back to a model with a larger context window', async () => {
+      const { orchestrator, providers } = createOrchestrator({
+        small: { provider: 'alpha', contextWindow: 300 },
+        large: { provider: 'beta', contextWindow: 8000 }
+      });
+      
+      const response = await orchestrator.executeTask({ ...task, query: 'Explain this:\n' + filler('query', 50) });
+      
+      assert.strictEqual(response.content, 'Answer from large');
+      assert.strictEqual(providers.alpha.requests.length, 0);
+    });
+    
+    test('refuses a prompt that fits no model', async () => {
+      const { orchestrator, providers } = createOrchestrator({ small: { provider: 'alpha', contextWindow: 300 } });
+      
+      await assert.rejects(
+        orchestrator.executeTask({ ...task, query: 'Explain this:\n' + filler('query', 50) }),
+        (error: unknown) => isProviderError(error, 'invalid_request') && error.code === 'context_length_exceeded'
+      );
+      assert.strictEqual(providers.alpha.requests.length, 0);
+    });
+  });
+  
+  suite('budget', () => {
+    const models = {
+      premium: { provider: 'alpha', cost: 0.03 },
+      standard: { provider: 'beta', cost: 0.002 },
+      economy: { provider: 'gamma', cost: 0.0005 }
+    };
+    let dataPath: string;
+    let usageService: UsageService | undefined;
+    
+    setup(async () => {
+      dataPath = await fs.mkdtemp(path.join(os.tmpdir(), 'asura-orchestrator-'));
+    });
+    
+    teardown(async () => {
+      await usageService?.flush();
+      usageService = undefined;
+      await fs.rm(dataPath, { recursive: true, force: true });
+    });
+    
+    test('records the cost of each request', async () => {
+      usageService = await createUsageService(dataPath, {}, 1);
+      const { orchestrator } = createOrchestrator(models, {}, usageService);
+      
+      await orchestrator.executeTask(task);
+      
+      // 10 prompt and 5 completion tokens at $0.03 per 1K each
+      const totals = usageService.getTotals('model').get('premium');
+      assert.strictEqual(totals?.requests, 1);
+      assert.ok(Math.abs(totals.cost - 0.00045) < 1e-12, `cost ${totals.cost}`);
+      assert.ok(Math.abs(usageService.getSpend('day') - 1.00045) < 1e-12);
+    });
+    
+    test('downgrades to cheaper models, cheapest first, once the budget is used up', async () => {
+      usageService = await createUsageService(dataPath, { dailyBudget: 1, budgetAction: 'downgrade' }, 1);
+      const { orchestrator, providers } = createOrchestrator(models, {}, usageService);
+      
+      const response = await orchestrator.executeTask(task);
+      
+      assert.strictEqual(response.content, 'Answer from economy');
+      assert.strictEqual(providers.alpha.requests.length, 0);
+    });
+    
+    test('refuses when no model is cheaper than the preferred one', async () => {
+      usageService = await createUsageService(dataPath, { dailyBudget: 1, budgetAction: 'downgrade' }, 1);
+      const { orchestrator, providers } = createOrchestrator({ economy: models.economy, premium: models.premium }, {}, usageService);
+      
+      await assert.rejects(orchestrator.executeTask(task), BudgetExceededError);
+      assert.strictEqual(providers.gamma.requests.length, 0);
+    });
+    
+    test('refuses once the budget is used up when set to refuse', async () => {
+      usageService = await createUsageService(dataPath, { monthlyBudget: 1, budgetAction: 'refuse' }, 1.5);
+      const { orchestrator, providers } = createOrchestrator(models, {}, usageService);
+      
+      await assert.rejects(orchestrator.executeTask(task), (error: unknown) => error instanceof BudgetExceededError && error.status.period === 'month');
+      assert.strictEqual(providers.alpha.requests.length + providers.beta.requests.length + providers.gamma.requests.length, 0);
+    });
+    
+    test('leaves the priority list alone within the budget', async () => {
+      usageService = await createUsageService(dataPath, { dailyBudget: 1, budgetAction: 'downgrade' }, 0.5);
+      const { orchestrator } = createOrchestrator(models, {}, usageService);
+      
+      assert.strictEqual((await orchestrator.executeTask(task)).content, 'Answer from premium');
+    });
+  });
+  
+  suite('response cache', () => {
+    let dataPath: string;
+    let responseCache: ResponseCacheService;
+    
+    setup(async () => {
+      dataPath = await fs.mkdtemp(path.join(os.tmpdir(), 'asura-orchestrator-'));
+      const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+      responseCache = new ResponseCacheService({ enabled: true, dataPath, ttlHours: 24, maxSizeMB: 1, maxTemperature: 0.2 }, context);
+      
+      // Loading the cache is asynchronous, and nothing is saved until it has finished
+      await delay(50);
+    });
+    
+    teardown(async () => {
+      await responseCache.flush();
+      await fs.rm(dataPath, { recursive: true, force: true });
+    });
+    
+    test('answers a repeated deterministic task from the cache', async () => {
+      const { orchestrator, providers } = createOrchestrator({ solo: { provider: 'alpha' } }, {}, undefined, responseCache);
+      
+      const first = await orchestrator.executeTask({ ...task, options: { ...task.options, temperature: 0 } });
+      const second = await orchestrator.executeTask({ ...task, options: { ...task.options, temperature: 0 } });
+      
+      assert.strictEqual(first.cached, undefined);
+      assert.strictEqual(second.cached, true);
+      assert.strictEqual(second.content, first.content);
+      assert.strictEqual(providers.alpha.requests.length, 1);
+    });
+    
+    test('sends sampled and streamed tasks every time', async () => {
+      const { orchestrator, providers } = createOrchestrator({ solo: { provider: 'alpha' } }, {}, undefined, responseCache);
+      
+      for (let i = 0; i < 2; i++) {
+        await orchestrator.executeTask({ ...task, options: { ...task.options, temperature: 0.9 } });
+        await orchestrator.executeTask({ ...task, options: { ...task.options, temperature: 0 } }, () => undefined);
+      }
+      
+      assert.strictEqual(providers.alpha.requests.length, 4);
+    });
+  });
+  
+  suite('agent', () => {
+    test('only one agent task gets the probe of a half-open provider', async () => {
+      const { orchestrator, providers } = createOrchestrator({ solo: { provider: 'alpha' } }, { fallbackBehavior: 'error', circuitBreaker: FAST_CIRCUIT_BREAKER });
+      await makeHalfOpen(orchestrator, providers.alpha);
+      providers.alpha.requests = [];
+      
+      const first = orchestrator.executeAgentTask(task, { tools: [] });
+      const second = orchestrator.executeAgentTask(task, { tools: [] });
+      
+      assert.strictEqual((await first).stopReason, 'completed');
+      await assert.rejects(second, /No model with function calling/);
+      assert.strictEqual(providers.alpha.requests.length, 1);
+      assert.strictEqual(orchestrator.getModels().solo.health.state, 'closed');
+    });
+    
+    test('an agent task that ends before its first request gives back the probe', async () => {
+      const { orchestrator, providers } = createOrchestrator({ solo: { provider: 'alpha' } }, { fallbackBehavior: 'error', circuitBreaker: FAST_CIRCUIT_BREAKER });
+      await makeHalfOpen(orchestrator, providers.alpha);
+      
+      const cancellation = new vscode.CancellationTokenSource();
+      cancellation.cancel();
+      const result = await orchestrator.executeAgentTask(task, { tools: [], cancellationToken: cancellation.token });
+      
+      assert.strictEqual(result.stopReason, 'cancelled');
+      assert.strictEqual((await orchestrator.executeAgentTask(task, { tools: [] })).stopReason, 'completed');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CancelledError, RateLimitError } from '../../api/providers/errors';
+import { RateLimitReservation, RateLimitScheduler } from '../../api/providers/rate-limiter';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Resolves with the order in which the given acquisitions are granted
+function recordOrder(order: string[], name: string, acquisition: Promise<RateLimitReservation>): Promise<RateLimitReservation> {
+  return acquisition.then(reservation => {
+    order.push(name);
+    return reservation;
+  });
+}
+
+suite('RateLimitScheduler', () => {
+  const originalNow = Date.now;
+  let now: number;
+  
+  // Bucket refills follow Date.now, so tests that don't wait on the queue timer move the clock by hand
+  const useFakeClock = () => {
+    now = 1000000;
+    Date.now = () => now;
+  };
+  
+  teardown(() => {
+    Date.now = originalNow;
+  });
+  
+  test('lets requests through at once while there is capacity', async () => {
+    const scheduler = new RateLimitScheduler({ requestsPerMinute: 2, tokensPerMinute: 1000, maxWaitMs: 0 });
+    
+    await scheduler.acquire(400);
+    await scheduler.acquire(600);
+    
+    assert.strictEqual(scheduler.inFlightRequests, 2);
+    assert.strictEqual(scheduler.queuedRequests, 0);
+  });
+  
+  test('refills the token bucket over time', async () => {
+    useFakeClock();
+    const scheduler = new RateLimitScheduler({ tokensPerMinute: 6000, maxWaitMs: 100 });
+    
+    await scheduler.acquire(6000);
+    
+    // 60 tokens take 600ms to refill
+    await assert.rejects(scheduler.acquire(60), (error: RateLimitError) => error instanceof RateLimitError && error.retryAfter === 1);
+    
+    now += 300;
+    await assert.rejects(scheduler.acquire(60), RateLimitError);
+    
+    now += 300;
+    await scheduler.acquire(60);
+    assert.strictEqual(scheduler.inFlightRequests, 2);
+  });
+  
+  test('settles the difference between estimated and actual tokens', async () => {
+    useFakeClock();
+    const scheduler = new RateLimitScheduler({ tokensPerMinute: 6000, maxWaitMs: 0 });
+    
+    const reservation = await scheduler.acquire(6000);
+    reservation.release(600);
+    
+    await scheduler.acquire(5400);
+    await assert.rejects(scheduler.acquire(10), RateLimitError);
+  });
+  
+  test('rejects a request that would wait longer than maxWaitMs without queueing it', async () => {
+    useFakeClock();
+    const scheduler = new RateLimitScheduler({ requestsPerMinute: 1, maxWaitMs: 1000 });
+    
+    await scheduler.acquire(0);
+    
+    await assert.rejects(scheduler.acquire(0), (error: RateLimitError) => error instanceof RateLimitError && error.retryAfter === 60);
+    assert.strictEqual(scheduler.queuedRequests, 0);
+  });
+  
+  test('rejects a queued request once it has waited maxWaitMs', async () => {
+    const scheduler = new RateLimitScheduler({ maxConcurrentRequests: 1, maxWaitMs: 50 });
+    
+    await scheduler.acquire(0);
+    const waiting = scheduler.acquire(0);
+    assert.strictEqual(scheduler.queuedRequests, 1);
+    
+    await assert.rejects(waiting, (error: RateLimitError) => error instanceof RateLimitError && /Gave up/.test(error.message));
+    assert.strictEqual(scheduler.queuedRequests, 0);
+  });
+  
+  test('limits concurrent requests', async () => {
+    const scheduler = new RateLimitScheduler({ maxConcurrentRequests: 2, maxWaitMs: 1000 });
+    const first = await scheduler.acquire(0);
+    await scheduler.acquire(0);
+    
+    let thirdGranted = false;
+    const third = scheduler.acquire(0).then(reservation => {
+      thirdGranted = true;
+      return reservation;
+    });
+    
+    await delay(20);
+    assert.strictEqual(thirdGranted, false);
+    assert.strictEqual(scheduler.inFlightRequests, 2);
+    assert.strictEqual(scheduler.queuedRequests, 1);
+    
+    first.release();
+    await third;
+    assert.strictEqual(scheduler.inFlightRequests, 2);
+    
+    // Releasing twice frees the slot only once
+    first.release();
+    assert.strictEqual(scheduler.inFlightRequests, 2);
+  });
+  
+  test('grants queued requests in arrival order', async () => {
+    const scheduler = new RateLimitScheduler({ maxConcurrentRequests: 1, maxWaitMs: 1000 });
+    const order: string[] = [];
+    const first = await scheduler.acquire(0);
+    
+    const second = recordOrder(order, 'second', scheduler.acquire(500));
+    const third = recordOrder(order, 'third', scheduler.acquire(10));
+    
+    first.release();
+    (await second).release();
+    await third;
+    
+    assert.deepStrictEqual(order, ['second', 'third']);
+  });
+  
+  test('does not let a new request overtake the queue', async () => {
+    // One request per 100ms once the bucket is empty
+    const scheduler = new RateLimitScheduler({ requestsPerMinute: 600, maxConcurrentRequests: 1, maxWaitMs: 1000 });
+    const order: string[] = [];
+    const first = await scheduler.acquire(0);
+    
+    scheduler.updateFromHeaders({ 'x-ratelimit-remaining-requests': '0' });
+    const second = recordOrder(order, 'second', scheduler.acquire(0));
+    first.release();
+    
+    // Would fit under the concurrency limit, but the second request is still waiting for the bucket
+    const third = recordOrder(order, 'third', scheduler.acquire(0));
+    assert.strictEqual(scheduler.queuedRequests, 2);
+    
+    (await second).release();
+    await third;
+    
+    assert.deepStrictEqual(order, ['second', 'third']);
+  });
+  
+  test('a cancelled request leaves the queue', async () => {
+    const scheduler = new RateLimitScheduler({ maxConcurrentRequests: 1, maxWaitMs: 1000 });
+    const cancellation = new vscode.CancellationTokenSource();
+    
+    await scheduler.acquire(0);
+    const waiting = scheduler.acquire(0, cancellation.token);
+    cancellation.cancel();
+    
+    await assert.rejects(waiting, CancelledError);
+    assert.strictEqual(scheduler.queuedRequests, 0);
+    await assert.rejects(scheduler.acquire(0, cancellation.token), CancelledError);
+  });
+  
+  test('learns request limits from OpenAI response headers', async () => {
+    const scheduler = new RateLimitScheduler({ maxWaitMs: 1000 });
+    
+    scheduler.updateFromHeaders({ 'x-ratelimit-limit-requests': '600', 'x-ratelimit-remaining-requests': '0' });
+    
+    const start = Date.now();
+    await scheduler.acquire(0);
+    
+    // The request bucket holds 600 requests a minute, so the next one is free after 100ms
+    assert.ok(Date.now() - start >= 90, `granted after ${Date.now() - start}ms`);
+  });
+  
+  test('learns token limits from Anthropic response headers', async () => {
+    useFakeClock();
+    const scheduler = new RateLimitScheduler({ tokensPerMinute: 100000, maxWaitMs: 100 });
+    
+    scheduler.updateFromHeaders({ 'anthropic-ratelimit-tokens-limit': '6000', 'anthropic-ratelimit-tokens-remaining': '0' });
+    
+    // At 6000 tokens a minute, 60 tokens take 600ms
+    await assert.rejects(scheduler.acquire(60), (error: RateLimitError) => error.retryAfter === 1);
+    
+    now += 600;
+    await scheduler.acquire(60);
+  });
+  
+  test('ignores missing and malformed headers', async () => {
+    const scheduler = new RateLimitScheduler({ maxWaitMs: 0 });
+    
+    scheduler.updateFromHeaders(undefined);
+    scheduler.updateFromHeaders({ 'x-ratelimit-limit-requests': 'unlimited', 'x-ratelimit-remaining-tokens': '' });
+    
+    await scheduler.acquire(1000000);
+    await scheduler.acquire(1000000);
+  });
+});
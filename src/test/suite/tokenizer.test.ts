@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { countMessageTokens, getTokenizer } from '../../core/tokenizer';
+
+suite('tokenizer', () => {
+  test('counts cl100k_base tokens for GPT-4 and GPT-3.5', () => {
+    const tokenizer = getTokenizer('gpt-4');
+    
+    assert.strictEqual(tokenizer.name, 'cl100k_base');
+    assert.strictEqual(getTokenizer('gpt-3.5-turbo'), tokenizer);
+    // [83, 1609, 5963, 374, 2294, 0]
+    assert.strictEqual(tokenizer.countTokens('tiktoken is great!'), 6);
+    assert.strictEqual(tokenizer.countTokens('Hello, world!'), 4);
+    assert.strictEqual(tokenizer.countTokens(''), 0);
+  });
+  
+  test('counts o200k_base tokens for GPT-4o', () => {
+    const tokenizer = getTokenizer('gpt-4o-mini');
+    
+    assert.strictEqual(tokenizer.name, 'o200k_base');
+    assert.strictEqual(tokenizer.countTokens('tiktoken is great!'), 6);
+    assert.strictEqual(tokenizer.countTokens('Hello, world!'), 4);
+  });
+  
+  test('counts special tokens as plain text', () => {
+    assert.strictEqual(getTokenizer('gpt-4').countTokens('<|endoftext|>'), 7);
+  });
+  
+  test('truncates to a token budget', () => {
+    const tokenizer = getTokenizer('gpt-4');
+    
+    assert.strictEqual(tokenizer.truncate('one two three four five', 2), 'one two');
+    assert.strictEqual(tokenizer.truncate('short', 10), 'short');
+  });
+  
+  test('estimates Claude tokens from the shape of the text', () => {
+    const tokenizer = getTokenizer('claude-3-sonnet');
+    
+    assert.strictEqual(tokenizer.name, 'claude-estimate');
+    assert.strictEqual(tokenizer.countTokens('Hello world'), 3);
+    assert.strictEqual(tokenizer.countTokens('function add(a, b) { return a + b; }'), 16);
+    assert.ok(tokenizer.countTokens(tokenizer.truncate('Hello world again', 2)) <= 2);
+  });
+  
+  test('falls back to cl100k_base for unknown models', () => {
+    assert.strictEqual(getTokenizer('mystery-model').name, 'cl100k_base');
+    assert.strictEqual(getTokenizer().name, 'cl100k_base');
+    assert.strictEqual(getTokenizer('llama3').countTokens('Hello, world!'), 4);
+  });
+  
+  test('counts message framing', () => {
+    // 3 tokens prime the reply and each message adds 4
+    assert.strictEqual(countMessageTokens([{ content: 'Hello, world!' }], getTokenizer('gpt-4')), 11);
+    assert.strictEqual(countMessageTokens([{ content: '' }, { content: 'Hello, world!' }], getTokenizer('gpt-4')), 15);
+  });
+});
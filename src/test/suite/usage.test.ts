@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { UsageConfig, UsageRecord, UsageService } from '../../services/usage';
+
+const RealDate = Date;
+
+// Local times, since days and months roll over at the user's midnight
+const time = (month: number, day: number, hours: number = 0, minutes: number = 0) => new RealDate(2025, month - 1, day, hours, minutes).getTime();
+
+function usageRecord(timestamp: number, cost: number, model: string = 'gpt-4o'): UsageRecord {
+  return {
+    id: `usage_${timestamp}`,
+    timestamp: new RealDate(timestamp).toISOString(),
+    taskId: 'task',
+    taskType: 'explain',
+    model,
+    provider: 'openai',
+    modelId: model,
+    promptTokens: 100,
+    completionTokens: 50,
+    totalTokens: 150,
+    cost
+  };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  
+  assert.ok(condition(), 'condition not met in time');
+}
+
+suite('UsageService', () => {
+  let now: number;
+  let dataPath: string;
+  let services: UsageService[];
+  
+  // new Date() and Date.now() read the test's clock
+  class FakeDate extends RealDate {
+    constructor(...args: any[]) {
+      super(...(args.length > 0 ? args : [now]) as [number]);
+    }
+    
+    static now(): number {
+      return now;
+    }
+  }
+  
+  // Creates a service over a ledger that already holds the given records, and waits for it to load them
+  const createService = async (config: Partial<UsageConfig>, records: UsageRecord[]): Promise<UsageService> => {
+    await fs.writeFile(path.join(dataPath, 'usage.json'), JSON.stringify(records), 'utf-8');
+    
+    const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+    const service = new UsageService({ enabled: true, dataPath, budgetAction: 'refuse', retentionDays: 90, ...config }, context);
+    services.push(service);
+    
+    await waitFor(() => service.getTotals('model').size > 0);
+    
+    return service;
+  };
+  
+  setup(async () => {
+    now = time(3, 1, 10);
+    global.Date = FakeDate as DateConstructor;
+    dataPath = await fs.mkdtemp(path.join(os.tmpdir(), 'asura-usage-'));
+    services = [];
+  });
+  
+  teardown(async () => {
+    global.Date = RealDate;
+    
+    for (const service of services) {
+      await service.flush();
+    }
+    
+    await fs.rm(dataPath, { recursive: true, force: true });
+  });
+  
+  test('adds up the spend of the current day and month', async () => {
+    const service = await createService({}, [
+      usageRecord(time(2, 15), 4),
+      usageRecord(time(2, 28, 23, 59), 2),
+      usageRecord(time(3, 1), 1),
+      usageRecord(time(3, 1, 9), 0.5)
+    ]);
+    
+    assert.strictEqual(service.getSpend('day'), 1.5);
+    assert.strictEqual(service.getSpend('month'), 1.5);
+  });
+  
+  test('rolls over to a new day and month at local midnight', async () => {
+    const service = await createService({}, [usageRecord(time(2, 28, 12), 2), usageRecord(time(3, 1, 9), 1)]);
+    
+    now = time(3, 1, 23, 59);
+    assert.strictEqual(service.getSpend('day'), 1);
+    
+    now = time(3, 2);
+    assert.strictEqual(service.getSpend('day'), 0);
+    assert.strictEqual(service.getSpend('month'), 1);
+    
+    now = time(4, 1);
+    assert.strictEqual(service.getSpend('month'), 0);
+  });
+  
+  test('counts new records toward the current day', async () => {
+    const service = await createService({}, [usageRecord(time(2, 15), 4, 'old-model')]);
+    
+    service.record({ taskId: 'task', taskType: 'explain', model: 'gpt-4o', provider: 'openai', modelId: 'gpt-4o', promptTokens: 10, completionTokens: 5, totalTokens: 15, cost: 0.25 });
+    service.record({ taskId: 'task', taskType: 'refactor', model: 'gpt-4o', provider: 'openai', modelId: 'gpt-4o', promptTokens: 20, completionTokens: 5, totalTokens: 25, cost: 0.5 });
+    
+    assert.strictEqual(service.getSpend('day'), 0.75);
+    assert.deepStrictEqual(service.getTotals('model').get('gpt-4o'), { requests: 2, promptTokens: 30, completionTokens: 10, totalTokens: 40, cost: 0.75 });
+    assert.strictEqual(service.getTotals('taskType').size, 2);
+  });
+  
+  test('drops records older than the retention period', async () => {
+    const service = await createService({ retentionDays: 30 }, [usageRecord(time(1, 15), 8, 'old-model'), usageRecord(time(2, 15), 4)]);
+    
+    assert.deepStrictEqual([...service.getTotals('model').keys()], ['gpt-4o']);
+  });
+  
+  test('reports the daily budget before the monthly one', async () => {
+    const service = await createService({ dailyBudget: 1, monthlyBudget: 2 }, [usageRecord(time(2, 15), 10), usageRecord(time(3, 1, 9), 1.5)]);
+    
+    assert.deepStrictEqual(service.getBudgetStatus(), { exceeded: true, period: 'day', spent: 1.5, budget: 1 });
+    
+    now = time(3, 2);
+    assert.deepStrictEqual(service.getBudgetStatus(), { exceeded: false, spent: 0 });
+  });
+  
+  test('reports the monthly budget', async () => {
+    const service = await createService({ dailyBudget: 5, monthlyBudget: 2 }, [usageRecord(time(3, 1, 1), 1.5), usageRecord(time(3, 1, 9), 1)]);
+    
+    assert.deepStrictEqual(service.getBudgetStatus(), { exceeded: true, period: 'month', spent: 2.5, budget: 2 });
+  });
+  
+  test('records nothing and enforces no budget while disabled', async () => {
+    const service = await createService({ enabled: false, dailyBudget: 0.1 }, [usageRecord(time(3, 1, 9), 1)]);
+    
+    service.record({ taskId: 'task', taskType: 'explain', model: 'gpt-4o', provider: 'openai', modelId: 'gpt-4o', promptTokens: 10, completionTokens: 5, totalTokens: 15, cost: 1 });
+    
+    assert.strictEqual(service.getTotals('model').get('gpt-4o')?.requests, 1);
+    assert.deepStrictEqual(service.getBudgetStatus(), { exceeded: false, spent: 0 });
+  });
+});
@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { parseJsonContent, validateJsonSchema } from '../../core/validation';
+
+suite('validation', () => {
+  suite('parseJsonContent', () => {
+    test('parses plain JSON', () => {
+      assert.deepStrictEqual(parseJsonContent('{"answer": 42}'), { value: { answer: 42 } });
+    });
+    
+    test('parses JSON in a Markdown code fence', () => {
+      const content = 'Here is the result:\n\n```json\n{"items": [1, 2]}\n```\n\nLet me know if you need more.';
+      
+      assert.deepStrictEqual(parseJsonContent(content).value, { items: [1, 2] });
+    });
+    
+    test('parses JSON in a fence without a language', () => {
+      assert.deepStrictEqual(parseJsonContent('```\n[true, false]\n```').value, [true, false]);
+    });
+    
+    test('parses JSON wrapped in prose', () => {
+      assert.deepStrictEqual(parseJsonContent('Sure! {"name": "test", "tags": ["a"]} Hope this helps.').value, { name: 'test', tags: ['a'] });
+    });
+    
+    test('reports content that is not JSON', () => {
+      const result = parseJsonContent('I cannot answer that.');
+      
+      assert.strictEqual(result.value, undefined);
+      assert.match(result.error || '', /^Response is not valid JSON/);
+    });
+    
+    test('reports empty content', () => {
+      assert.deepStrictEqual(parseJsonContent('  '), { error: 'Response is empty' });
+    });
+  });
+  
+  suite('validateJsonSchema', () => {
+    test('checks types', () => {
+      assert.deepStrictEqual(validateJsonSchema('text', { type: 'string' }), []);
+      assert.deepStrictEqual(validateJsonSchema(1.5, { type: 'integer' }), ['$: expected integer, got number']);
+      assert.deepStrictEqual(validateJsonSchema(null, { type: ['string', 'null'] }), []);
+      assert.deepStrictEqual(validateJsonSchema([], { type: 'object' }), ['$: expected object, got array']);
+    });
+    
+    test('checks enum and const', () => {
+      assert.deepStrictEqual(validateJsonSchema('low', { enum: ['low', 'high'] }), []);
+      assert.deepStrictEqual(validateJsonSchema('medium', { enum: ['low', 'high'] }), ['$: must be one of "low", "high"']);
+      assert.deepStrictEqual(validateJsonSchema(2, { const: 1 }), ['$: must be 1']);
+    });
+    
+    test('compares objects in enum and const regardless of key order', () => {
+      assert.deepStrictEqual(validateJsonSchema({ b: 1, a: { d: 2, c: [3] } }, { const: { a: { c: [3], d: 2 }, b: 1 } }), []);
+      assert.deepStrictEqual(validateJsonSchema({ b: 1, a: 2 }, { enum: [{ a: 2, b: 1 }] }), []);
+      assert.deepStrictEqual(validateJsonSchema([2, 1], { const: [1, 2] }), ['$: must be [1,2]']);
+    });
+    
+    test('checks required properties', () => {
+      const schema = { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] };
+      
+      assert.deepStrictEqual(validateJsonSchema({ name: 'test' }, schema), []);
+      assert.deepStrictEqual(validateJsonSchema({}, schema), ['$: missing required property "name"']);
+      assert.deepStrictEqual(validateJsonSchema({ name: 1 }, schema), ['$.name: expected string, got number']);
+    });
+    
+    test('does not count inherited properties', () => {
+      assert.deepStrictEqual(validateJsonSchema({}, { type: 'object', required: ['constructor'] }), ['$: missing required property "constructor"']);
+      assert.deepStrictEqual(validateJsonSchema({ toString: 'x' }, { type: 'object', properties: {}, additionalProperties: false }), ['$.toString: property is not allowed']);
+    });
+    
+    test('checks additionalProperties', () => {
+      const schema = { type: 'object', properties: { name: { type: 'string' } } };
+      
+      assert.deepStrictEqual(validateJsonSchema({ name: 'a', extra: 1 }, schema), []);
+      assert.deepStrictEqual(validateJsonSchema({ name: 'a', extra: 1 }, { ...schema, additionalProperties: false }), ['$.extra: property is not allowed']);
+      assert.deepStrictEqual(validateJsonSchema({ name: 'a', extra: 1 }, { ...schema, additionalProperties: { type: 'string' } }), ['$.extra: expected string, got number']);
+    });
+    
+    test('checks array items', () => {
+      assert.deepStrictEqual(validateJsonSchema([1, 'two'], { type: 'array', items: { type: 'number' }, maxItems: 1 }), [
+        '$: must have at most 1 items',
+        '$[1]: expected number, got string'
+      ]);
+    });
+    
+    test('checks anyOf', () => {
+      const schema = { anyOf: [{ type: 'string' }, { type: 'number', minimum: 0 }] };
+      
+      assert.deepStrictEqual(validateJsonSchema('text', schema), []);
+      assert.deepStrictEqual(validateJsonSchema(3, schema), []);
+      assert.deepStrictEqual(validateJsonSchema(-1, schema), ['$: does not match any of the allowed shapes']);
+    });
+    
+    test('checks oneOf', () => {
+      const schema = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+      
+      assert.deepStrictEqual(validateJsonSchema(1.5, schema), []);
+      assert.deepStrictEqual(validateJsonSchema(2, schema), ['$: must match exactly one of the allowed shapes, matches 2']);
+      assert.deepStrictEqual(validateJsonSchema('2', schema), ['$: must match exactly one of the allowed shapes, matches 0']);
+    });
+    
+    test('checks patterns', () => {
+      assert.deepStrictEqual(validateJsonSchema('abc-123', { type: 'string', pattern: '^[a-z]+-\\d+$' }), []);
+      assert.deepStrictEqual(validateJsonSchema('abc', { type: 'string', pattern: '^\\d+$' }), ['$: must match the pattern ^\\d+$']);
+    });
+    
+    test('reports an invalid pattern instead of throwing', () => {
+      assert.deepStrictEqual(validateJsonSchema('abc', { type: 'string', pattern: '([a-z' }), ['$: the schema\'s pattern ([a-z is not a valid regular expression']);
+    });
+  });
+});
@@ -0,0 +1,590 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ModelOrchestrator } from '../api/orchestrator';
+import { isProviderError } from '../api/providers/errors';
+import { ChatService } from '../services/chat';
+
+// Messages posted to the webview
+type ChatViewMessage =
+  | {
+    type: 'state';
+    threads: { id: string; title: string }[];
+    threadId?: string;
+    messages: { role: 'user' | 'assistant'; content: string; model?: string; error?: string }[];
+    // Text of the answer being streamed, if a request is running
+    pending?: string;
+  }
+  | { type: 'chunk'; text: string }
+  | { type: 'error'; text: string };
+
+// Streamed chunks are batched so a fast stream doesn't flood the webview with messages
+const CHUNK_FLUSH_INTERVAL_MS = 50;
+
+// @-mentions that attach editor content to a chat message
+const MENTION_PATTERN = /(^|\s)@(file|selection)\b/g;
+
+/**
+ * Sidebar chat: multi-turn conversations with the orchestrator, kept as threads by the ChatService.
+ * Messages can reference the active editor with @file and @selection.
+ */
+export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disposable {
+  private view?: vscode.WebviewView;
+  private threadId?: string;
+  // The editor @-mentions refer to; focusing the chat doesn't change it
+  private editor?: vscode.TextEditor = vscode.window.activeTextEditor;
+  private cancellationSource?: vscode.CancellationTokenSource;
+  private streamedText = '';
+  private pendingText = '';
+  private flushTimer?: NodeJS.Timeout;
+  private readonly disposables: vscode.Disposable[] = [];
+  
+  constructor(
+    private readonly orchestrator: ModelOrchestrator,
+    private readonly chatService: ChatService
+  ) {
+    this.disposables.push(vscode.window.onDidChangeActiveTextEditor(editor => {
+      if (editor) {
+        this.editor = editor;
+      }
+    }));
+  }
+  
+  public resolveWebviewView(
+    webviewView: vscode.WebviewView,
+    _context: vscode.WebviewViewResolveContext,
+    _token: vscode.CancellationToken
+  ): void {
+    this.view = webviewView;
+    
+    webviewView.webview.options = {
+      enableScripts: true
+    };
+    
+    webviewView.webview.html = this.getHtml();
+    
+    webviewView.webview.onDidReceiveMessage(message => this.handleMessage(message));
+    
+    webviewView.onDidDispose(() => {
+      this.view = undefined;
+    });
+  }
+  
+  // Public methods
+  
+  /**
+   * Starts a new thread and shows it
+   */
+  public newThread(): void {
+    if (this.cancellationSource) {
+      vscode.window.showInformationMessage('Wait for the current answer or stop it before starting a new chat.');
+      return;
+    }
+    
+    this.threadId = this.chatService.createThread().id;
+    this.postState();
+  }
+  
+  public dispose(): void {
+    this.cancellationSource?.cancel();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+  
+  // Command handlers
+  private async handleMessage(message: any): Promise<void> {
+    switch (message.command) {
+      case 'ready':
+        // Reopen the most recent thread
+        if (!this.threadId) {
+          this.threadId = this.chatService.getThreads()[0]?.id;
+        }
+        this.postState();
+        break;
+      case 'send':
+        await this.sendMessage(String(message.text || ''));
+        break;
+      case 'stop':
+        this.cancellationSource?.cancel();
+        break;
+      case 'newThread':
+        this.newThread();
+        break;
+      case 'selectThread':
+        if (!this.cancellationSource && this.chatService.getThread(message.threadId)) {
+          this.threadId = message.threadId;
+          this.postState();
+        }
+        break;
+      case 'renameThread':
+        await this.renameThread();
+        break;
+      case 'deleteThread':
+        await this.deleteThread();
+        break;
+    }
+  }
+  
+  private async sendMessage(text: string): Promise<void> {
+    if (!text.trim() || this.cancellationSource) {
+      return;
+    }
+    
+    let prompt: string;
+    
+    try {
+      prompt = this.expandMentions(text);
+    } catch (error) {
+      this.post({ type: 'error', text: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    
+    const thread = (this.threadId && this.chatService.getThread(this.threadId)) || this.chatService.createThread();
+    const history = this.chatService.getHistory(thread.id);
+    this.threadId = thread.id;
+    
+    this.chatService.addMessage(thread.id, { role: 'user', content: text, prompt: prompt !== text ? prompt : undefined });
+    
+    const cancellationSource = new vscode.CancellationTokenSource();
+    this.cancellationSource = cancellationSource;
+    this.streamedText = '';
+    this.postState();
+    
+    try {
+      const response = await this.orchestrator.executeTask({
+        type: 'chat',
+        query: prompt,
+        history,
+        filePath: this.editor?.document.fileName,
+        language: this.editor?.document.languageId
+      }, (chunk) => this.append(chunk), cancellationSource.token);
+      
+      this.chatService.addMessage(thread.id, { role: 'assistant', content: response.content, model: response.model });
+    } catch (error) {
+      // Keep what was streamed before the request failed or was stopped
+      this.chatService.addMessage(thread.id, {
+        role: 'assistant',
+        content: this.streamedText + this.pendingText,
+        error: isProviderError(error, 'cancelled') ? 'Stopped' : (error instanceof Error ? error.message : String(error))
+      });
+    } finally {
+      this.discardPendingText();
+      this.streamedText = '';
+      this.cancellationSource = undefined;
+      cancellationSource.dispose();
+      this.postState();
+    }
+  }
+  
+  private async renameThread(): Promise<void> {
+    const thread = this.threadId ? this.chatService.getThread(this.threadId) : undefined;
+    
+    if (!thread) {
+      return;
+    }
+    
+    const title = await vscode.window.showInputBox({
+      prompt: 'Rename chat',
+      value: thread.title
+    });
+    
+    if (title) {
+      this.chatService.renameThread(thread.id, title);
+      this.postState();
+    }
+  }
+  
+  private async deleteThread(): Promise<void> {
+    const thread = this.threadId ? this.chatService.getThread(this.threadId) : undefined;
+    
+    if (!thread || this.cancellationSource) {
+      return;
+    }
+    
+    const choice = await vscode.window.showWarningMessage(`Delete the chat "${thread.title}"?`, { modal: true }, 'Delete');
+    
+    if (choice === 'Delete') {
+      this.chatService.deleteThread(thread.id);
+      this.threadId = this.chatService.getThreads()[0]?.id;
+      this.postState();
+    }
+  }
+  
+  // Helper methods
+  
+  /**
+   * Appends the code each @-mention refers to, so the model sees it but the thread shows what the user typed
+   * @param text The message as typed
+   * @throws If a mention refers to an editor or selection that doesn't exist
+   */
+  private expandMentions(text: string): string {
+    const mentions = new Set(Array.from(text.matchAll(MENTION_PATTERN), match => match[2]));
+    
+    if (mentions.size === 0) {
+      return text;
+    }
+    
+    const editor = this.editor;
+    
+    if (!editor || editor.document.isClosed) {
+      throw new Error('Open a file to use @file or @selection.');
+    }
+    
+    const document = editor.document;
+    const relativePath = vscode.workspace.asRelativePath(document.uri);
+    const attachments: string[] = [];
+    
+    if (mentions.has('file')) {
+      attachments.push(`@file ${relativePath}:\n\`\`\`${document.languageId}\n${document.getText()}\n\`\`\``);
+    }
+    
+    if (mentions.has('selection')) {
+      if (editor.selection.isEmpty) {
+        throw new Error(`Nothing is selected in ${relativePath}.`);
+      }
+      
+      attachments.push(
+        `@selection ${relativePath}, lines ${editor.selection.start.line + 1}-${editor.selection.end.line + 1}:\n` +
+        `\`\`\`${document.languageId}\n${document.getText(editor.selection)}\n\`\`\``
+      );
+    }
+    
+    return `${text}\n\n${attachments.join('\n\n')}`;
+  }
+  
+  private append(chunk: string): void {
+    if (!chunk) {
+      return;
+    }
+    
+    this.pendingText += chunk;
+    
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), CHUNK_FLUSH_INTERVAL_MS);
+    }
+  }
+  
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    
+    if (this.pendingText) {
+      this.streamedText += this.pendingText;
+      this.post({ type: 'chunk', text: this.pendingText });
+      this.pendingText = '';
+    }
+  }
+  
+  private discardPendingText(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    
+    this.pendingText = '';
+  }
+  
+  private postState(): void {
+    const thread = this.threadId ? this.chatService.getThread(this.threadId) : undefined;
+    
+    this.post({
+      type: 'state',
+      threads: this.chatService.getThreads().map(({ id, title }) => ({ id, title })),
+      threadId: thread?.id,
+      messages: (thread?.messages || []).map(({ role, content, model, error }) => ({ role, content, model, error })),
+      pending: this.cancellationSource ? this.streamedText : undefined
+    });
+  }
+  
+  private post(message: ChatViewMessage): void {
+    // The webview asks for the state when it (re)loads, so messages sent while it's hidden can be dropped
+    this.view?.webview.postMessage(message);
+  }
+  
+  private getHtml(): string {
+    const nonce = crypto.randomBytes(16).toString('base64');
+    
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Asura AI Chat</title>
+        <style>
+          body {
+            font-family: var(--vscode-font-family);
+            padding: 8px;
+            color: var(--vscode-foreground);
+            display: flex;
+            flex-direction: column;
+            height: 100vh;
+            box-sizing: border-box;
+            margin: 0;
+          }
+          .toolbar, .chips, .composer-actions {
+            display: flex;
+            gap: 4px;
+            align-items: center;
+          }
+          select {
+            flex: 1;
+            min-width: 0;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            padding: 2px;
+          }
+          button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 4px 8px;
+            border-radius: 2px;
+            cursor: pointer;
+          }
+          button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+          }
+          button:disabled {
+            opacity: 0.5;
+            cursor: default;
+          }
+          button.secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+          }
+          #messages {
+            flex: 1;
+            overflow-y: auto;
+            margin: 8px 0;
+          }
+          .message {
+            margin-bottom: 12px;
+            white-space: pre-wrap;
+            word-wrap: break-word;
+          }
+          .message .role {
+            font-weight: bold;
+            margin-bottom: 2px;
+          }
+          .message.assistant .content {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 8px;
+            border-radius: 4px;
+          }
+          .meta {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+          }
+          .error {
+            color: var(--vscode-errorForeground);
+          }
+          .empty {
+            color: var(--vscode-descriptionForeground);
+          }
+          textarea {
+            width: 100%;
+            box-sizing: border-box;
+            resize: vertical;
+            min-height: 60px;
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-input-foreground);
+            background-color: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+            padding: 4px;
+            margin: 4px 0;
+          }
+          .composer-actions {
+            justify-content: flex-end;
+          }
+          .hidden {
+            display: none;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="toolbar">
+          <select id="threads" title="Chats"></select>
+          <button class="secondary" id="new-btn" title="New chat">New</button>
+          <button class="secondary" id="rename-btn" title="Rename chat">Rename</button>
+          <button class="secondary" id="delete-btn" title="Delete chat">Delete</button>
+        </div>
+        <div id="messages"></div>
+        <p class="error hidden" id="error"></p>
+        <div class="chips">
+          <button class="secondary" data-mention="@file" title="Attach the active file">@file</button>
+          <button class="secondary" data-mention="@selection" title="Attach the selected code">@selection</button>
+        </div>
+        <textarea id="input" placeholder="Ask Asura AI... (Enter to send, Shift+Enter for a new line)"></textarea>
+        <div class="composer-actions">
+          <button id="send-btn">Send</button>
+          <button class="hidden" id="stop-btn">Stop</button>
+        </div>
+        <script nonce="${nonce}">
+          const vscode = acquireVsCodeApi();
+          const threads = document.getElementById('threads');
+          const messages = document.getElementById('messages');
+          const error = document.getElementById('error');
+          const input = document.getElementById('input');
+          const sendButton = document.getElementById('send-btn');
+          const stopButton = document.getElementById('stop-btn');
+          let pendingContent = null;
+          
+          function show(element, visible) {
+            element.classList.toggle('hidden', !visible);
+          }
+          
+          function renderMessage(role, content, meta, errorText) {
+            const element = document.createElement('div');
+            element.className = 'message ' + role;
+            
+            const roleElement = document.createElement('div');
+            roleElement.className = 'role';
+            roleElement.textContent = role === 'user' ? 'You' : 'Asura AI';
+            element.appendChild(roleElement);
+            
+            const contentElement = document.createElement('div');
+            contentElement.className = 'content';
+            contentElement.textContent = content;
+            show(contentElement, !!content);
+            element.appendChild(contentElement);
+            
+            if (meta || errorText) {
+              const metaElement = document.createElement('div');
+              metaElement.className = errorText ? 'meta error' : 'meta';
+              metaElement.textContent = errorText || meta;
+              element.appendChild(metaElement);
+            }
+            
+            messages.appendChild(element);
+            return contentElement;
+          }
+          
+          function setBusy(busy) {
+            show(sendButton, !busy);
+            show(stopButton, busy);
+            stopButton.disabled = false;
+            threads.disabled = busy;
+            document.querySelectorAll('.toolbar button').forEach(button => button.disabled = busy);
+          }
+          
+          function renderState(state) {
+            threads.innerHTML = '';
+            
+            for (const thread of state.threads) {
+              const option = document.createElement('option');
+              option.value = thread.id;
+              option.textContent = thread.title;
+              option.selected = thread.id === state.threadId;
+              threads.appendChild(option);
+            }
+            
+            if (!state.threadId) {
+              const option = document.createElement('option');
+              option.textContent = 'New chat';
+              option.selected = true;
+              threads.insertBefore(option, threads.firstChild);
+            }
+            
+            messages.innerHTML = '';
+            
+            for (const message of state.messages) {
+              renderMessage(message.role, message.content, message.model, message.error);
+            }
+            
+            if (state.messages.length === 0 && state.pending === undefined) {
+              const empty = document.createElement('p');
+              empty.className = 'empty';
+              empty.textContent = 'Ask a question about your code. Use @file or @selection to include the active editor.';
+              messages.appendChild(empty);
+            }
+            
+            pendingContent = null;
+            
+            if (state.pending !== undefined) {
+              pendingContent = renderMessage('assistant', state.pending, 'Thinking...');
+            }
+            
+            setBusy(state.pending !== undefined);
+            messages.scrollTop = messages.scrollHeight;
+          }
+          
+          function send() {
+            const text = input.value;
+            
+            if (!text.trim() || !stopButton.classList.contains('hidden')) {
+              return;
+            }
+            
+            show(error, false);
+            input.value = '';
+            vscode.postMessage({ command: 'send', text });
+          }
+          
+          window.addEventListener('message', event => {
+            const message = event.data;
+            
+            switch (message.type) {
+              case 'state':
+                renderState(message);
+                break;
+              case 'chunk':
+                if (pendingContent) {
+                  pendingContent.textContent += message.text;
+                  show(pendingContent, true);
+                  messages.scrollTop = messages.scrollHeight;
+                }
+                break;
+              case 'error':
+                error.textContent = message.text;
+                show(error, true);
+                break;
+            }
+          });
+          
+          input.addEventListener('keydown', event => {
+            if (event.key === 'Enter' && !event.shiftKey && !event.isComposing) {
+              event.preventDefault();
+              send();
+            }
+          });
+          
+          sendButton.addEventListener('click', send);
+          
+          stopButton.addEventListener('click', () => {
+            stopButton.disabled = true;
+            vscode.postMessage({ command: 'stop' });
+          });
+          
+          threads.addEventListener('change', () => {
+            vscode.postMessage({ command: 'selectThread', threadId: threads.value });
+          });
+          
+          document.getElementById('new-btn').addEventListener('click', () => vscode.postMessage({ command: 'newThread' }));
+          document.getElementById('rename-btn').addEventListener('click', () => vscode.postMessage({ command: 'renameThread' }));
+          document.getElementById('delete-btn').addEventListener('click', () => vscode.postMessage({ command: 'deleteThread' }));
+          
+          document.querySelectorAll('[data-mention]').forEach(chip => {
+            chip.addEventListener('click', () => {
+              const mention = chip.getAttribute('data-mention');
+              const start = input.selectionStart;
+              const before = input.value.substring(0, start);
+              const separator = before && !/\\s$/.test(before) ? ' ' : '';
+              
+              input.value = before + separator + mention + ' ' + input.value.substring(input.selectionEnd);
+              input.selectionStart = input.selectionEnd = start + separator.length + mention.length + 1;
+              input.focus();
+            });
+          });
+          
+          vscode.postMessage({ command: 'ready' });
+        </script>
+      </body>
+      </html>
+    `;
+  }
+}
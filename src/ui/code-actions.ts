@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { AITask } from '../api/orchestrator';
+
+// Types
+export interface CodeTaskDefinition {
+  id: string;
+  title: string;
+  // Orchestrator task type the action runs as
+  taskType: string;
+  query: string;
+}
+
+// Command that runs a code task on a range: (uri, range, code task ID)
+export const RUN_CODE_TASK_COMMAND = 'asura-ai.runCodeTask';
+
+// Tasks offered on selected code and above functions and classes
+export const CODE_TASKS: CodeTaskDefinition[] = [
+  { id: 'explain', title: 'Explain', taskType: 'explain', query: 'Explain what this code does and how it works.' },
+  { id: 'refactor', title: 'Refactor', taskType: 'refactor', query: 'Refactor this code to make it clearer and easier to maintain, without changing its behavior.' },
+  { id: 'test', title: 'Generate Tests', taskType: 'test', query: 'Write unit tests for this code, covering its main behavior and edge cases.' },
+  { id: 'document', title: 'Add Docs', taskType: 'document', query: 'Add documentation comments to this code. Return the code with the comments added.' },
+  { id: 'security', title: 'Find Security Issues', taskType: 'security-fix', query: 'Find security vulnerabilities in this code and fix them. If there are none, say so.' }
+];
+
+// Symbols that get code lenses
+const CODE_LENS_SYMBOL_KINDS = [
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor,
+  vscode.SymbolKind.Class
+];
+
+/**
+ * Builds the task of a code action for a range of a document
+ * @param document The document
+ * @param range The code the task is about
+ * @param definition The code task
+ */
+export function createCodeTask(document: vscode.TextDocument, range: vscode.Range, definition: CodeTaskDefinition): AITask {
+  const code = document.getText(range);
+  const relativePath = vscode.workspace.asRelativePath(document.uri);
+  
+  return {
+    type: definition.taskType,
+    query: `${definition.query}\n\n${relativePath}, lines ${range.start.line + 1}-${range.end.line + 1}:\n` +
+      `\`\`\`${document.languageId}\n${code}\n\`\`\``,
+    filePath: document.fileName,
+    language: document.languageId,
+    selection: {
+      start: range.start,
+      end: range.end,
+      text: code
+    }
+  };
+}
+
+/**
+ * Offers the code tasks in the light bulb and Refactor menu for selected code
+ */
+export class AsuraCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.Refactor.append('asura')];
+  
+  public provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+    if (range.isEmpty || !document.getText(range).trim()) {
+      return [];
+    }
+    
+    return CODE_TASKS.map(definition => {
+      const action = new vscode.CodeAction(`Asura AI: ${definition.title}`, AsuraCodeActionProvider.providedCodeActionKinds[0]);
+      action.command = {
+        command: RUN_CODE_TASK_COMMAND,
+        title: definition.title,
+        arguments: [document.uri, range, definition.id]
+      };
+      
+      return action;
+    });
+  }
+}
+
+/**
+ * Shows the code tasks above functions, methods and classes
+ */
+export class AsuraCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly configurationListener: vscode.Disposable;
+  
+  public readonly onDidChangeCodeLenses = this.changeEmitter.event;
+  
+  constructor() {
+    this.configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('asura-ai.codeLens.enabled')) {
+        this.changeEmitter.fire();
+      }
+    });
+  }
+  
+  public async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+    if (!vscode.workspace.getConfiguration('asura-ai').get<boolean>('codeLens.enabled', true)) {
+      return [];
+    }
+    
+    // Symbols come from the language's own extension, so languages without one get no lenses
+    const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+      'vscode.executeDocumentSymbolProvider',
+      document.uri
+    );
+    
+    if (!symbols || token.isCancellationRequested) {
+      return [];
+    }
+    
+    return this.getSymbolRanges(symbols).flatMap(symbolRange => {
+      // Whole lines, so an edit replaces the symbol cleanly
+      const range = new vscode.Range(symbolRange.start.line, 0, symbolRange.end.line, document.lineAt(symbolRange.end.line).text.length);
+      
+      return CODE_TASKS.map((definition, index) => new vscode.CodeLens(range, {
+        command: RUN_CODE_TASK_COMMAND,
+        title: index === 0 ? `Asura AI: ${definition.title}` : definition.title,
+        arguments: [document.uri, range, definition.id]
+      }));
+    });
+  }
+  
+  public dispose(): void {
+    this.configurationListener.dispose();
+    this.changeEmitter.dispose();
+  }
+  
+  // Helper methods
+  private getSymbolRanges(symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[]): vscode.Range[] {
+    const ranges: vscode.Range[] = [];
+    
+    for (const symbol of symbols) {
+      if ('children' in symbol) {
+        if (CODE_LENS_SYMBOL_KINDS.includes(symbol.kind)) {
+          ranges.push(symbol.range);
+        }
+        
+        ranges.push(...this.getSymbolRanges(symbol.children));
+      } else if (CODE_LENS_SYMBOL_KINDS.includes(symbol.kind)) {
+        ranges.push(symbol.location.range);
+      }
+    }
+    
+    return ranges;
+  }
+}
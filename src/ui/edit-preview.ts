@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EditHunk, EditProposal, applyHunksToText, createWorkspaceEdit } from '../core/edits';
+
+// Scheme of the read-only documents that show a proposal's result in the diff editor
+const PROPOSAL_SCHEME = 'asura-proposal';
+
+/**
+ * Shows proposed code edits in the diff editor and applies the hunks the user accepts.
+ * The right side of the diff follows the selection, so it always shows what will be applied.
+ */
+export class EditPreviewController implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  // Proposed text by proposal document URI
+  private readonly proposedTexts: Map<string, string> = new Map();
+  private readonly disposables: vscode.Disposable[] = [];
+  private nextId = 1;
+  
+  public readonly onDidChange = this.changeEmitter.event;
+  
+  constructor() {
+    this.disposables.push(vscode.workspace.registerTextDocumentContentProvider(PROPOSAL_SCHEME, this));
+    
+    // The diff stays open after the review, so a proposal's text is kept until its document closes
+    this.disposables.push(vscode.workspace.onDidCloseTextDocument(document => {
+      if (document.uri.scheme === PROPOSAL_SCHEME) {
+        this.proposedTexts.delete(document.uri.toString());
+      }
+    }));
+  }
+  
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.proposedTexts.get(uri.toString()) ?? '';
+  }
+  
+  /**
+   * Opens the diff of a proposal and lets the user pick the hunks to apply
+   * @param proposal The proposal
+   * @returns Whether any hunks were applied
+   */
+  public async review(proposal: EditProposal): Promise<boolean> {
+    const fileName = path.basename(proposal.uri.fsPath);
+    const proposalUri = vscode.Uri.from({ scheme: PROPOSAL_SCHEME, path: `/${this.nextId++}/${fileName}` });
+    const key = proposalUri.toString();
+    
+    this.proposedTexts.set(key, applyHunksToText(proposal, proposal.hunks));
+    
+    await vscode.commands.executeCommand('vscode.diff', proposal.uri, proposalUri, `${fileName} ↔ Asura AI suggestion`, { preview: true });
+    
+    const accepted = await this.pickHunks(proposal, hunks => {
+      this.proposedTexts.set(key, applyHunksToText(proposal, hunks));
+      this.changeEmitter.fire(proposalUri);
+    });
+    
+    if (!accepted || accepted.length === 0) {
+      return false;
+    }
+    
+    return this.apply(proposal, accepted);
+  }
+  
+  /**
+   * Applies hunks of a proposal to its document as a single undoable edit
+   * @param proposal The proposal
+   * @param hunks The hunks to apply
+   * @returns Whether the edit was applied
+   */
+  public async apply(proposal: EditProposal, hunks: EditHunk[]): Promise<boolean> {
+    const document = await vscode.workspace.openTextDocument(proposal.uri);
+    
+    if (document.version !== proposal.documentVersion) {
+      vscode.window.showWarningMessage(`${path.basename(proposal.uri.fsPath)} changed since the suggestion was made. Ask again to get edits for the current version.`);
+      return false;
+    }
+    
+    const applied = await vscode.workspace.applyEdit(createWorkspaceEdit(proposal, hunks));
+    
+    if (!applied) {
+      vscode.window.showErrorMessage(`Failed to apply the changes to ${path.basename(proposal.uri.fsPath)}`);
+    }
+    
+    return applied;
+  }
+  
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.changeEmitter.dispose();
+  }
+  
+  // Helper methods
+  private pickHunks(proposal: EditProposal, onDidChangeSelection: (hunks: EditHunk[]) => void): Promise<EditHunk[] | undefined> {
+    return new Promise(resolve => {
+      const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { hunk: EditHunk }>();
+      const items = proposal.hunks.map(hunk => ({ label: describeHunk(hunk), detail: previewHunk(hunk), hunk }));
+      let resolved = false;
+      
+      quickPick.title = `Apply changes to ${path.basename(proposal.uri.fsPath)}`;
+      quickPick.placeholder = 'Select the changes to accept, then press Enter. Press Escape to reject all.';
+      quickPick.canSelectMany = true;
+      quickPick.ignoreFocusOut = true;
+      quickPick.items = items;
+      quickPick.selectedItems = items;
+      
+      quickPick.onDidChangeSelection(selected => onDidChangeSelection(selected.map(item => item.hunk)));
+      
+      quickPick.onDidAccept(() => {
+        resolved = true;
+        resolve(quickPick.selectedItems.map(item => item.hunk));
+        quickPick.hide();
+      });
+      
+      quickPick.onDidHide(() => {
+        if (!resolved) {
+          resolve(undefined);
+        }
+        
+        quickPick.dispose();
+      });
+      
+      quickPick.show();
+    });
+  }
+}
+
+// Helper functions
+function describeHunk(hunk: EditHunk): string {
+  const start = hunk.startLine + 1;
+  
+  if (hunk.originalLines.length === 0) {
+    return `Insert ${hunk.newLines.length} line${hunk.newLines.length === 1 ? '' : 's'} at line ${start}`;
+  }
+  
+  const lines = hunk.originalLines.length === 1 ? `line ${start}` : `lines ${start}-${start + hunk.originalLines.length - 1}`;
+  
+  return hunk.newLines.length === 0 ? `Delete ${lines}` : `Change ${lines} (-${hunk.originalLines.length} +${hunk.newLines.length})`;
+}
+
+function previewHunk(hunk: EditHunk): string {
+  const line = (hunk.newLines.length > 0 ? hunk.newLines : hunk.originalLines).find(text => text.trim()) || '';
+  
+  return `${hunk.newLines.length > 0 ? '+' : '-'} ${line.trim()}`;
+}
@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import { ModelOrchestrator } from '../api/orchestrator';
+import { SemanticContextManager } from '../core/context/semantic-manager';
+import { extractCodeBlocks } from '../core/edits';
+
+// Types
+export interface InlineCompletionSettings {
+  // Enable switch per VS Code language ID; '*' applies to languages without an entry of their own
+  enable: { [languageId: string]: boolean };
+  // Typing pause before a completion is requested
+  debounceMs: number;
+}
+
+interface CachedSuggestion {
+  uri: string;
+  line: number;
+  // Text of the line before the cursor, and after the cursor to the end of the window
+  linePrefix: string;
+  suffix: string;
+  completion: string;
+}
+
+// Characters before and after the cursor sent to the model
+const PREFIX_CHARS = 3000;
+const SUFFIX_CHARS = 1000;
+
+// Token budget for codebase context; completions need to be fast, so it is kept small
+const CONTEXT_TOKENS = 500;
+
+// Recent suggestions kept for repeated requests and for typing through a suggestion
+const MAX_CACHED_SUGGESTIONS = 50;
+
+/**
+ * Reads the inline completion settings
+ */
+export function getInlineCompletionSettings(): InlineCompletionSettings {
+  const config = vscode.workspace.getConfiguration('asura-ai.inlineCompletions');
+  
+  return {
+    enable: config.get<{ [languageId: string]: boolean }>('enable', { '*': true }),
+    debounceMs: config.get<number>('debounceMs', 300)
+  };
+}
+
+/**
+ * Ghost-text code completions from the orchestrator's 'complete' task type, using the code
+ * around the cursor and related code from the semantic context
+ */
+export class AsuraInlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+  // Most recently used last
+  private readonly suggestions: Map<string, CachedSuggestion> = new Map();
+  
+  constructor(
+    private readonly orchestrator: ModelOrchestrator,
+    private readonly contextManager: SemanticContextManager
+  ) {}
+  
+  public async provideInlineCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.InlineCompletionContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.InlineCompletionItem[] | undefined> {
+    const settings = getInlineCompletionSettings();
+    
+    if (!this.isEnabled(document.languageId, settings) || context.selectedCompletionInfo) {
+      return undefined;
+    }
+    
+    // Completing in the middle of a word or expression rarely helps
+    const lineSuffix = document.lineAt(position.line).text.substring(position.character);
+    
+    if (!/^[\s)\]}'"`;,]*$/.test(lineSuffix)) {
+      return undefined;
+    }
+    
+    const offset = document.offsetAt(position);
+    const text = document.getText();
+    const prefix = text.substring(Math.max(0, offset - PREFIX_CHARS), offset);
+    const suffix = text.substring(offset, offset + SUFFIX_CHARS);
+    const linePrefix = document.lineAt(position.line).text.substring(0, position.character);
+    
+    const cached = this.findCachedSuggestion(document.uri.toString(), position.line, linePrefix, suffix);
+    
+    if (cached) {
+      return [new vscode.InlineCompletionItem(cached, new vscode.Range(position, position))];
+    }
+    
+    // Wait for a pause in typing; VS Code cancels the request when the user types on
+    if (!(await this.debounce(settings.debounceMs, token))) {
+      return undefined;
+    }
+    
+    try {
+      const relevantContext = await this.contextManager.getRelevantContext(prefix.slice(-500), CONTEXT_TOKENS);
+      
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+      
+      const response = await this.orchestrator.executeTask({
+        type: 'complete',
+        query: this.createPrompt(prefix, suffix, document.languageId),
+        context: relevantContext,
+        filePath: document.fileName,
+        language: document.languageId,
+        options: {
+          temperature: 0.2,
+          maxTokens: 256
+        }
+      }, undefined, token);
+      
+      const completion = this.cleanCompletion(response.content, prefix, suffix);
+      
+      if (!completion || token.isCancellationRequested) {
+        return undefined;
+      }
+      
+      this.cacheSuggestion({ uri: document.uri.toString(), line: position.line, linePrefix, suffix, completion });
+      
+      return [new vscode.InlineCompletionItem(completion, new vscode.Range(position, position))];
+    } catch (error) {
+      // Cancellations and failures are expected while typing; the user just sees no suggestion
+      if (!token.isCancellationRequested) {
+        console.warn('Inline completion failed:', error);
+      }
+      
+      return undefined;
+    }
+  }
+  
+  // Helper methods
+  private isEnabled(languageId: string, settings: InlineCompletionSettings): boolean {
+    return settings.enable[languageId] ?? settings.enable['*'] ?? true;
+  }
+  
+  private debounce(delayMs: number, token: vscode.CancellationToken): Promise<boolean> {
+    return new Promise(resolve => {
+      if (token.isCancellationRequested) {
+        resolve(false);
+        return;
+      }
+      
+      const timer = setTimeout(() => {
+        listener.dispose();
+        resolve(!token.isCancellationRequested);
+      }, delayMs);
+      
+      const listener = token.onCancellationRequested(() => {
+        clearTimeout(timer);
+        listener.dispose();
+        resolve(false);
+      });
+    });
+  }
+  
+  private createPrompt(prefix: string, suffix: string, languageId: string): string {
+    return `Complete the ${languageId} code at <CURSOR>. Reply with only the code to insert at the cursor: ` +
+      'no explanation, no code fences, and nothing that is already before or after the cursor. ' +
+      'Keep it short, at most the rest of the current statement or block.\n\n' +
+      `${prefix}<CURSOR>${suffix}`;
+  }
+  
+  /**
+   * Turns a model answer into the text to insert: strips code fences and any repeated
+   * text around the cursor, and stops where the answer runs into the code after the cursor
+   */
+  private cleanCompletion(content: string, prefix: string, suffix: string): string {
+    let completion = extractCodeBlocks(content)[0]?.code ?? content;
+    completion = completion.replace(/<CURSOR>/g, '');
+    
+    // Models sometimes repeat the start of the current line
+    const currentLine = prefix.substring(prefix.lastIndexOf('\n') + 1);
+    
+    if (currentLine.trim() && completion.startsWith(currentLine)) {
+      completion = completion.substring(currentLine.length);
+    }
+    
+    const nextLines = suffix.split('\n').map(line => line.trim()).filter(Boolean);
+    
+    if (nextLines.length > 0) {
+      const lines = completion.split('\n');
+      const overlap = lines.findIndex((line, index) => index > 0 && line.trim() === nextLines[0]);
+      
+      if (overlap > 0) {
+        completion = lines.slice(0, overlap).join('\n');
+      }
+    }
+    
+    return completion.trimEnd();
+  }
+  
+  private findCachedSuggestion(uri: string, line: number, linePrefix: string, suffix: string): string | undefined {
+    for (const [key, suggestion] of this.suggestions) {
+      if (suggestion.uri !== uri || suggestion.line !== line || suggestion.suffix !== suffix || !linePrefix.startsWith(suggestion.linePrefix)) {
+        continue;
+      }
+      
+      // What was typed since the suggestion was shown has to match its start
+      const typed = linePrefix.substring(suggestion.linePrefix.length);
+      
+      if (suggestion.completion.startsWith(typed) && typed.length < suggestion.completion.length) {
+        this.suggestions.delete(key);
+        this.suggestions.set(key, suggestion);
+        return suggestion.completion.substring(typed.length);
+      }
+    }
+    
+    return undefined;
+  }
+  
+  private cacheSuggestion(suggestion: CachedSuggestion): void {
+    const key = `${suggestion.uri}:${suggestion.line}:${suggestion.linePrefix}`;
+    this.suggestions.delete(key);
+    this.suggestions.set(key, suggestion);
+    
+    while (this.suggestions.size > MAX_CACHED_SUGGESTIONS) {
+      const oldestKey = this.suggestions.keys().next().value;
+      
+      if (oldestKey === undefined) {
+        break;
+      }
+      
+      this.suggestions.delete(oldestKey);
+    }
+  }
+}
@@ -0,0 +1,290 @@
+// Small Markdown renderer for the webviews: model answers use a predictable subset of Markdown,
+// so headings, lists, quotes, fenced code and inline formatting cover them without a bundled library
+
+// Types
+export interface RenderedCodeBlock {
+  // VS Code language ID, if the fence named a known language
+  language?: string;
+  code: string;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  // In document order; the HTML marks each block's <pre> with data-block="<index>"
+  codeBlocks: RenderedCodeBlock[];
+}
+
+interface LanguageSyntax {
+  keywords: Set<string>;
+  lineComment?: string;
+  blockComment?: [string, string];
+}
+
+// Fence names that differ from VS Code language IDs
+const LANGUAGE_ALIASES: { [alias: string]: string } = {
+  js: 'javascript',
+  jsx: 'javascriptreact',
+  ts: 'typescript',
+  tsx: 'typescriptreact',
+  py: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  cs: 'csharp',
+  'c#': 'csharp',
+  kt: 'kotlin',
+  sh: 'shellscript',
+  bash: 'shellscript',
+  shell: 'shellscript',
+  zsh: 'shellscript',
+  yml: 'yaml',
+  md: 'markdown',
+  'c++': 'cpp',
+  golang: 'go'
+};
+
+const C_LIKE_KEYWORDS = 'break case catch class const continue default do else enum extends false final finally for if ' +
+  'import in instanceof interface new null private protected public return static super switch this throw true try void while';
+
+const LANGUAGE_SYNTAX: { [language: string]: LanguageSyntax } = {
+  javascript: cLike('async await delete export from function let of typeof undefined var yield'),
+  typescript: cLike('abstract any as async await boolean declare delete export from function implements keyof let ' +
+    'number of readonly string type typeof undefined unknown var yield'),
+  java: cLike('abstract boolean byte char double float implements int long native package short synchronized throws var'),
+  csharp: cLike('abstract as async await base bool byte char decimal double float foreach int is long namespace object ' +
+    'out override readonly ref sealed string using var virtual'),
+  go: cLike('chan defer fallthrough func go goto map nil package range select struct type var'),
+  rust: cLike('as async await crate dyn fn impl let loop match mod move mut pub ref self Self struct trait type unsafe use where'),
+  c: cLike('auto char double extern float goto int long register short signed sizeof struct typedef union unsigned volatile'),
+  cpp: cLike('auto bool char delete double explicit float friend int long namespace nullptr operator template typename ' +
+    'unsigned using virtual'),
+  php: cLike('abstract array as echo elseif fn foreach function global implements isset namespace require trait use var'),
+  kotlin: cLike('as data fun in is object override package val var when'),
+  swift: cLike('as func guard in is let nil override protocol self struct var'),
+  python: {
+    keywords: words('and as assert async await break class continue def del elif else except False finally for from global ' +
+      'if import in is lambda None nonlocal not or pass raise return self True try while with yield'),
+    lineComment: '#'
+  },
+  ruby: {
+    keywords: words('alias and begin break case class def do else elsif end ensure false for if in module next nil not or ' +
+      'redo rescue retry return self super then true undef unless until when while yield'),
+    lineComment: '#'
+  },
+  shellscript: {
+    keywords: words('case do done elif else esac export fi for function if in local return then until while'),
+    lineComment: '#'
+  },
+  yaml: { keywords: words('true false null yes no'), lineComment: '#' },
+  sql: {
+    keywords: words('select from where insert into values update set delete create table drop alter join left right inner ' +
+      'outer on group by order having limit and or not null as distinct union primary key index'),
+    lineComment: '--',
+    blockComment: ['/*', '*/']
+  }
+};
+
+// Languages that share another's syntax
+LANGUAGE_SYNTAX.javascriptreact = LANGUAGE_SYNTAX.javascript;
+LANGUAGE_SYNTAX.typescriptreact = LANGUAGE_SYNTAX.typescript;
+LANGUAGE_SYNTAX.json = { keywords: words('true false null') };
+
+/**
+ * Maps a code fence's language name to a VS Code language ID
+ * @param name The name after the opening fence, e.g. 'ts'
+ */
+export function toLanguageId(name: string | undefined): string | undefined {
+  if (!name) {
+    return undefined;
+  }
+  
+  const lowerName = name.toLowerCase();
+  return LANGUAGE_ALIASES[lowerName] || lowerName;
+}
+
+/**
+ * Renders Markdown to HTML. All text is escaped; only http(s) links are kept.
+ * An unclosed code fence runs to the end, so partial answers render while they stream.
+ * @param markdown The Markdown
+ */
+export function renderMarkdown(markdown: string): RenderedMarkdown {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const html: string[] = [];
+  const codeBlocks: RenderedCodeBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | undefined;
+  
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+      paragraph = [];
+    }
+  };
+  
+  const flushList = () => {
+    if (list) {
+      const tag = list.ordered ? 'ol' : 'ul';
+      html.push(`<${tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+      list = undefined;
+    }
+  };
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(/^\s*```\s*([\w+#.-]*)/);
+    
+    if (fence) {
+      flushParagraph();
+      flushList();
+      
+      const codeLines: string[] = [];
+      
+      while (++i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        codeLines.push(lines[i]);
+      }
+      
+      const language = toLanguageId(fence[1]);
+      const code = codeLines.join('\n');
+      const index = codeBlocks.push({ language, code }) - 1;
+      
+      html.push(`<pre data-block="${index}"><code>${highlightCode(code, language)}</code></pre>`);
+      continue;
+    }
+    
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const listItem = line.match(/^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+    
+    if (heading) {
+      flushParagraph();
+      flushList();
+      // The panel's own title is the h2
+      const level = Math.min(heading[1].length + 2, 6);
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      flushList();
+      html.push('<hr>');
+    } else if (listItem) {
+      flushParagraph();
+      const ordered = !listItem[1];
+      
+      if (list && list.ordered !== ordered) {
+        flushList();
+      }
+      
+      list = list || { ordered, items: [] };
+      list.items.push(listItem[3]);
+    } else if (line.startsWith('>')) {
+      flushParagraph();
+      flushList();
+      html.push(`<blockquote>${renderInline(line.replace(/^>\s?/, ''))}</blockquote>`);
+    } else if (!line.trim()) {
+      flushParagraph();
+      flushList();
+    } else if (list && /^\s+\S/.test(line)) {
+      // Continuation of the last list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      flushList();
+      paragraph.push(line);
+    }
+  }
+  
+  flushParagraph();
+  flushList();
+  
+  return { html: html.join('\n'), codeBlocks };
+}
+
+/**
+ * Highlights code as escaped HTML with <span class="token-..."> around keywords, strings, numbers and comments
+ * @param code The code
+ * @param language VS Code language ID; unknown languages are escaped without highlighting
+ */
+export function highlightCode(code: string, language?: string): string {
+  const syntax = language ? LANGUAGE_SYNTAX[language] : undefined;
+  
+  if (!syntax) {
+    return escapeHtml(code);
+  }
+  
+  const patterns: string[] = [];
+  
+  if (syntax.blockComment) {
+    patterns.push(`${escapeRegExp(syntax.blockComment[0])}[\\s\\S]*?(?:${escapeRegExp(syntax.blockComment[1])}|$)`);
+  }
+  
+  if (syntax.lineComment) {
+    patterns.push(`${escapeRegExp(syntax.lineComment)}[^\\n]*`);
+  }
+  
+  const commentCount = patterns.length;
+  patterns.push('"(?:[^"\\\\\\n]|\\\\.)*"?', '\'(?:[^\'\\\\\\n]|\\\\.)*\'?', '`(?:[^`\\\\]|\\\\.)*`?');
+  patterns.push('\\b(?:0[xX][\\da-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b', '[A-Za-z_$][\\w$]*');
+  
+  const tokenPattern = new RegExp(patterns.map(pattern => `(${pattern})`).join('|'), 'g');
+  let result = '';
+  let lastIndex = 0;
+  
+  for (const match of code.matchAll(tokenPattern)) {
+    const index = match.index ?? 0;
+    const group = match.slice(1).findIndex(value => value !== undefined);
+    const text = match[0];
+    let tokenClass: string | undefined;
+    
+    if (group < commentCount) {
+      tokenClass = 'comment';
+    } else if (group < commentCount + 3) {
+      tokenClass = 'string';
+    } else if (group === commentCount + 3) {
+      tokenClass = 'number';
+    } else if (syntax.keywords.has(text) || (language === 'sql' && syntax.keywords.has(text.toLowerCase()))) {
+      tokenClass = 'keyword';
+    }
+    
+    result += escapeHtml(code.substring(lastIndex, index));
+    result += tokenClass ? `<span class="token-${tokenClass}">${escapeHtml(text)}</span>` : escapeHtml(text);
+    lastIndex = index + text.length;
+  }
+  
+  return result + escapeHtml(code.substring(lastIndex));
+}
+
+/**
+ * Escapes text for HTML
+ * @param text The text
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+// Helper functions
+function renderInline(text: string): string {
+  // Code spans are set aside first so nothing inside them is formatted. Their placeholders are
+  // delimited by NUL characters, which are dropped from the text so it can't contain a placeholder itself
+  const codeSpans: string[] = [];
+  const withoutCode = text.replace(/\u0000/g, '').replace(/`([^`]+)`/g, (_, code: string) => `\u0000${codeSpans.push(code) - 1}\u0000`);
+  
+  return escapeHtml(withoutCode)
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^\w*])\*([^*\s][^*]*?)\*(?!\*)|(^|\W)_([^_\s][^_]*?)_(?!\w)/g, (_, a?: string, b?: string, c?: string, d?: string) =>
+      a !== undefined ? `${a}<em>${b}</em>` : `${c}<em>${d}</em>`)
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => `<code>${escapeHtml(codeSpans[Number(index)])}</code>`);
+}
+
+function cLike(extraKeywords: string): LanguageSyntax {
+  return { keywords: words(`${C_LIKE_KEYWORDS} ${extraKeywords}`), lineComment: '//', blockComment: ['/*', '*/'] };
+}
+
+function words(list: string): Set<string> {
+  return new Set(list.split(' '));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
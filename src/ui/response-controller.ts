@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { AITask, ModelOrchestrator } from '../api/orchestrator';
+import { isProviderError } from '../api/providers/errors';
+import { createEditProposal } from '../core/edits';
+import { EditPreviewController } from './edit-preview';
+import { ResponsePanel, describeResponse } from './response-panel';
+
+// Task types whose answers are code changes to the current file, offered as a diff to review
+const EDIT_TASK_TYPES = ['refactor', 'fix', 'security-fix', 'generate', 'document'];
+
+/**
+ * Runs a task into a response panel and handles the panel's task actions:
+ * regenerating the answer, asking follow-up questions and reviewing the answer's code edits
+ */
+export class ResponseController {
+  public readonly panel: ResponsePanel;
+  private task?: AITask;
+  private lastAnswer?: string;
+  private running = false;
+  
+  constructor(
+    private readonly orchestrator: ModelOrchestrator,
+    private readonly editPreview: EditPreviewController,
+    private readonly editor?: vscode.TextEditor,
+    title?: string
+  ) {
+    this.panel = new ResponsePanel(title, {
+      editor,
+      onRegenerate: () => this.regenerate(),
+      onFollowUp: (question) => this.followUp(question)
+    });
+  }
+  
+  /**
+   * Runs a task, streaming its answer into the panel
+   * @param task The task
+   * @param question The follow-up question the task asks, if it isn't the panel's first task
+   */
+  public async run(task: AITask, question?: string): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    
+    this.running = true;
+    this.task = task;
+    this.lastAnswer = undefined;
+    this.panel.begin(question);
+    
+    // Edits are only offered against the text the model saw
+    const document = this.editor?.document;
+    const documentVersion = document?.version;
+    const selection = task.selection ? new vscode.Selection(task.selection.start, task.selection.end) : this.editor?.selection;
+    
+    try {
+      this.panel.setStatus('Waiting for the model...');
+      const response = await this.orchestrator.executeTask(task, (chunk) => this.panel.append(chunk), this.panel.token);
+      
+      const proposal = document && EDIT_TASK_TYPES.includes(task.type) && document.version === documentVersion
+        ? createEditProposal(document, response.content, selection)
+        : undefined;
+      
+      this.lastAnswer = response.content;
+      this.panel.complete(response.content, describeResponse(response), proposal ? () => this.editPreview.review(proposal) : undefined);
+    } catch (error) {
+      // Stopped from the panel
+      if (isProviderError(error, 'cancelled')) {
+        this.panel.stopped();
+        return;
+      }
+      
+      this.panel.fail(`Asura AI error: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.running = false;
+    }
+  }
+  
+  // Command handlers
+  private regenerate(): void {
+    if (this.task) {
+      this.run({ ...this.task, id: undefined });
+    }
+  }
+  
+  private followUp(question: string): void {
+    if (!this.task || this.lastAnswer === undefined) {
+      return;
+    }
+    
+    // The follow-up keeps the task's type, file and context, with the last exchange added to its history
+    this.run({
+      ...this.task,
+      id: undefined,
+      query: question,
+      history: [
+        ...(this.task.history || []),
+        { role: 'user', content: this.task.query },
+        { role: 'assistant', content: this.lastAnswer }
+      ]
+    }, question);
+  }
+}
@@ -0,0 +1,626 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ApiResponse } from '../api/providers/base-provider';
+import { RenderedCodeBlock, escapeHtml, renderMarkdown } from './markdown';
+
+// Types
+export interface ResponsePanelOptions {
+  // Editor that code is inserted into; defaults to the active one
+  editor?: vscode.TextEditor;
+  // Shows a Regenerate button that calls this
+  onRegenerate?: () => void;
+  // Shows a follow-up question box that calls this
+  onFollowUp?: (question: string) => void;
+}
+
+// One question and its answer; a panel starts with one and gets another for each follow-up
+interface ResponseTurn {
+  content: string;
+  codeBlocks: RenderedCodeBlock[];
+}
+
+// Messages posted to the webview
+type PanelMessage =
+  | { type: 'start'; question?: string; replace: boolean }
+  | { type: 'status'; text: string }
+  | { type: 'render'; html: string }
+  | { type: 'done'; html: string; footer?: string; canReview: boolean }
+  | { type: 'error'; text: string }
+  | { type: 'stopped' };
+
+// Streamed chunks are batched so a fast stream doesn't flood the webview with messages
+const CHUNK_FLUSH_INTERVAL_MS = 50;
+
+/**
+ * Describes who answered and what it cost, for the panel footer
+ * @param response The response
+ */
+export function describeResponse(response: ApiResponse): string {
+  return `${response.model} · ${response.usage.totalTokens} tokens${response.cached ? ' · cached' : ''}`;
+}
+
+/**
+ * Webview panel that opens as soon as a task starts and renders the response as Markdown while it streams in.
+ * Its Stop button, and closing the panel, cancel the task through the panel's cancellation token.
+ * Code in the response can be inserted, copied or opened as a new file.
+ */
+export class ResponsePanel implements vscode.Disposable {
+  private readonly panel: vscode.WebviewPanel;
+  private cancellationSource = new vscode.CancellationTokenSource();
+  // Messages wait here until the webview's script is ready to receive them
+  private queuedMessages: PanelMessage[] = [];
+  private ready = false;
+  private turns: ResponseTurn[] = [{ content: '', codeBlocks: [] }];
+  private flushTimer?: NodeJS.Timeout;
+  private disposed = false;
+  private reviewChanges?: () => void;
+  
+  constructor(title: string = 'Asura AI Response', private readonly options: ResponsePanelOptions = {}) {
+    this.panel = vscode.window.createWebviewPanel(
+      'asuraResponse',
+      title,
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+    
+    this.panel.webview.html = this.getHtml(title);
+    
+    this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message));
+    
+    this.panel.onDidDispose(() => {
+      this.disposed = true;
+      this.cancellationSource.cancel();
+      this.cancellationSource.dispose();
+      
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = undefined;
+      }
+    });
+  }
+  
+  // Public methods
+  
+  /**
+   * Cancelled when the user clicks Stop or closes the panel
+   */
+  public get token(): vscode.CancellationToken {
+    return this.cancellationSource.token;
+  }
+  
+  /**
+   * Starts another answer in the panel, with a fresh cancellation token
+   * @param question The follow-up question, shown above the answer; omitted to replace the last answer, e.g. to regenerate it
+   */
+  public begin(question?: string): void {
+    if (this.cancellationSource.token.isCancellationRequested && !this.disposed) {
+      this.cancellationSource.dispose();
+      this.cancellationSource = new vscode.CancellationTokenSource();
+    }
+    
+    this.discardPendingRender();
+    this.reviewChanges = undefined;
+    
+    if (question === undefined) {
+      this.turns[this.turns.length - 1] = { content: '', codeBlocks: [] };
+    } else {
+      this.turns.push({ content: '', codeBlocks: [] });
+    }
+    
+    this.post({ type: 'start', question, replace: question === undefined });
+  }
+  
+  /**
+   * Shows a status line, e.g. what the task is waiting for
+   * @param text The status text
+   */
+  public setStatus(text: string): void {
+    this.post({ type: 'status', text });
+  }
+  
+  /**
+   * Appends a streamed chunk of the response
+   * @param chunk The chunk
+   */
+  public append(chunk: string): void {
+    if (!chunk) {
+      return;
+    }
+    
+    this.currentTurn.content += chunk;
+    
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), CHUNK_FLUSH_INTERVAL_MS);
+    }
+  }
+  
+  /**
+   * Shows the final response, replacing whatever was streamed, and hides the Stop button
+   * @param content The response content
+   * @param footer Optional line shown under the response, e.g. the model and token usage
+   * @param reviewChanges Called by the Review Changes button; the button is only shown if this is set
+   */
+  public complete(content: string, footer?: string, reviewChanges?: () => void): void {
+    this.discardPendingRender();
+    
+    const rendered = renderMarkdown(content);
+    this.turns[this.turns.length - 1] = { content, codeBlocks: rendered.codeBlocks };
+    this.reviewChanges = reviewChanges;
+    
+    this.post({ type: 'done', html: rendered.html, footer, canReview: !!reviewChanges });
+  }
+  
+  /**
+   * Shows an error; text streamed so far stays visible
+   * @param message The error message
+   */
+  public fail(message: string): void {
+    this.flush();
+    this.post({ type: 'error', text: message });
+  }
+  
+  /**
+   * Marks the response as stopped by the user
+   */
+  public stopped(): void {
+    this.flush();
+    this.post({ type: 'stopped' });
+  }
+  
+  public dispose(): void {
+    this.panel.dispose();
+  }
+  
+  // Command handlers
+  private async handleMessage(message: any): Promise<void> {
+    try {
+      switch (message.command) {
+        case 'ready':
+          this.ready = true;
+          this.queuedMessages.forEach(queued => this.panel.webview.postMessage(queued));
+          this.queuedMessages = [];
+          break;
+        case 'stop':
+          this.cancellationSource.cancel();
+          break;
+        case 'review':
+          this.reviewChanges?.();
+          break;
+        case 'insert':
+          await this.insertCode(this.getCode(message), false);
+          break;
+        case 'replaceSelection':
+          await this.insertCode(this.getCode(message), true);
+          break;
+        case 'copy':
+          await vscode.env.clipboard.writeText(this.getCode(message).code);
+          vscode.window.setStatusBarMessage('Asura AI: Copied to clipboard', 3000);
+          break;
+        case 'newFile':
+          await this.openInNewFile(this.getCode(message));
+          break;
+        case 'regenerate':
+          this.options.onRegenerate?.();
+          break;
+        case 'followUp':
+          if (typeof message.text === 'string' && message.text.trim()) {
+            this.options.onFollowUp?.(message.text.trim());
+          }
+          break;
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Asura AI error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  private async insertCode(block: RenderedCodeBlock, replaceSelection: boolean): Promise<void> {
+    const editor = await this.getTargetEditor();
+    
+    if (!editor) {
+      throw new Error('Open a file to insert the code into');
+    }
+    
+    if (replaceSelection && editor.selection.isEmpty) {
+      throw new Error('Select the code to replace first');
+    }
+    
+    const selection = editor.selection;
+    const applied = await editor.edit(builder => {
+      if (replaceSelection) {
+        builder.replace(selection, block.code);
+      } else {
+        builder.insert(selection.active, block.code);
+      }
+    });
+    
+    if (!applied) {
+      throw new Error('The editor rejected the edit');
+    }
+  }
+  
+  private async openInNewFile(block: RenderedCodeBlock): Promise<void> {
+    const languages = await vscode.languages.getLanguages();
+    const language = [block.language, this.options.editor?.document.languageId].find(id => id && languages.includes(id)) || 'plaintext';
+    const document = await vscode.workspace.openTextDocument({ language, content: block.code });
+    
+    await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+  }
+  
+  // Helper methods
+  private get currentTurn(): ResponseTurn {
+    return this.turns[this.turns.length - 1];
+  }
+  
+  /**
+   * Gets the code a webview action refers to: one code block, or else the turn's longest code block,
+   * or the whole answer if it has no code
+   */
+  private getCode(message: { turn?: number; block?: number }): RenderedCodeBlock {
+    const turn = this.turns[message.turn ?? this.turns.length - 1] || this.currentTurn;
+    
+    if (message.block !== undefined && turn.codeBlocks[message.block]) {
+      return turn.codeBlocks[message.block];
+    }
+    
+    const longest = [...turn.codeBlocks].sort((a, b) => b.code.length - a.code.length)[0];
+    return longest || { code: turn.content };
+  }
+  
+  private async getTargetEditor(): Promise<vscode.TextEditor | undefined> {
+    const editor = this.options.editor;
+    
+    if (editor && !editor.document.isClosed) {
+      // Editor objects go stale when their tab is hidden, so look the document up again
+      return vscode.window.visibleTextEditors.find(visible => visible.document === editor.document) ||
+        vscode.window.showTextDocument(editor.document, editor.viewColumn);
+    }
+    
+    return vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
+  }
+  
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    
+    if (this.currentTurn.content) {
+      this.post({ type: 'render', html: renderMarkdown(this.currentTurn.content).html });
+    }
+  }
+  
+  private discardPendingRender(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+  
+  private post(message: PanelMessage): void {
+    if (this.disposed) {
+      return;
+    }
+    
+    if (this.ready) {
+      this.panel.webview.postMessage(message);
+    } else {
+      this.queuedMessages.push(message);
+    }
+  }
+  
+  private getHtml(title: string): string {
+    const nonce = crypto.randomBytes(16).toString('base64');
+    
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${escapeHtml(title)}</title>
+        <style>
+          body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            color: var(--vscode-editor-foreground);
+            background-color: var(--vscode-editor-background);
+            line-height: 1.5;
+          }
+          pre {
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 16px;
+            border-radius: 4px;
+            overflow: auto;
+            margin: 0;
+          }
+          code {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+          }
+          p code, li code {
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 1px 4px;
+            border-radius: 3px;
+          }
+          blockquote {
+            border-left: 3px solid var(--vscode-textBlockQuote-border);
+            margin: 0;
+            padding-left: 12px;
+            color: var(--vscode-descriptionForeground);
+          }
+          a {
+            color: var(--vscode-textLink-foreground);
+          }
+          .token-keyword {
+            color: var(--vscode-symbolIcon-keywordForeground, #569cd6);
+          }
+          .token-string {
+            color: var(--vscode-debugTokenExpression-string, #ce9178);
+          }
+          .token-number {
+            color: var(--vscode-debugTokenExpression-number, #b5cea8);
+          }
+          .token-comment {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+          }
+          .code-block {
+            margin: 12px 0;
+          }
+          .code-actions {
+            display: flex;
+            gap: 4px;
+            justify-content: flex-end;
+            margin-bottom: 2px;
+          }
+          .code-actions button {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 2px 6px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 0.85em;
+          }
+          .question {
+            border-top: 1px solid var(--vscode-panel-border);
+            margin-top: 24px;
+            padding-top: 12px;
+            font-weight: bold;
+            white-space: pre-wrap;
+          }
+          .status, .footer {
+            color: var(--vscode-descriptionForeground);
+          }
+          .footer {
+            white-space: pre-line;
+          }
+          .error {
+            color: var(--vscode-errorForeground);
+          }
+          .action-button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 8px 12px;
+            border-radius: 2px;
+            cursor: pointer;
+            margin-right: 8px;
+            margin-top: 16px;
+          }
+          .action-button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+          }
+          .follow-up {
+            display: flex;
+            gap: 8px;
+            margin-top: 16px;
+          }
+          .follow-up textarea {
+            flex: 1;
+            min-height: 40px;
+            resize: vertical;
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-input-foreground);
+            background-color: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+            padding: 4px;
+          }
+          .follow-up .action-button {
+            margin-top: 0;
+          }
+          .hidden {
+            display: none;
+          }
+        </style>
+      </head>
+      <body>
+        <h2>${escapeHtml(title)}</h2>
+        <div id="turns"></div>
+        <div class="actions">
+          <button class="action-button" id="stop-btn">Stop</button>
+          <button class="action-button hidden" id="review-btn">Review Changes</button>
+          <button class="action-button hidden" id="insert-btn">Insert at Cursor</button>
+          <button class="action-button hidden" id="copy-btn">Copy to Clipboard</button>
+          <button class="action-button hidden" id="regenerate-btn">Regenerate</button>
+        </div>
+        <div class="follow-up hidden" id="follow-up">
+          <textarea id="follow-up-input" placeholder="Ask a follow-up question (Enter to send)"></textarea>
+          <button class="action-button" id="follow-up-btn">Ask</button>
+        </div>
+        <script nonce="${nonce}">
+          const vscode = acquireVsCodeApi();
+          const turns = document.getElementById('turns');
+          const stopButton = document.getElementById('stop-btn');
+          const followUpInput = document.getElementById('follow-up-input');
+          const canRegenerate = ${!!this.options.onRegenerate};
+          const canFollowUp = ${!!this.options.onFollowUp};
+          let turn;
+          
+          function show(element, visible) {
+            element.classList.toggle('hidden', !visible);
+          }
+          
+          function createTurn(question) {
+            const element = document.createElement('div');
+            
+            if (question) {
+              const questionElement = document.createElement('div');
+              questionElement.className = 'question';
+              questionElement.textContent = question;
+              element.appendChild(questionElement);
+            }
+            
+            element.insertAdjacentHTML('beforeend', '<p class="status">Thinking...</p><div class="response"></div>' +
+              '<p class="error hidden"></p><p class="footer hidden"></p>');
+            turns.appendChild(element);
+            
+            return {
+              index: turns.children.length - 1,
+              status: element.querySelector('.status'),
+              response: element.querySelector('.response'),
+              error: element.querySelector('.error'),
+              footer: element.querySelector('.footer')
+            };
+          }
+          
+          function setBusy() {
+            show(stopButton, true);
+            stopButton.disabled = false;
+            
+            for (const id of ['review-btn', 'insert-btn', 'copy-btn', 'regenerate-btn', 'follow-up']) {
+              show(document.getElementById(id), false);
+            }
+          }
+          
+          function finish(statusText, succeeded) {
+            show(stopButton, false);
+            show(turn.status, !!statusText);
+            turn.status.textContent = statusText || '';
+            show(document.getElementById('insert-btn'), succeeded);
+            show(document.getElementById('copy-btn'), succeeded);
+            show(document.getElementById('regenerate-btn'), canRegenerate);
+            show(document.getElementById('follow-up'), canFollowUp && succeeded);
+          }
+          
+          // Adds Insert, Replace Selection, Copy and New File buttons above each code block of a finished answer
+          function addCodeActions(target, turnIndex) {
+            target.querySelectorAll('pre[data-block]').forEach(pre => {
+              const block = Number(pre.getAttribute('data-block'));
+              const wrapper = document.createElement('div');
+              const actions = document.createElement('div');
+              wrapper.className = 'code-block';
+              actions.className = 'code-actions';
+              
+              for (const [command, label] of [['insert', 'Insert'], ['replaceSelection', 'Replace Selection'], ['copy', 'Copy'], ['newFile', 'New File']]) {
+                const button = document.createElement('button');
+                button.textContent = label;
+                button.addEventListener('click', () => vscode.postMessage({ command, turn: turnIndex, block }));
+                actions.appendChild(button);
+              }
+              
+              pre.parentNode.insertBefore(wrapper, pre);
+              wrapper.appendChild(actions);
+              wrapper.appendChild(pre);
+            });
+          }
+          
+          window.addEventListener('message', event => {
+            const message = event.data;
+            
+            // Panels that are never begun answer once, in a turn without a question
+            if (!turn && message.type !== 'start') {
+              turn = createTurn();
+            }
+            
+            switch (message.type) {
+              case 'start':
+                if (message.replace && turn) {
+                  turn.status.textContent = 'Thinking...';
+                  show(turn.status, true);
+                  turn.response.innerHTML = '';
+                  show(turn.error, false);
+                  show(turn.footer, false);
+                } else {
+                  turn = createTurn(message.question);
+                }
+                setBusy();
+                turn.status.scrollIntoView({ block: 'nearest' });
+                break;
+              case 'status':
+                turn.status.textContent = message.text;
+                break;
+              case 'render':
+                turn.response.innerHTML = message.html;
+                turn.status.textContent = 'Streaming...';
+                break;
+              case 'done':
+                turn.response.innerHTML = message.html;
+                addCodeActions(turn.response, turn.index);
+                turn.footer.textContent = message.footer || '';
+                show(turn.footer, !!message.footer);
+                finish(undefined, true);
+                show(document.getElementById('review-btn'), message.canReview);
+                break;
+              case 'error':
+                turn.error.textContent = message.text;
+                show(turn.error, true);
+                finish(undefined, false);
+                break;
+              case 'stopped':
+                finish('Stopped', false);
+                break;
+            }
+          });
+          
+          stopButton.addEventListener('click', () => {
+            stopButton.disabled = true;
+            turn.status.textContent = 'Stopping...';
+            vscode.postMessage({ command: 'stop' });
+          });
+          
+          document.getElementById('review-btn').addEventListener('click', () => {
+            vscode.postMessage({ command: 'review' });
+          });
+          
+          document.getElementById('insert-btn').addEventListener('click', () => {
+            vscode.postMessage({ command: 'insert', turn: turn.index });
+          });
+          
+          document.getElementById('copy-btn').addEventListener('click', () => {
+            vscode.postMessage({ command: 'copy', turn: turn.index });
+          });
+          
+          document.getElementById('regenerate-btn').addEventListener('click', () => {
+            vscode.postMessage({ command: 'regenerate' });
+          });
+          
+          function sendFollowUp() {
+            const text = followUpInput.value.trim();
+            
+            if (text) {
+              followUpInput.value = '';
+              vscode.postMessage({ command: 'followUp', text });
+            }
+          }
+          
+          document.getElementById('follow-up-btn').addEventListener('click', sendFollowUp);
+          
+          followUpInput.addEventListener('keydown', event => {
+            if (event.key === 'Enter' && !event.shiftKey && !event.isComposing) {
+              event.preventDefault();
+              sendFollowUp();
+            }
+          });
+          
+          vscode.postMessage({ command: 'ready' });
+        </script>
+      </body>
+      </html>
+    `;
+  }
+}